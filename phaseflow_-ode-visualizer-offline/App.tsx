@@ -1,65 +1,693 @@
 
-import React, { useState, useMemo } from 'react';
-import { Matrix2x2, Trajectory, Point } from './types';
-import { solveODE, analyzeMatrix } from './services/odeSolver';
-import PhasePortrait from './components/PhasePortrait';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Matrix2x2, Trajectory, Point, SystemType, VectorField, Bounds, IntegratorSettings, Vector, ForcingInputs, StabilityKind, TimeSpan, FieldSpec, PortraitLayers } from './types';
+import { analyzeMatrix } from './services/odeSolver';
+import { findEquilibria } from './services/equilibria';
+import { compileSystem, linearField } from './services/vectorField';
+import { affineEquilibrium, compileForcing, compileOffset } from './services/forcing';
+import { classificationChanges, compileMatrix, MatrixEntry } from './services/parameter';
+import { analyzeMap } from './services/discreteMap';
+import { companionSystem, coefficientErrors, dampingInfo, DampingRegime, SecondOrderInputs } from './services/secondOrder';
+import { Session, SessionError, SessionTrajectory, SESSION_VERSION, sessionFromHash, sessionToHash } from './services/session';
+import PhasePortrait, { DEFAULT_VIEWPORT, NO_LAYERS } from './components/PhasePortrait';
+import IntegratorControls from './components/IntegratorControls';
+import ClosedFormPanel from './components/ClosedFormPanel';
+import TraceDeterminantPlane from './components/TraceDeterminantPlane';
+import EigenvaluePlane from './components/EigenvaluePlane';
+import DerivationPanel from './components/DerivationPanel';
+import TimeSeriesPlot from './components/TimeSeriesPlot';
+import ForcingControls from './components/ForcingControls';
+import ParameterSlider from './components/ParameterSlider';
+import SessionPanel from './components/SessionPanel';
+import SecondOrderInput from './components/SecondOrderInput';
+import QuizPanel from './components/QuizPanel';
+import CanonicalFormPanel from './components/CanonicalFormPanel';
+import TrajectoryPanel, { TrajectoryChanges } from './components/TrajectoryPanel';
+import SeedingControls from './components/SeedingControls';
+import { sampleExactSolution } from './services/matrixExponential';
+import { eigenlineSeeds, gridSeeds, ringSeeds, Seed, seedDefaults, SeedSettings } from './services/seeding';
+import { EngineJob, getEngine } from './services/engine';
+import { TraceTask } from './services/engineTasks';
+import { canonicalForm, equilibriumToCanonical, fromCanonical, toCanonical } from './services/canonicalForm';
+import { createI18n, initialLocale, Locale, LOCALES, Message, MessageKey, saveLocale } from './services/i18n';
+import { I18nContext } from './hooks/useI18n';
+
+// Each trajectory is traced this long forward and backward in time
+const TIME_SPAN = 9;
+// Orbits of a map are iterated this many times forward and backward
+const MAP_STEPS = 100;
+
+// New trajectories take the next colour in turn
+const TRAJECTORY_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d', '#4f46e5', '#ca8a04'];
+
+// Text colour of the stability line: neutral stability (centers, lines of equilibria) sits between the two
+const STABILITY_COLORS: Record<StabilityKind, string> = {
+  'asymptotically-stable': 'text-emerald-600',
+  stable: 'text-amber-600',
+  unstable: 'text-rose-500'
+};
+
+const DAMPING_LABELS: Record<DampingRegime, MessageKey> = {
+  undamped: 'damping.undamped',
+  underdamped: 'damping.underdamped',
+  'critically-damped': 'damping.critically-damped',
+  overdamped: 'damping.overdamped',
+  'negatively-damped': 'damping.negatively-damped'
+};
+
+const NO_FORCING: ForcingInputs = { bx: '0', by: '0', gx: '0', gy: '0' };
+
+const DEFAULT_ALPHA_RANGE = { min: -2, max: 2 };
+
+// Entries may be numbers or expressions in α
+interface LinearPreset {
+  name: MessageKey;
+  m: Record<MatrixEntry, number | string>;
+  forcing?: ForcingInputs;
+  alphaRange?: { min: number; max: number };
+}
+
+const LINEAR_PRESETS: LinearPreset[] = [
+  { name: 'preset.saddle', m: { a: 1, b: 0, c: 0, d: -1 } },
+  { name: 'preset.spiral-sink', m: { a: -1, b: -2, c: 2, d: -1 } },
+  { name: 'preset.stable-node', m: { a: -2, b: 0, c: 0, d: -1 } },
+  { name: 'preset.center', m: { a: 0, b: -2, c: 2, d: 0 } },
+  // Undamped oscillator driven at its natural frequency: amplitude grows like t/2
+  { name: 'preset.resonance', m: { a: 0, b: 1, c: -1, d: 0 }, forcing: { bx: '0', by: '0', gx: '0', gy: 'cos(t)' } },
+  // Sweeps through sink, spiral sink, center, spiral source, source and saddle
+  { name: 'preset.bifurcation', m: { a: 'α', b: 1, c: -2, d: -1 }, alphaRange: { min: -4, max: 3 } }
+];
+
+const SCALAR_PRESETS: (SecondOrderInputs & { name: MessageKey })[] = [
+  { name: 'preset.underdamped', a: '1', b: '0.5', c: '4', f: '0' },
+  { name: 'preset.critically-damped', a: '1', b: '4', c: '4', f: '0' },
+  { name: 'preset.overdamped', a: '1', b: '5', c: '4', f: '0' },
+  // Lightly damped oscillator driven at its natural frequency
+  { name: 'preset.driven', a: '1', b: '0.2', c: '1', f: 'cos(t)' }
+];
+
+const NONLINEAR_PRESETS: { name: MessageKey; f: string; g: string }[] = [
+  { name: 'preset.damped-pendulum', f: 'y', g: '-sin(x) - 0.25*y' },
+  { name: 'preset.lotka-volterra', f: 'x*(2 - y)', g: 'y*(x - 1)' },
+  { name: 'preset.van-der-pol', f: 'y', g: '(1 - x^2)*y - x' }
+];
+
+// The state a fresh page starts in; also fills gaps in older or partial sessions
+const DEFAULT_SESSION: Session = {
+  version: SESSION_VERSION,
+  systemType: 'linear',
+  timeMode: 'continuous',
+  linearInput: 'matrix',
+  matrix: { a: '1', b: '-2', c: '3', d: '-4' },
+  scalar: { a: '1', b: '0.5', c: '4', f: '0' },
+  forcing: NO_FORCING,
+  alpha: 0,
+  alphaRange: DEFAULT_ALPHA_RANGE,
+  fieldTime: 0,
+  nonlinear: { f: NONLINEAR_PRESETS[0].f, g: NONLINEAR_PRESETS[0].g },
+  trajectories: [],
+  viewport: DEFAULT_VIEWPORT,
+  integrator: { method: 'rk4', dt: 0.03, tolerance: 1e-6, compareWith: null },
+  showExact: false,
+  layers: NO_LAYERS,
+  canonicalView: false,
+  canonicalViewport: DEFAULT_VIEWPORT
+};
 
 const App: React.FC = () => {
+  // Interface language; everything below reads it through the context
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  const { t, n } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    saveLocale(next);
+  };
+
   // Use strings for the input fields to allow natural typing (e.g., '-', '0.', '')
-  const [matrixInputs, setMatrixInputs] = useState({
-    a: '1',
-    b: '-2',
-    c: '3',
-    d: '-4'
-  });
+  const [matrixInputs, setMatrixInputs] = useState(DEFAULT_SESSION.matrix);
+
+  const [systemType, setSystemType] = useState<SystemType>(DEFAULT_SESSION.systemType);
+
+  // A linear system is either the flow x' = Ax or the map x_{n+1} = Ax_n, from the same inputs
+  const [timeMode, setTimeMode] = useState<Session['timeMode']>(DEFAULT_SESSION.timeMode);
+
+  // Linear systems can also be entered as a y'' + b y' + c y = f(t) and drawn as its companion system
+  const [linearInput, setLinearInput] = useState<Session['linearInput']>(DEFAULT_SESSION.linearInput);
+  const [scalarInputs, setScalarInputs] = useState<SecondOrderInputs>(DEFAULT_SESSION.scalar);
+
+  // Value and slider range of the parameter α that matrix entries may depend on
+  const [alpha, setAlpha] = useState(DEFAULT_SESSION.alpha);
+  const [alphaRange, setAlphaRange] = useState(DEFAULT_SESSION.alphaRange);
+
+  // Optional forcing y' = Ay + b + g(t) for linear systems
+  const [forcingInputs, setForcingInputs] = useState<ForcingInputs>(DEFAULT_SESSION.forcing);
+  // Time at which the direction field of a time-dependent system is drawn
+  const [fieldTime, setFieldTime] = useState(DEFAULT_SESSION.fieldTime);
+
+  // Typed-in right-hand sides for nonlinear systems. The portrait keeps the last
+  // field that parsed, so a half-typed expression doesn't blank the plot.
+  const [fieldInputs, setFieldInputs] = useState(DEFAULT_SESSION.nonlinear);
+  const [fieldErrors, setFieldErrors] = useState<{ f: Message | null; g: Message | null }>({ f: null, g: null });
+  const [nonlinearSources, setNonlinearSources] = useState(DEFAULT_SESSION.nonlinear);
+  const nonlinearField = useMemo(
+    () => compileSystem(nonlinearSources.f, nonlinearSources.g).field!,
+    [nonlinearSources]
+  );
 
   const [trajectories, setTrajectories] = useState<Trajectory[]>([]);
+  // The trajectories as last rendered or edited, for handlers that must not trace inside an updater
+  const latestTrajectories = useRef(trajectories);
+  latestTrajectories.current = trajectories;
+  // Numbers the default names, which stay unique after deletions
+  const traced = useRef(0);
+  const [seedSettings, setSeedSettings] = useState<SeedSettings>(() => seedDefaults('grid'));
+  // Initial conditions of a loaded session, traced once its field is in place
+  const [pendingTrajectories, setPendingTrajectories] = useState<SessionTrajectory[] | null>(null);
+
+  const [viewport, setViewport] = useState<Bounds>(DEFAULT_SESSION.viewport);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+  // Trajectories are integrated until they are a full view-width past the visible window
+  const escapeBounds: Bounds = useMemo(() => {
+    const w = viewport.xMax - viewport.xMin;
+    const h = viewport.yMax - viewport.yMin;
+    return { xMin: viewport.xMin - w, xMax: viewport.xMax + w, yMin: viewport.yMin - h, yMax: viewport.yMax + h };
+  }, [viewport]);
+
+  const [showExact, setShowExact] = useState(DEFAULT_SESSION.showExact);
+  // Second portrait in the coordinates where A is in real canonical form
+  const [canonicalView, setCanonicalView] = useState(DEFAULT_SESSION.canonicalView);
+  const [canonicalViewport, setCanonicalViewport] = useState<Bounds>(DEFAULT_SESSION.canonicalViewport);
+  const [layers, setLayers] = useState<PortraitLayers>(DEFAULT_SESSION.layers);
+
+  const [integrator, setIntegrator] = useState<IntegratorSettings>(DEFAULT_SESSION.integrator);
+
+  const [linkError, setLinkError] = useState<Message | null>(null);
+
+  // Practice mode: the field stays hidden while the student answers and sketches by clicking
+  const [quizActive, setQuizActive] = useState(false);
+  const [quizRevealed, setQuizRevealed] = useState(false);
+  const [sketch, setSketch] = useState<Point[][]>([]);
+  const quizHidden = quizActive && !quizRevealed;
+
+  const scalarMode = systemType === 'linear' && linearInput === 'scalar';
+  const discrete = systemType === 'linear' && timeMode === 'discrete';
+  const companion = useMemo(() => companionSystem(scalarInputs), [scalarInputs]);
+  // The matrix and forcing actually in effect, whichever way they were entered
+  const activeMatrixInputs = linearInput === 'scalar' ? companion.matrix : matrixInputs;
+  const activeForcingInputs = linearInput === 'scalar' ? companion.forcing : forcingInputs;
+
+  // Derive the actual numeric matrix at the current α, defaulting to 0 for invalid inputs
+  const parameterizedMatrix = useMemo(() => compileMatrix(activeMatrixInputs), [activeMatrixInputs]);
+  const matrix: Matrix2x2 = useMemo(() => parameterizedMatrix.evaluate(alpha), [parameterizedMatrix, alpha]);
+
+  const analysis = useMemo(() => (discrete ? analyzeMap(matrix) : analyzeMatrix(matrix)), [discrete, matrix]);
+
+  const alphaChanges = useMemo(
+    () => classificationChanges(parameterizedMatrix, alphaRange.min, alphaRange.max, discrete ? analyzeMap : analyzeMatrix),
+    [parameterizedMatrix, alphaRange, discrete]
+  );
 
-  // Derive the actual numeric matrix, defaulting to 0 for invalid inputs
-  const matrix: Matrix2x2 = useMemo(() => ({
-    a: parseFloat(matrixInputs.a) || 0,
-    b: parseFloat(matrixInputs.b) || 0,
-    c: parseFloat(matrixInputs.c) || 0,
-    d: parseFloat(matrixInputs.d) || 0,
-  }), [matrixInputs]);
+  // The curve (τ(α), Δ(α)) the matrix follows as α sweeps its range
+  const traceDetPath = useMemo(() => {
+    if (!parameterizedMatrix.parameterized) return undefined;
+    const path: [number, number][] = [];
+    for (let i = 0; i <= 200; i++) {
+      const m = parameterizedMatrix.evaluate(alphaRange.min + ((alphaRange.max - alphaRange.min) * i) / 200);
+      path.push([m.a + m.d, m.a * m.d - m.b * m.c]);
+    }
+    return path;
+  }, [parameterizedMatrix, alphaRange]);
+
+  const offset = useMemo(
+    () => compileOffset(activeForcingInputs.bx, activeForcingInputs.by),
+    [activeForcingInputs.bx, activeForcingInputs.by]
+  );
+  const forcingB: Vector = offset.b;
+
+  const forcing = useMemo(
+    () => compileForcing(activeForcingInputs.gx, activeForcingInputs.gy),
+    [activeForcingInputs.gx, activeForcingInputs.gy]
+  );
+
+  const scalarErrors = useMemo(
+    () => ({ ...coefficientErrors(scalarInputs, alpha), f: compileForcing('0', scalarInputs.f).errors.y }),
+    [scalarInputs, alpha]
+  );
+  const damping = scalarMode && !discrete ? dampingInfo(analysis) : null;
+  // Maps are iterated without forcing
+  const timeDependent = systemType === 'linear' && !discrete && forcing.g !== null;
+
+  // Equilibria of y' = Ay + b; meaningless once g(t) makes the system non-autonomous.
+  // The fixed points of a map solve (A − I)x = 0 instead.
+  const affineEq = useMemo(() => {
+    if (discrete) return affineEquilibrium({ ...matrix, a: matrix.a - 1, d: matrix.d - 1 }, { x: 0, y: 0 });
+    return systemType === 'linear' && !forcing.g ? affineEquilibrium(matrix, forcingB) : null;
+  }, [discrete, systemType, forcing, matrix, forcingB]);
+
+  // Closed-form solutions are taken about an equilibrium; with a plane of them any origin works
+  const closedFormShift: Point | null =
+    !affineEq || affineEq.kind === 'none' ? null : affineEq.kind === 'plane' ? { x: 0, y: 0 } : affineEq.point;
 
-  const analysis = useMemo(() => analyzeMatrix(matrix), [matrix]);
+  // The field as data for the engine; the forcing sources only count once they parse
+  const fieldSpec: FieldSpec = useMemo(() => {
+    if (discrete) return { kind: 'map', matrix };
+    if (systemType !== 'linear') return { kind: 'nonlinear', ...nonlinearSources };
+    return { kind: 'linear', matrix, b: forcingB, g: forcing.g ? [activeForcingInputs.gx, activeForcingInputs.gy] : null };
+  }, [discrete, systemType, matrix, nonlinearSources, forcing, forcingB]);
+
+  const field: VectorField = useMemo(() => {
+    if (systemType !== 'linear') return nonlinearField;
+    const forced = forcing.g !== null || forcingB.x !== 0 || forcingB.y !== 0;
+    return linearField(matrix, forced ? { b: forcingB, g: forcing.g } : undefined);
+  }, [systemType, matrix, nonlinearField, forcing, forcingB]);
+
+  const visibleTrajectories = useMemo(() => trajectories.filter(traj => !traj.hidden), [trajectories]);
+
+  // Orbits of a map are linear in x, so its canonical coordinates need no shift
+  const canonicalShift = discrete ? { x: 0, y: 0 } : closedFormShift;
+  const canonicalAvailable = systemType === 'linear' && canonicalShift !== null;
+  const canonical = useMemo(() => canonicalForm(matrix), [matrix]);
+  const canonicalShown = canonicalAvailable && canonicalView && !quizActive;
+  const canonicalField = useMemo(() => linearField(canonical.J), [canonical]);
+  const canonicalSpec: FieldSpec = useMemo(() => ({ kind: 'linear', matrix: canonical.J, b: { x: 0, y: 0 }, g: null }), [canonical]);
+  const canonicalAnalysis = useMemo(() => (discrete ? analyzeMap(canonical.J) : analyzeMatrix(canonical.J)), [discrete, canonical]);
+  const canonicalTrajectories = useMemo(
+    () => (canonicalShown ? visibleTrajectories.map(traj => toCanonical(traj, canonical, canonicalShift!)) : []),
+    [canonicalShown, visibleTrajectories, canonical, canonicalShift?.x, canonicalShift?.y]
+  );
+
+  const exactPaths = useMemo(() => {
+    if (systemType !== 'linear' || discrete || !showExact || !closedFormShift) return [];
+    return visibleTrajectories
+      .filter(traj => !traj.comparison && traj.points.length > 1)
+      .map(traj => ({
+        id: traj.id,
+        points: sampleExactSolution(matrix, traj.initial, traj.points[0].t, traj.points[traj.points.length - 1].t, 400, closedFormShift)
+      }));
+  }, [systemType, discrete, showExact, visibleTrajectories, matrix, closedFormShift]);
+
+  const equilibria = useMemo(
+    () => (systemType === 'nonlinear' ? findEquilibria(nonlinearField, viewport) : []),
+    [systemType, nonlinearField, viewport]
+  );
 
   const handleInputChange = (key: keyof typeof matrixInputs, val: string) => {
     setMatrixInputs(prev => ({ ...prev, [key]: val }));
-    // We clear trajectories if the value is actually a new valid number to prevent stale plots
-    if (!isNaN(parseFloat(val))) {
-      setTrajectories([]);
+  };
+
+  const updateFieldInputs = (next: { f: string; g: string }) => {
+    setFieldInputs(next);
+    const compiled = compileSystem(next.f, next.g);
+    setFieldErrors(compiled.errors);
+    if (compiled.field) setNonlinearSources(next);
+  };
+
+  const handleFieldChange = (key: 'f' | 'g', val: string) => {
+    updateFieldInputs({ ...fieldInputs, [key]: val });
+  };
+
+  const handleForcingChange = (next: ForcingInputs) => {
+    setForcingInputs(next);
+  };
+
+  const handleScalarChange = (next: SecondOrderInputs) => {
+    setScalarInputs(next);
+  };
+
+  const handleSystemTypeChange = (type: SystemType) => {
+    setSystemType(type);
+  };
+
+  const handleLinearInputChange = (mode: Session['linearInput']) => {
+    setLinearInput(mode);
+  };
+
+  const defaultSpan: TimeSpan = discrete
+    ? { forward: MAP_STEPS, backward: MAP_STEPS }
+    : { forward: TIME_SPAN, backward: TIME_SPAN };
+
+  const traceSettings = (traj: Pick<Trajectory, 'method' | 'span'>): Omit<TraceTask, 'kind' | 'initial'> => ({
+    spec: fieldSpec,
+    span: traj.span ?? defaultSpan,
+    method: traj.method ?? integrator.method,
+    dt: integrator.dt,
+    tolerance: integrator.tolerance,
+    escape: escapeBounds
+  });
+
+  // Integration runs in the engine: each trajectory grows as its points arrive, a newer
+  // request for the same trajectory cancels the older one, and a failed one stays as far as it got
+  const traceJobs = useRef(new Map<string, EngineJob>());
+  const seedJob = useRef<EngineJob | null>(null);
+
+  const trace = (trajs: Trajectory[]) => {
+    for (const traj of trajs) {
+      traceJobs.current.get(traj.id)?.cancel();
+      traceJobs.current.set(traj.id, getEngine().run({ kind: 'trace', ...traceSettings(traj), initial: traj.initial }, (points, done) => {
+        if (done) traceJobs.current.delete(traj.id);
+        setTrajectories(prev => prev.map(t => (t.id === traj.id ? { ...t, points } : t)));
+      }, () => {
+        traceJobs.current.delete(traj.id);
+      }));
     }
   };
 
-  const handleAddTrajectory = (initial: Point) => {
-    const forward = solveODE(matrix, initial, 300, 0.03, true);
-    const backward = solveODE(matrix, initial, 300, 0.03, false);
-    const fullPoints = [...[...backward].reverse(), ...forward.slice(1)];
-    const newTraj: Trajectory = {
-      id: Math.random().toString(36).substr(2, 9),
-      points: fullPoints,
-      initial,
-      color: `hsl(${Math.random() * 360}, 65%, 45%)`
+  const cancelTracing = () => {
+    traceJobs.current.forEach(job => job.cancel());
+    traceJobs.current.clear();
+    seedJob.current?.cancel();
+    seedJob.current = null;
+  };
+
+  // Any change to the system (the matrix, α, forcing, the nonlinear field, flow vs map, a preset)
+  // re-traces the existing trajectories from their initial points instead of clearing them
+  useEffect(() => {
+    cancelTracing();
+    const kept = trajectories.filter(traj => !(discrete && traj.comparison));
+    if (kept.length < trajectories.length) setTrajectories(kept);
+    trace(kept);
+    // The integrator settings only apply to new trajectories
+  }, [fieldSpec]);
+
+  useEffect(() => {
+    if (!pendingTrajectories) return;
+    // Each comparison follows the trajectory saved just before it
+    let parent: string | undefined;
+    const loaded: Trajectory[] = pendingTrajectories.map(saved => {
+      const id = Math.random().toString(36).substr(2, 9);
+      if (!saved.comparison) parent = id;
+      return {
+        id,
+        points: [{ ...saved.initial, t: 0 }],
+        initial: saved.initial,
+        color: saved.color,
+        method: saved.method,
+        name: saved.name ?? (saved.comparison ? undefined : t('trajectories.default-name', { index: ++traced.current })),
+        ...(saved.comparison ? { comparison: true, parent } : {}),
+        ...(saved.hidden ? { hidden: true } : {}),
+        ...(saved.span ? { span: saved.span } : {})
+      };
+    });
+    cancelTracing();
+    setTrajectories(loaded);
+    trace(loaded);
+    setPendingTrajectories(null);
+  }, [pendingTrajectories]);
+
+  const session: Session = useMemo(() => ({
+    version: SESSION_VERSION,
+    systemType,
+    timeMode,
+    linearInput,
+    matrix: matrixInputs,
+    scalar: scalarInputs,
+    forcing: forcingInputs,
+    alpha,
+    alphaRange,
+    fieldTime,
+    nonlinear: fieldInputs,
+    trajectories: trajectories.map(t => ({
+      initial: t.initial,
+      color: t.color,
+      method: t.method ?? integrator.method,
+      ...(t.comparison ? { comparison: true } : {}),
+      ...(t.name && !t.comparison ? { name: t.name } : {}),
+      ...(t.hidden ? { hidden: true } : {}),
+      ...(t.span ? { span: t.span } : {})
+    })),
+    viewport,
+    integrator,
+    showExact,
+    layers,
+    canonicalView,
+    canonicalViewport
+  }), [systemType, timeMode, linearInput, matrixInputs, scalarInputs, forcingInputs, alpha, alphaRange, fieldTime, fieldInputs, trajectories, viewport, integrator, showExact, layers, canonicalView, canonicalViewport]);
+
+  const applySession = (s: Session) => {
+    setSystemType(s.systemType);
+    setTimeMode(s.timeMode);
+    setLinearInput(s.linearInput);
+    setMatrixInputs(s.matrix);
+    setScalarInputs(s.scalar);
+    setForcingInputs(s.forcing);
+    setAlpha(s.alpha);
+    setAlphaRange(s.alphaRange);
+    setFieldTime(s.fieldTime);
+    updateFieldInputs(s.nonlinear);
+    setViewport(s.viewport);
+    setIntegrator(s.integrator);
+    setShowExact(s.showExact);
+    setLayers(s.layers);
+    setCanonicalView(s.canonicalView);
+    setCanonicalViewport(s.canonicalViewport);
+    setHoverTime(null);
+    clearTrajectories();
+    setPendingTrajectories(s.trajectories);
+  };
+
+  // The URL hash mirrors the session, so the address bar is always a link to the current portrait
+  const writtenHash = useRef<string | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      if (window.location.hash === writtenHash.current) return;
+      try {
+        const loaded = sessionFromHash(window.location.hash, DEFAULT_SESSION);
+        if (loaded) applySession(loaded);
+        setLinkError(null);
+      } catch (e) {
+        if (!(e instanceof SessionError)) throw e;
+        setLinkError(e.detail);
+      }
     };
-    setTrajectories(prev => [...prev.slice(-9), newTraj]);
+    load();
+    window.addEventListener('hashchange', load);
+    return () => window.removeEventListener('hashchange', load);
+  }, []);
+
+  useEffect(() => {
+    // Debounced, since α animations and panning change the session many times a second
+    const timer = setTimeout(() => {
+      const hash = sessionToHash(session);
+      if (hash === window.location.hash) return;
+      writtenHash.current = hash;
+      window.history.replaceState(null, '', hash);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const handleAddTrajectory = (initial: Point) => {
+    if (quizHidden) {
+      setSketch(prev => (prev.length === 0 ? [[initial]] : [...prev.slice(0, -1), [...prev[prev.length - 1], initial]]));
+      return;
+    }
+    addTrajectories([{ initial }]);
+  };
+
+  // A batch of seeds shares one colour
+  const addTrajectories = (seeds: Seed[]) => {
+    const color = TRAJECTORY_COLORS[traced.current % TRAJECTORY_COLORS.length];
+    const added: Trajectory[] = [];
+    for (const { initial, span } of seeds) {
+      const id = Math.random().toString(36).substr(2, 9);
+      added.push({
+        id,
+        points: [{ ...initial, t: 0 }],
+        initial,
+        color,
+        method: integrator.method,
+        name: t('trajectories.default-name', { index: ++traced.current }),
+        ...(span ? { span } : {})
+      });
+      if (integrator.compareWith && !discrete) {
+        added.push({
+          id: Math.random().toString(36).substr(2, 9),
+          points: [{ ...initial, t: 0 }],
+          initial,
+          color,
+          method: integrator.compareWith,
+          comparison: true,
+          parent: id,
+          ...(span ? { span } : {})
+        });
+      }
+    }
+    setTrajectories(prev => [...prev, ...added]);
+    trace(added);
+  };
+
+  const handleSeed = () => {
+    const { strategy, count, spacing } = seedSettings;
+    const center = affineEq?.kind === 'point' ? affineEq.point : { x: 0, y: 0 };
+    switch (strategy) {
+      case 'grid':
+        return addTrajectories(gridSeeds(viewport, count).map(initial => ({ initial })));
+      case 'ring':
+        return addTrajectories(ringSeeds(center, spacing, count).map(initial => ({ initial })));
+      case 'eigenlines': {
+        const linearEq = affineEq && (affineEq.kind === 'point' || affineEq.kind === 'line') ? [{ point: affineEq.point, analysis }] : [];
+        const seeds = eigenlineSeeds(systemType === 'linear' ? linearEq : equilibria, spacing);
+        return addTrajectories(seeds.map(initial => ({ initial })));
+      }
+      case 'streamlines': {
+        seedJob.current?.cancel();
+        // Lines are added as they are placed; each delivery holds all of them so far
+        let placed = 0;
+        seedJob.current = getEngine().run({
+          kind: 'streamlines',
+          trace: traceSettings({}),
+          view: viewport,
+          separation: spacing,
+          maxLines: count,
+          occupied: visibleTrajectories.map(traj => traj.points)
+        }, (seeds, done) => {
+          if (done) seedJob.current = null;
+          if (seeds.length > placed) addTrajectories(seeds.slice(placed));
+          placed = seeds.length;
+        }, () => {
+          seedJob.current = null;
+        });
+        return;
+      }
+    }
+  };
+
+  // Edits apply to the trajectory and its comparison; a new initial point or span re-integrates both
+  // The old curve stays up until the new one arrives, so dragging doesn't flicker
+  const updateTrajectory = (id: string, changes: TrajectoryChanges) => {
+    const { name, ...shared } = changes;
+    const apply = (traj: Trajectory) => ({ ...traj, ...shared, ...(traj.id === id && name !== undefined ? { name } : {}) });
+    const affected = (traj: Trajectory) => traj.id === id || traj.parent === id;
+    setTrajectories(prev => prev.map(traj => (affected(traj) ? apply(traj) : traj)));
+    // Traced outside the updater, which must stay pure, from the latest edit rather than the last
+    // render, so quick successive drags don't revive an older point; a repeated call only
+    // replaces the jobs it started
+    const next = latestTrajectories.current.map(traj => (affected(traj) ? apply(traj) : traj));
+    latestTrajectories.current = next;
+    if (changes.initial || changes.span) trace(next.filter(affected));
+  };
+
+  const deleteTrajectory = (id: string) => {
+    setTrajectories(prev => prev.filter(traj => traj.id !== id && traj.parent !== id));
+  };
+
+  const applyPreset = (preset: LinearPreset) => {
+    const { m } = preset;
+    setMatrixInputs({
+      a: m.a.toString(),
+      b: m.b.toString(),
+      c: m.c.toString(),
+      d: m.d.toString()
+    });
+    setForcingInputs(preset.forcing ?? NO_FORCING);
+    setFieldTime(0);
+    setAlphaRange(preset.alphaRange ?? DEFAULT_ALPHA_RANGE);
+    setAlpha(0);
+    setSystemType('linear');
+    setLinearInput('matrix');
   };
 
-  const applyPreset = (m: { a: number, b: number, c: number, d: number }) => {
+  const applyScalarPreset = ({ name, ...inputs }: SecondOrderInputs & { name: MessageKey }) => {
+    setScalarInputs(inputs);
+    setFieldTime(0);
+    setAlphaRange(DEFAULT_ALPHA_RANGE);
+    setAlpha(0);
+    setSystemType('linear');
+    setLinearInput('scalar');
+  };
+
+  const applyNonlinearPreset = (p: { f: string, g: string }) => {
+    setSystemType('nonlinear');
+    updateFieldInputs({ f: p.f, g: p.g });
+  };
+
+  const handleTraceDetChange = (m: Matrix2x2) => {
+    if (linearInput === 'scalar') {
+      // The companion matrix of y'' − τ y' + Δ y has trace τ and determinant Δ
+      const round2 = (v: number) => Math.round(v * 100) / 100;
+      setScalarInputs(prev => ({ ...prev, a: '1', b: String(round2(-(m.a + m.d))), c: String(round2(m.a * m.d - m.b * m.c)) }));
+      return;
+    }
     setMatrixInputs({
       a: m.a.toString(),
       b: m.b.toString(),
       c: m.c.toString(),
       d: m.d.toString()
     });
+  };
+
+  const clearTrajectories = () => {
+    cancelTracing();
     setTrajectories([]);
   };
 
-  const clearTrajectories = () => setTrajectories([]);
+  const startQuiz = () => {
+    setQuizActive(true);
+    setSystemType('linear');
+    setTimeMode('continuous');
+    setLinearInput('matrix');
+    // Jobs still tracing the previous system would otherwise land in the new one
+    clearTrajectories();
+    setSketch([]);
+  };
+
+  const exitQuiz = () => {
+    setQuizActive(false);
+    setQuizRevealed(false);
+    setSketch([]);
+  };
+
+  const handleQuizQuestion = (m: Matrix2x2) => {
+    setMatrixInputs({ a: m.a.toString(), b: m.b.toString(), c: m.c.toString(), d: m.d.toString() });
+    setForcingInputs(NO_FORCING);
+    setAlphaRange(DEFAULT_ALPHA_RANGE);
+    setAlpha(0);
+    clearTrajectories();
+    setSketch([]);
+    setQuizRevealed(false);
+  };
+
+  // The true trajectories through the start of each sketched stroke
+  const handleQuizReveal = () => {
+    setQuizRevealed(true);
+    const revealed = sketch.filter(stroke => stroke.length > 0).map(stroke => ({
+      id: Math.random().toString(36).substr(2, 9),
+      points: [{ ...stroke[0], t: 0 }],
+      initial: stroke[0],
+      color: TRAJECTORY_COLORS[traced.current % TRAJECTORY_COLORS.length],
+      method: integrator.method,
+      name: t('trajectories.default-name', { index: ++traced.current })
+    }));
+    setTrajectories(revealed);
+    trace(revealed);
+  };
+
+  const sketchTrajectories: Trajectory[] = sketch.filter(stroke => stroke.length > 0).map((stroke, i) => ({
+    id: `sketch-${i}`,
+    points: stroke.map((p, step) => ({ ...p, t: step })),
+    initial: stroke[0],
+    color: '#0f172a',
+    comparison: true
+  }));
+
+  // a ± bi, with the sign folded into the operator
+  const formatComplex = (z: { re: number; im: number }) =>
+    Math.abs(z.im) < 5e-3 ? n(z.re, 2) : t('format.complex', { re: n(z.re, 2), sign: z.im < 0 ? '−' : '+', im: n(Math.abs(z.im), 2) });
+
+  // Two coordinates, separated the locale's way; the caller adds the brackets
+  const formatPair = (x: number, y: number, digits: number) => `${n(x, digits)}${t('format.separator')}${n(y, digits)}`;
 
   // Helper to format equation terms
   const formatTerm = (coeff: string, variable: string, isFirst: boolean = false) => {
+    // Expressions in α are shown verbatim
+    if (coeff.trim() !== '' && isNaN(Number(coeff))) return `${isFirst ? "" : " + "}(${coeff.trim()})${variable}`;
     const val = parseFloat(coeff);
     if (val === 0) return "";
     let sign = val > 0 ? (isFirst ? "" : " + ") : (isFirst ? "-" : " - ");
@@ -68,151 +696,562 @@ const App: React.FC = () => {
     return `${sign}${displayCoeff}${variable}`;
   };
 
+  // Constant and time-dependent forcing terms appended to an equation line
+  const formatForcing = (constant: string, val: number, timeTerm: string) => {
+    const parts: string[] = [];
+    // Expressions such as 2*pi are shown as typed, like matrix entries
+    if (val && isNaN(Number(constant))) parts.push(` + (${constant.trim()})`);
+    else if (val) parts.push(`${val < 0 ? ' - ' : ' + '}${Math.abs(val)}`);
+    if (forcing.g && timeTerm.trim() && !/^[+-]?0*(\.0*)?$/.test(timeTerm.trim())) parts.push(` + (${timeTerm.trim()})`);
+    return parts.join('');
+  };
+
+  // Signed terms joined into a right-hand side, without a leading '+'
+  const joinTerms = (terms: string) => terms.replace(/^ \+ /, '').replace(/^ - /, '-') || '0';
+
+  const scalarForcing = compileForcing('0', scalarInputs.f).g
+    ? ` + (${scalarInputs.f.trim()})${scalarInputs.a.trim() === '1' ? '' : `/(${scalarInputs.a.trim()})`}`
+    : '';
+
+  const axisLabels: [string, string] | undefined = scalarMode ? ['y', "y'"] : undefined;
+
+  // A map is written from the typed entries, or from the numeric companion matrix of a scalar equation
+  const mapEntries = linearInput === 'matrix'
+    ? matrixInputs
+    : { a: String(+matrix.a.toFixed(3)), b: String(+matrix.b.toFixed(3)), c: String(+matrix.c.toFixed(3)), d: String(+matrix.d.toFixed(3)) };
+  const [u, v] = axisLabels ?? ['x', 'y'];
+
+  const equations = discrete
+    ? [
+        `${u}ₙ₊₁ = ${joinTerms(`${formatTerm(mapEntries.a, `${u}ₙ`)}${formatTerm(mapEntries.b, `${v}ₙ`)}`)}`,
+        `${v}ₙ₊₁ = ${joinTerms(`${formatTerm(mapEntries.c, `${u}ₙ`)}${formatTerm(mapEntries.d, `${v}ₙ`)}`)}`
+      ]
+    : scalarMode
+    ? [
+        `${joinTerms(`${formatTerm(scalarInputs.a, "y''")}${formatTerm(scalarInputs.b, "y'")}${formatTerm(scalarInputs.c, 'y')}`)} = ${compileForcing('0', scalarInputs.f).g ? scalarInputs.f.trim() : '0'}`,
+        `y'' = ${joinTerms(`${formatTerm(String(+matrix.c.toFixed(3)), 'y')}${formatTerm(String(+matrix.d.toFixed(3)), "y'")}`)}${scalarForcing}`
+      ]
+    : systemType === 'linear'
+    ? [
+        `x' = ${formatTerm(matrixInputs.a, 'x', true)} ${formatTerm(matrixInputs.b, 'y') || (parseFloat(matrixInputs.a) === 0 ? "0" : "")}${formatForcing(forcingInputs.bx, forcingB.x, forcingInputs.gx)}`,
+        `y' = ${formatTerm(matrixInputs.c, 'x', true)} ${formatTerm(matrixInputs.d, 'y') || (parseFloat(matrixInputs.c) === 0 ? "0" : "")}${formatForcing(forcingInputs.by, forcingB.y, forcingInputs.gy)}`
+      ]
+    : [`x' = ${fieldInputs.f}`, `y' = ${fieldInputs.g}`];
+
   return (
-    <div className="min-h-screen bg-slate-50 p-4 md:p-8 font-sans">
-      <header className="max-w-6xl mx-auto mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
-        <div>
-          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">PhaseFlow</h1>
-          <p className="text-slate-500 font-medium tracking-tight uppercase text-[10px]">Linear System Visualization Tool</p>
-        </div>
-        <div className="flex flex-wrap gap-2">
-           {[
-             { name: 'Saddle', m: { a: 1, b: 0, c: 0, d: -1 } },
-             { name: 'Spiral Sink', m: { a: -1, b: -2, c: 2, d: -1 } },
-             { name: 'Stable Node', m: { a: -2, b: 0, c: 0, d: -1 } },
-             { name: 'Center', m: { a: 0, b: -2, c: 2, d: 0 } }
-           ].map(p => (
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-slate-50 p-4 md:p-8 font-sans">
+        <header className="max-w-6xl mx-auto mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 tracking-tight">PhaseFlow</h1>
+            <p className="text-slate-500 font-medium tracking-tight uppercase text-[10px]">{t('app.tagline')}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+             <div className="flex gap-0.5 p-0.5 bg-slate-100 rounded-md" role="group" aria-label={t('app.language')}>
+               {(Object.keys(LOCALES) as Locale[]).map(l => (
+                 <button
+                   key={l}
+                   onClick={() => changeLocale(l)}
+                   title={LOCALES[l].label}
+                   lang={l}
+                   className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-all ${locale === l ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                 >
+                   {l}
+                 </button>
+               ))}
+             </div>
              <button
-               key={p.name}
-               onClick={() => applyPreset(p.m)}
-               className="px-3 py-1.5 bg-white border border-slate-200 rounded-md text-xs font-bold hover:bg-slate-50 hover:border-blue-300 transition-all shadow-sm text-slate-600"
+               onClick={quizActive ? exitQuiz : startQuiz}
+               className={`px-3 py-1.5 border rounded-md text-xs font-bold transition-all shadow-sm ${quizActive ? 'bg-amber-50 border-amber-300 text-amber-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 hover:border-amber-300'}`}
              >
-               {p.name}
+               <i className="fa-solid fa-graduation-cap mr-1.5"></i>{t(quizActive ? 'quiz.leave' : 'app.practice')}
              </button>
-           ))}
-        </div>
-      </header>
-
-      <main className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-8">
-        <div className="lg:col-span-4 space-y-6">
-          <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-            <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
-              <i className="fa-solid fa-keyboard text-blue-500"></i> Manual Input
-            </h2>
-            
-            <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 mb-6 relative">
-              <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-blue-500 rounded-l-xl"></div>
-              <div className="grid grid-cols-2 gap-x-6 gap-y-4 font-mono">
-                {(['a', 'b', 'c', 'd'] as const).map((k) => (
-                  <div key={k} className="relative group">
-                    <span className="absolute -left-4 top-1/2 -translate-y-1/2 text-[10px] text-slate-300 font-bold uppercase">{k}</span>
-                    <input
-                      type="text"
-                      value={matrixInputs[k]}
-                      onChange={(e) => handleInputChange(k, e.target.value)}
-                      placeholder="0"
-                      className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all text-sm font-bold text-slate-800 shadow-inner"
-                    />
-                  </div>
-                ))}
-              </div>
-            </div>
+             {quizActive ? null : scalarMode ? SCALAR_PRESETS.map(p => (
+               <button
+                 key={p.name}
+                 onClick={() => applyScalarPreset(p)}
+                 className="px-3 py-1.5 bg-white border border-slate-200 rounded-md text-xs font-bold hover:bg-slate-50 hover:border-blue-300 transition-all shadow-sm text-slate-600"
+               >
+                 {t(p.name)}
+               </button>
+             )) : systemType === 'linear' ? LINEAR_PRESETS.map(p => (
+               <button
+                 key={p.name}
+                 onClick={() => applyPreset(p)}
+                 className="px-3 py-1.5 bg-white border border-slate-200 rounded-md text-xs font-bold hover:bg-slate-50 hover:border-blue-300 transition-all shadow-sm text-slate-600"
+               >
+                 {t(p.name)}
+               </button>
+             )) : NONLINEAR_PRESETS.map(p => (
+               <button
+                 key={p.name}
+                 onClick={() => applyNonlinearPreset(p)}
+                 className="px-3 py-1.5 bg-white border border-slate-200 rounded-md text-xs font-bold hover:bg-slate-50 hover:border-blue-300 transition-all shadow-sm text-slate-600"
+               >
+                 {t(p.name)}
+               </button>
+             ))}
+          </div>
+        </header>
 
-            <div className="space-y-1 mb-6">
-               <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 px-1">System Equations</div>
-               <div className="p-3 bg-slate-900 rounded-lg text-blue-400 font-mono text-xs space-y-1 shadow-lg">
-                 <div>x' = {formatTerm(matrixInputs.a, 'x', true)} {formatTerm(matrixInputs.b, 'y') || (parseFloat(matrixInputs.a) === 0 ? "0" : "")}</div>
-                 <div>y' = {formatTerm(matrixInputs.c, 'x', true)} {formatTerm(matrixInputs.d, 'y') || (parseFloat(matrixInputs.c) === 0 ? "0" : "")}</div>
-               </div>
+        <main className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-8">
+          {quizActive ? (
+            <div className="lg:col-span-4 space-y-6">
+              <QuizPanel
+                sketch={sketch}
+                onNewStroke={() => setSketch(prev => (prev.length > 0 && prev[prev.length - 1].length > 0 ? [...prev, []] : prev))}
+                onClearSketch={() => setSketch([])}
+                onQuestion={handleQuizQuestion}
+                onReveal={handleQuizReveal}
+                onExit={exitQuiz}
+              />
             </div>
-
-            <button 
-              onClick={clearTrajectories}
-              className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg text-xs font-bold transition-all uppercase tracking-widest shadow-md active:scale-95"
-            >
-              <i className="fa-solid fa-rotate-left mr-2"></i> Reset Plot
-            </button>
-          </section>
-
-          <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-            <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
-              <i className="fa-solid fa-square-root-variable text-purple-500"></i> Eigen-Analysis
-            </h2>
-            <div className="space-y-4 text-xs">
-              <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
-                <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">State</div>
-                <div className="font-bold text-slate-900 text-sm mb-1">{analysis.classification}</div>
-                <div className={`font-semibold ${analysis.stability.includes('Unstable') ? 'text-rose-500' : 'text-emerald-600'}`}>
-                  {analysis.stability}
+          ) : (
+            <div className="lg:col-span-4 space-y-6">
+              <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+                  <i className="fa-solid fa-keyboard text-blue-500"></i> {t('input.title')}
+                </h2>
+              
+                <div className="flex gap-1 p-1 bg-slate-100 rounded-lg mb-4">
+                  {([['linear', t('input.linear')], ['nonlinear', t('input.nonlinear')]] as const).map(([type, label]) => (
+                    <button
+                      key={type}
+                      onClick={() => handleSystemTypeChange(type)}
+                      className={`flex-1 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${systemType === type ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
                 </div>
-              </div>
 
-              <div className="space-y-2">
-                <div className="text-[10px] uppercase font-bold text-slate-400">Values & Vectors</div>
-                {analysis.eigenvalues.map((ev, i) => (
-                  <div key={i} className="flex flex-col gap-1 p-2 rounded border border-slate-50 bg-white shadow-sm">
-                    <div className="flex justify-between items-center">
-                       <span className="font-mono text-blue-600 font-bold">λ{i+1}: {ev.re.toFixed(2)}{ev.im !== 0 ? ` ± ${Math.abs(ev.im).toFixed(2)}i` : ''}</span>
+                {systemType === 'linear' ? (
+                  <>
+                    <div className="flex gap-1 p-0.5 bg-slate-100 rounded-md mb-2">
+                      {([['continuous', `${t('input.flow')} x' = Ax`], ['discrete', `${t('input.map')} xₙ₊₁ = Axₙ`]] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => setTimeMode(mode)}
+                          className={`flex-1 py-1 rounded text-[10px] font-bold tracking-wider transition-all ${timeMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="flex gap-1 p-0.5 bg-slate-100 rounded-md mb-4">
+                      {([['matrix', t('input.matrix')], ['scalar', "a y'' + b y' + c y"]] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => handleLinearInputChange(mode)}
+                          className={`flex-1 py-1 rounded text-[10px] font-bold tracking-wider transition-all ${linearInput === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
                     </div>
-                    {analysis.eigenvectors && analysis.eigenvectors[i] && (
-                      <div className="text-slate-500 font-mono text-[10px] flex items-center gap-1">
-                        <i className="fa-solid fa-arrow-right text-[8px]"></i>
-                        v{i+1}: [{analysis.eigenvectors[i].x.re.toFixed(2)}, {analysis.eigenvectors[i].y.re.toFixed(2)}]
+
+                    {linearInput === 'scalar' ? (
+                      <SecondOrderInput
+                        inputs={scalarInputs}
+                        errors={scalarErrors}
+                        onChange={handleScalarChange}
+                        timeDependent={timeDependent}
+                        fieldTime={fieldTime}
+                        onFieldTimeChange={setFieldTime}
+                      />
+                    ) : (
+                      <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 mb-6 relative">
+                        <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-blue-500 rounded-l-xl"></div>
+                        <div className="grid grid-cols-2 gap-x-6 gap-y-4 font-mono">
+                          {(['a', 'b', 'c', 'd'] as const).map((k) => (
+                            <div key={k} className="relative group">
+                              <span className="absolute -left-4 top-1/2 -translate-y-1/2 text-[10px] text-slate-300 font-bold uppercase">{k}</span>
+                              <input
+                                type="text"
+                                value={matrixInputs[k]}
+                                onChange={(e) => handleInputChange(k, e.target.value)}
+                                placeholder="0"
+                                spellCheck={false}
+                                title={parameterizedMatrix.errors[k] ? t(parameterizedMatrix.errors[k]) : undefined}
+                                className={`w-full px-3 py-2 bg-white border rounded-lg focus:ring-2 focus:outline-none transition-all text-sm font-bold text-slate-800 shadow-inner ${parameterizedMatrix.errors[k] ? 'border-rose-300 focus:ring-rose-400' : 'border-slate-200 focus:ring-blue-500'}`}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        <p className="mt-3 text-[10px] text-slate-400 leading-snug">
+                          {t('input.alpha-hint')}
+                        </p>
                       </div>
                     )}
+
+                    {parameterizedMatrix.parameterized && (
+                      <ParameterSlider
+                        alpha={alpha}
+                        range={alphaRange}
+                        changes={alphaChanges}
+                        state={analysis}
+                        onAlphaChange={setAlpha}
+                        onRangeChange={setAlphaRange}
+                      />
+                    )}
+
+                    <div className="space-y-1 mb-6">
+                       <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 px-1">{t('input.equations')}</div>
+                       <div className="p-3 bg-slate-900 rounded-lg text-blue-400 font-mono text-xs space-y-1 shadow-lg">
+                         {equations.map(eq => <div key={eq}>{eq}</div>)}
+                       </div>
+                    </div>
+
+                    {discrete && (
+                      <p className="mb-6 px-1 text-[10px] text-slate-400 leading-snug">
+                        {t('input.map-hint')}
+                      </p>
+                    )}
+
+                    {linearInput === 'matrix' && !discrete && (
+                      <ForcingControls
+                        inputs={forcingInputs}
+                        errors={{ bx: offset.errors.x, by: offset.errors.y, gx: forcing.errors.x, gy: forcing.errors.y }}
+                        onChange={handleForcingChange}
+                        timeDependent={timeDependent}
+                        fieldTime={fieldTime}
+                        onFieldTimeChange={setFieldTime}
+                      />
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 mb-6 relative space-y-4">
+                      <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-blue-500 rounded-l-xl"></div>
+                      {(['f', 'g'] as const).map((k) => (
+                        <div key={k} className="font-mono">
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-slate-400 font-bold shrink-0 w-6">{k === 'f' ? "x'" : "y'"}</span>
+                            <input
+                              type="text"
+                              value={fieldInputs[k]}
+                              onChange={(e) => handleFieldChange(k, e.target.value)}
+                              placeholder="0"
+                              spellCheck={false}
+                              className={`w-full px-3 py-2 bg-white border rounded-lg focus:ring-2 focus:outline-none transition-all text-sm font-bold text-slate-800 shadow-inner ${fieldErrors[k] ? 'border-rose-300 focus:ring-rose-400' : 'border-slate-200 focus:ring-blue-500'}`}
+                            />
+                          </div>
+                          {fieldErrors[k] && (
+                            <div className="mt-1 ml-8 text-[10px] font-sans font-semibold text-rose-500">
+                              <i className="fa-solid fa-circle-exclamation mr-1"></i>{t(fieldErrors[k])}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="space-y-1 mb-6">
+                       <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 px-1">{t('input.equations')}</div>
+                       <div className="p-3 bg-slate-900 rounded-lg text-blue-400 font-mono text-xs space-y-1 shadow-lg">
+                         {equations.map(eq => <div key={eq}>{eq}</div>)}
+                       </div>
+                       <p className="text-[10px] text-slate-400 px-1 pt-1 leading-snug">
+                         {t('input.syntax-hint')}
+                       </p>
+                    </div>
+                  </>
+                )}
+
+                <button 
+                  onClick={clearTrajectories}
+                  className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg text-xs font-bold transition-all uppercase tracking-widest shadow-md active:scale-95"
+                >
+                  <i className="fa-solid fa-rotate-left mr-2"></i> {t('input.reset')}
+                </button>
+              </section>
+
+              <SeedingControls
+                settings={seedSettings}
+                onChange={setSeedSettings}
+                onSeed={handleSeed}
+                discrete={discrete}
+              />
+
+              <TrajectoryPanel
+                trajectories={trajectories}
+                defaultSpan={defaultSpan}
+                discrete={discrete}
+                onChange={updateTrajectory}
+                onDelete={deleteTrajectory}
+              />
+
+              {!discrete && <IntegratorControls settings={integrator} onChange={setIntegrator} />}
+
+              <SessionPanel session={session} defaults={DEFAULT_SESSION} onLoad={applySession} linkError={linkError} />
+
+              <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+                  <i className="fa-solid fa-square-root-variable text-purple-500"></i> {t('analysis.title')}
+                </h2>
+                {systemType === 'nonlinear' ? (
+                  <div className="space-y-2 text-xs">
+                    <div className="text-[10px] uppercase font-bold text-slate-400">
+                      {t('analysis.equilibria-in-view', { count: equilibria.length })}
+                    </div>
+                    {equilibria.length === 0 && (
+                      <p className="text-slate-500 leading-snug">{t('analysis.no-equilibria')}</p>
+                    )}
+                    {equilibria.map((eq, i) => (
+                      <div key={i} className="p-2 rounded border border-slate-100 bg-slate-50 space-y-1">
+                        <div className="flex justify-between items-baseline gap-2">
+                          <span className="font-mono font-bold text-slate-700">({formatPair(eq.point.x, eq.point.y, 3)})</span>
+                          <span className="font-bold text-slate-900">{t(eq.analysis.classification)}</span>
+                        </div>
+                        <div className={`font-semibold ${STABILITY_COLORS[eq.analysis.stabilityKind]}`}>
+                          {t(eq.analysis.stability)}
+                        </div>
+                        <div className="font-mono text-[10px] text-slate-500">
+                          J = [[{formatPair(eq.jacobian.a, eq.jacobian.b, 2)}], [{formatPair(eq.jacobian.c, eq.jacobian.d, 2)}]]
+                        </div>
+                        <div className="font-mono text-[10px] text-blue-600 font-bold">
+                          λ: {eq.analysis.eigenvalues.map(formatComplex).join(t('format.separator'))}
+                        </div>
+                        {!eq.hyperbolic && (
+                          <div className="text-[10px] text-amber-600 font-semibold">
+                            <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+                            {t('analysis.non-hyperbolic')}
+                          </div>
+                        )}
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
+                ) : (
+                  <div className="space-y-4 text-xs">
+                    <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                      <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">{t('analysis.state')}</div>
+                      <div className="font-bold text-slate-900 text-sm mb-1">{t(analysis.classification)}</div>
+                      <div className={`font-semibold ${STABILITY_COLORS[analysis.stabilityKind]}`}>
+                        {t(analysis.stability)}
+                      </div>
+                    </div>
+
+                    {scalarMode && (
+                      <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">{t('analysis.damping')}</div>
+                        {damping ? (
+                          <>
+                            <div className="font-bold text-slate-900 text-sm mb-1">{t(DAMPING_LABELS[damping.regime])}</div>
+                            <div className="font-mono text-slate-700 leading-snug">
+                              <div>ω₀ = √(c/a) = {n(damping.naturalFrequency, 3)}</div>
+                              <div>ζ = b / (2√(ac)) = {n(damping.dampingRatio, 3)}</div>
+                              {damping.dampedFrequency !== null && damping.regime !== 'undamped' && (
+                                <div>ω_d = ω₀√(1 − ζ²) = {n(damping.dampedFrequency, 3)}</div>
+                              )}
+                            </div>
+                          </>
+                        ) : (
+                          <div className="text-slate-500 leading-snug">
+                            {t('analysis.not-oscillator')}
+                          </div>
+                        )}
+                        {timeDependent && (
+                          <div className="mt-1 text-[10px] text-slate-400 leading-snug">{t('analysis.free-response')}</div>
+                        )}
+                      </div>
+                    )}
+
+                    {discrete ? (
+                      <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">{t('analysis.fixed-points')}</div>
+                        <div className="text-slate-500 leading-snug">
+                          {affineEq?.kind === 'point' && t('analysis.origin-only')}
+                          {affineEq?.kind === 'line' && t('analysis.fixed-line', { direction: `(${formatPair(affineEq.direction.x, affineEq.direction.y, 2)})` })}
+                          {affineEq?.kind === 'plane' && t('analysis.map-every-point')}
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">{t('analysis.equilibrium')}</div>
+                        <div className="font-mono text-slate-700 leading-snug">
+                          {timeDependent && (
+                            <span className="font-sans text-slate-500">
+                              {t('analysis.non-autonomous')}
+                            </span>
+                          )}
+                          {affineEq?.kind === 'point' && <>x* = −A⁻¹b = ({formatPair(affineEq.point.x, affineEq.point.y, 3)})</>}
+                          {affineEq?.kind === 'line' && (
+                            <>{t('analysis.line')} x* + s·d, x* = ({formatPair(affineEq.point.x, affineEq.point.y, 3)}), d = ({formatPair(affineEq.direction.x, affineEq.direction.y, 2)})</>
+                          )}
+                          {affineEq?.kind === 'plane' && <span className="font-sans text-slate-500">{t('analysis.flow-every-point')}</span>}
+                          {affineEq?.kind === 'none' && (
+                            <span className="font-sans text-rose-500">{t('analysis.no-equilibrium')}</span>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <div className="text-[10px] uppercase font-bold text-slate-400">{t('analysis.values-vectors')}</div>
+                      {analysis.eigenvalues.map((ev, i) => (
+                        <div key={i} className="flex flex-col gap-1 p-2 rounded border border-slate-50 bg-white shadow-sm">
+                          <div className="flex justify-between items-center">
+                             <span className="font-mono text-blue-600 font-bold">λ{i+1}: {formatComplex(ev)}</span>
+                          </div>
+                          {analysis.eigenvectors && analysis.eigenvectors[i] && (
+                            <div className="text-slate-500 font-mono text-[10px] flex items-center gap-1">
+                              <i className="fa-solid fa-arrow-right text-[8px]"></i>
+                              v{i+1}: [{formatComplex(analysis.eigenvectors[i].x)}{t('format.separator')}{formatComplex(analysis.eigenvectors[i].y)}]
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                      {analysis.eigenvectors && analysis.rotation && (
+                        <div className="text-slate-500 text-[10px] leading-snug px-1 space-y-1">
+                          <div className="font-mono">
+                            v = a ± bi, a = [{formatPair(analysis.eigenvectors[0].x.re, analysis.eigenvectors[0].y.re, 2)}],
+                            b = [{formatPair(analysis.eigenvectors[0].x.im, analysis.eigenvectors[0].y.im, 2)}]
+                          </div>
+                          <div>
+                            {t(analysis.kind === 'center' || analysis.kind === 'rotation' ? 'analysis.ellipse-axes' : 'analysis.spiral-axes')}
+                            {' '}{t(discrete ? 'analysis.iterate-turns' : 'analysis.flow-turns')}{' '}
+                            <b>{t(analysis.rotation === 'clockwise' ? 'rotation.clockwise' : 'rotation.counterclockwise')}</b>.
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </section>
+
+              {systemType === 'linear' && <DerivationPanel matrix={matrix} analysis={analysis} discrete={discrete} />}
+
+              {systemType === 'linear' && !discrete && (
+                <TraceDeterminantPlane matrix={matrix} analysis={analysis} path={traceDetPath} onChange={handleTraceDetChange} />
+              )}
+
+              {discrete && <EigenvaluePlane analysis={analysis} />}
+
+              {systemType === 'linear' && !discrete && (
+                <ClosedFormPanel
+                  matrix={matrix}
+                  shift={closedFormShift}
+                  trajectories={visibleTrajectories}
+                  showExact={showExact}
+                  onToggleExact={setShowExact}
+                />
+              )}
+
+              {systemType === 'linear' && (
+                <CanonicalFormPanel
+                  form={canonicalAvailable ? canonical : null}
+                  discrete={discrete}
+                  showPortrait={canonicalView}
+                  onTogglePortrait={setCanonicalView}
+                />
+              )}
             </div>
-          </section>
-        </div>
-
-        <div className="lg:col-span-8 space-y-6">
-          <PhasePortrait 
-            matrix={matrix} 
-            trajectories={trajectories} 
-            analysis={analysis}
-            onAddTrajectory={handleAddTrajectory} 
-          />
-          
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="flex items-start gap-3 p-4 bg-white rounded-xl border border-slate-200">
-              <div className="p-2 bg-emerald-50 rounded-lg text-emerald-500 shrink-0">
-                <i className="fa-solid fa-arrow-pointer"></i>
-              </div>
+          )}
+
+          <div className="lg:col-span-8 space-y-6">
+            <div className={canonicalShown ? 'grid grid-cols-1 xl:grid-cols-2 gap-6' : ''}>
               <div>
-                <p className="font-bold text-slate-800 text-xs mb-1">Interactive Tracing</p>
-                <p className="text-slate-500 text-[11px] leading-snug">
-                  <b>Click anywhere</b> on the phase portrait to set an initial condition and trace its trajectory.
-                </p>
+                {canonicalShown && <div className="text-[10px] uppercase font-bold text-slate-400 mb-2">{t('portrait.original')}</div>}
+                <PhasePortrait 
+                  field={field} 
+                  fieldSpec={fieldSpec}
+                  trajectories={quizActive ? [...sketchTrajectories, ...visibleTrajectories] : visibleTrajectories} 
+                  analysis={systemType === 'linear' && !timeDependent && !quizHidden ? analysis : null}
+                  affineEquilibrium={quizHidden ? null : affineEq}
+                  fieldTime={timeDependent ? fieldTime : 0}
+                  equilibria={equilibria}
+                  exactPaths={exactPaths}
+                  viewport={viewport}
+                  layers={layers}
+                  onLayersChange={setLayers}
+                  discrete={discrete}
+                  hideField={quizHidden}
+                  axisLabels={axisLabels}
+                  exportInfo={{
+                    equations: systemType === 'linear' && parameterizedMatrix.parameterized ? [...equations, `α = ${alpha}`] : equations,
+                    matrix: systemType === 'linear' ? matrix : null
+                  }}
+                  hoverTime={hoverTime}
+                  onHoverTime={setHoverTime}
+                  onViewportChange={setViewport}
+                  onAddTrajectory={handleAddTrajectory} 
+                  onMoveInitial={quizActive ? undefined : (id, p) => updateTrajectory(id, { initial: p })}
+                />
               </div>
+
+              {canonicalShown && (
+                <div>
+                  <div className="text-[10px] uppercase font-bold text-slate-400 mb-2">{t('portrait.canonical')} u = P⁻¹(x − x*)</div>
+                  <PhasePortrait
+                    field={canonicalField}
+                    fieldSpec={canonicalSpec}
+                    trajectories={canonicalTrajectories}
+                    analysis={canonicalAnalysis}
+                    affineEquilibrium={affineEq && equilibriumToCanonical(affineEq, canonical)}
+                    viewport={canonicalViewport}
+                    discrete={discrete}
+                    axisLabels={['u₁', 'u₂']}
+                    exportInfo={{ equations: [], matrix: canonical.J }}
+                    hoverTime={hoverTime}
+                    onHoverTime={setHoverTime}
+                    onViewportChange={setCanonicalViewport}
+                    onAddTrajectory={(u) => handleAddTrajectory(fromCanonical(u, canonical, canonicalShift!))}
+                    onMoveInitial={(id, u) => updateTrajectory(id, { initial: fromCanonical(u, canonical, canonicalShift!) })}
+                  />
+                </div>
+              )}
             </div>
-            <div className="flex items-start gap-3 p-4 bg-white rounded-xl border border-slate-200">
-              <div className="p-2 bg-blue-50 rounded-lg text-blue-500 shrink-0">
-                <i className="fa-solid fa-compass-drafting"></i>
-              </div>
-              <div>
-                <p className="font-bold text-slate-800 text-xs mb-1">Eigenvalues (λ)</p>
-                <p className="text-slate-500 text-[11px] leading-snug">
-                  Real parts determine growth or decay. Imaginary parts cause rotation.
-                </p>
+
+            {!quizHidden && (
+              <TimeSeriesPlot
+                trajectories={visibleTrajectories}
+                analysis={systemType === 'linear' ? analysis : null}
+                discrete={discrete}
+                axisLabels={axisLabels}
+                hoverTime={hoverTime}
+                onHoverTime={setHoverTime}
+              />
+            )}
+          
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="flex items-start gap-3 p-4 bg-white rounded-xl border border-slate-200">
+                <div className="p-2 bg-emerald-50 rounded-lg text-emerald-500 shrink-0">
+                  <i className="fa-solid fa-arrow-pointer"></i>
+                </div>
+                <div>
+                  <p className="font-bold text-slate-800 text-xs mb-1">{t('info.tracing-title')}</p>
+                  <p className="text-slate-500 text-[11px] leading-snug">
+                    <b>{t('info.tracing-click')}</b> {t('info.tracing')}
+                  </p>
+                </div>
               </div>
-            </div>
-            <div className="flex items-start gap-3 p-4 bg-white rounded-xl border border-slate-200">
-              <div className="p-2 bg-purple-50 rounded-lg text-purple-500 shrink-0">
-                <i className="fa-solid fa-lines-leaning"></i>
+              <div className="flex items-start gap-3 p-4 bg-white rounded-xl border border-slate-200">
+                <div className="p-2 bg-blue-50 rounded-lg text-blue-500 shrink-0">
+                  <i className="fa-solid fa-compass-drafting"></i>
+                </div>
+                <div>
+                  <p className="font-bold text-slate-800 text-xs mb-1">{t('info.eigenvalues-title')} (λ)</p>
+                  <p className="text-slate-500 text-[11px] leading-snug">
+                    {t('info.eigenvalues')}
+                  </p>
+                </div>
               </div>
-              <div>
-                <p className="font-bold text-slate-800 text-xs mb-1">Eigenvectors (v)</p>
-                <p className="text-slate-500 text-[11px] leading-snug">
-                  These define <b>invariant lines</b>: directions where the flow is purely radial.
-                </p>
+              <div className="flex items-start gap-3 p-4 bg-white rounded-xl border border-slate-200">
+                <div className="p-2 bg-purple-50 rounded-lg text-purple-500 shrink-0">
+                  <i className="fa-solid fa-lines-leaning"></i>
+                </div>
+                <div>
+                  <p className="font-bold text-slate-800 text-xs mb-1">{t('info.eigenvectors-title')} (v)</p>
+                  <p className="text-slate-500 text-[11px] leading-snug">
+                    {t('info.eigenvectors-define')} <b>{t('info.invariant-lines')}</b>{t('info.eigenvectors')}
+                  </p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      </main>
-    </div>
+        </main>
+      </div>
+    </I18nContext.Provider>
   );
 };
 
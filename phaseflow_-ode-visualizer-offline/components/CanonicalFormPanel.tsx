@@ -0,0 +1,67 @@
+
+import React from 'react';
+import { Matrix2x2 } from '../types';
+import { CanonicalForm } from '../services/canonicalForm';
+import { MathNode } from '../services/derivation';
+import { SolutionCase } from '../services/matrixExponential';
+import Formula from './Formula';
+import { I18n, MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface CanonicalFormPanelProps {
+  // Null when there is no equilibrium to take coordinates about (time-dependent forcing, none at all)
+  form: CanonicalForm | null;
+  discrete: boolean;
+  showPortrait: boolean;
+  onTogglePortrait: (show: boolean) => void;
+}
+
+const CASE_LABELS: Record<SolutionCase, MessageKey> = {
+  distinct: 'canonical.distinct',
+  complex: 'canonical.complex',
+  defective: 'canonical.defective',
+  scalar: 'canonical.scalar'
+};
+
+const matrixNode = (m: Matrix2x2, n: I18n['n']): MathNode => {
+  const fmt = (v: number) => {
+    const r = Math.abs(v) < 5e-4 ? 0 : +v.toFixed(3);
+    return r < 0 ? `−${n(-r)}` : n(r);
+  };
+  return { matrix: [[fmt(m.a), fmt(m.b)], [fmt(m.c), fmt(m.d)]] };
+};
+
+const CanonicalFormPanel: React.FC<CanonicalFormPanelProps> = ({ form, discrete, showPortrait, onTogglePortrait }) => {
+  const { t, n } = useI18n();
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-up-down-left-right text-teal-500"></i> {t('canonical.title')}
+      </h2>
+      {form ? (
+        <div className="space-y-3 text-xs">
+          <div className="text-[10px] uppercase font-bold text-slate-400">{t(CASE_LABELS[form.kind])}</div>
+          <div className="font-mono text-[11px] text-slate-700 space-y-2">
+            <div className="flex flex-wrap items-center"><Formula node={['P = ', matrixNode(form.P, n), '   P⁻¹ = ', matrixNode(form.inverse, n)]} /></div>
+            <div className="flex flex-wrap items-center"><Formula node={['P⁻¹AP = ', matrixNode(form.J, n)]} /></div>
+          </div>
+          <p className="text-[10px] text-slate-500 leading-snug">
+            {discrete
+              ? <>{t('canonical.map-coordinates')} u<sub>n+1</sub> = (P⁻¹AP)u<sub>n</sub>.</>
+              : <>{t('canonical.flow-coordinates')} u' = (P⁻¹AP)u.</>}
+          </p>
+          <label className="flex items-center gap-2 text-[11px] font-semibold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={showPortrait} onChange={(e) => onTogglePortrait(e.target.checked)} className="accent-teal-500" />
+            {t('canonical.side-by-side')}
+          </label>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500 leading-snug">
+          {t('canonical.unavailable')}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default CanonicalFormPanel;
@@ -0,0 +1,148 @@
+
+import React, { useMemo } from 'react';
+import { Matrix2x2, Point, Trajectory } from '../types';
+import { closedForm, maxDeviation, particularSolution, ComponentSolution, ClosedForm } from '../services/matrixExponential';
+import { INTEGRATORS } from '../services/integrators';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ClosedFormPanelProps {
+  matrix: Matrix2x2;
+  // Equilibrium x* of y' = Ay + b; null when no closed form applies (time-dependent forcing, no equilibrium)
+  shift: Point | null;
+  trajectories: Trajectory[];
+  showExact: boolean;
+  onToggleExact: (show: boolean) => void;
+}
+
+const CASE_LABELS: Record<ClosedForm['kind'], MessageKey> = {
+  distinct: 'closed-form.distinct',
+  complex: 'closed-form.complex',
+  defective: 'closed-form.defective',
+  scalar: 'closed-form.scalar'
+};
+
+// Two decimals in the interface language, with values that round away shown as zero
+const useFormat = () => {
+  const { t, n } = useI18n();
+  const fmt = (v: number) => n(Math.abs(v) < 5e-3 ? 0 : v, 2);
+  const vec = (p: Point) => `[${fmt(p.x)}${t('format.separator')}${fmt(p.y)}]`;
+  return { fmt, vec };
+};
+
+// e^{rt}, or nothing when r = 0
+const Exp: React.FC<{ rate: number }> = ({ rate }) => {
+  const { fmt } = useFormat();
+  return Math.abs(rate) < 5e-3 ? null : <>e<sup>{fmt(rate)}t</sup></>;
+};
+
+const Component: React.FC<{ cf: ClosedForm; sol: ComponentSolution; offset: number }> = ({ cf, sol, offset }) => {
+  const { fmt } = useFormat();
+  const terms = <ComponentTerms cf={cf} sol={sol} />;
+  return Math.abs(offset) < 5e-3 ? terms : <>{fmt(offset)} + {terms}</>;
+};
+
+const ComponentTerms: React.FC<{ cf: ClosedForm; sol: ComponentSolution }> = ({ cf, sol }) => {
+  const { fmt } = useFormat();
+  switch (cf.kind) {
+    case 'distinct':
+      return <>{fmt(sol.p)}·<Exp rate={cf.eigenvalues![0]} /> + {fmt(sol.q)}·<Exp rate={cf.eigenvalues![1]} /></>;
+    case 'complex':
+      return <><Exp rate={cf.s} />({fmt(sol.p)} cos {fmt(cf.omega)}t + {fmt(sol.q)} sin {fmt(cf.omega)}t)</>;
+    case 'defective':
+      return <><Exp rate={cf.s} />({fmt(sol.p)} + {fmt(sol.q)}t)</>;
+    case 'scalar':
+      return <>{fmt(sol.p)}·<Exp rate={cf.s} /></>;
+  }
+};
+
+const ClosedFormPanel: React.FC<ClosedFormPanelProps> = ({ matrix, shift, trajectories, showExact, onToggleExact }) => {
+  const { t } = useI18n();
+  const { fmt, vec } = useFormat();
+  const cf = useMemo(() => closedForm(matrix), [matrix]);
+  const origin = shift ?? { x: 0, y: 0 };
+  const shifted = Math.hypot(origin.x, origin.y) > 1e-9;
+
+  const rows = useMemo(() => shift ? trajectories.map(traj => ({
+    traj,
+    sol: particularSolution(cf, { x: traj.initial.x - shift.x, y: traj.initial.y - shift.y }),
+    deviation: maxDeviation(matrix, traj.initial, traj.points, shift)
+  })) : [], [cf, matrix, shift, trajectories]);
+
+  if (!shift) {
+    return (
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+          <i className="fa-solid fa-infinity text-amber-500"></i> {t('closed-form.title')}
+        </h2>
+        <p className="text-xs text-slate-500 leading-snug">
+          {t('closed-form.the-closed-form')} x* + e<sup>At</sup>(x₀ − x*) {t('closed-form.unavailable')}
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-infinity text-amber-500"></i> {t('closed-form.title')}
+      </h2>
+
+      <div className="space-y-3 text-xs">
+        <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2">
+          <div className="text-[10px] uppercase font-bold text-slate-400">{t(CASE_LABELS[cf.kind])}</div>
+          <div className="font-mono text-[11px] text-slate-700">
+            {shifted && <div className="mb-1">𝐱(t) = 𝐱* + 𝐮(t), 𝐱* = {vec(origin)}, {t('closed-form.where')}</div>}
+            {cf.kind === 'distinct' && (
+              <>{shifted ? '𝐮' : '𝐱'}(t) = c₁<Exp rate={cf.eigenvalues![0]} />v₁ + c₂<Exp rate={cf.eigenvalues![1]} />v₂</>
+            )}
+            {cf.kind === 'complex' && (
+              <>{shifted ? '𝐮' : '𝐱'}(t) = <Exp rate={cf.s} />[c₁(a cos βt − b sin βt) + c₂(a sin βt + b cos βt)]</>
+            )}
+            {cf.kind === 'defective' && (
+              <>{shifted ? '𝐮' : '𝐱'}(t) = c₁<Exp rate={cf.s} />v + c₂<Exp rate={cf.s} />(t v + w)</>
+            )}
+            {cf.kind === 'scalar' && (
+              <>{shifted ? '𝐮' : '𝐱'}(t) = <Exp rate={cf.s} />c, {t('closed-form.any-c')}</>
+            )}
+          </div>
+          <div className="font-mono text-[10px] text-slate-500">
+            {cf.kind === 'distinct' && <>λ₁ = {fmt(cf.eigenvalues![0])}, v₁ = {vec(cf.vectors![0])}; λ₂ = {fmt(cf.eigenvalues![1])}, v₂ = {vec(cf.vectors![1])}</>}
+            {cf.kind === 'complex' && <>λ = {fmt(cf.s)} ± {fmt(cf.omega)}i, β = {fmt(cf.omega)}, v = a + ib {t('closed-form.with')} a = {vec(cf.vectors![0])}, b = {vec(cf.vectors![1])}</>}
+            {cf.kind === 'defective' && <>λ = {fmt(cf.s)}, v = {vec(cf.vectors![0])}, w = {vec(cf.vectors![1])} {t('closed-form.with')} (A − λI)w = v</>}
+            {cf.kind === 'scalar' && <>λ = {fmt(cf.s)}; {t('closed-form.every-vector')}</>}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-[11px] font-semibold text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={showExact} onChange={(e) => onToggleExact(e.target.checked)} className="accent-amber-500" />
+          {t('closed-form.draw')}
+        </label>
+
+        {rows.length === 0 ? (
+          <p className="text-slate-400 text-[11px]">{t('closed-form.needs-trajectory')}</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {rows.map(({ traj, sol, deviation }) => (
+              <div key={traj.id} className="p-2 rounded border border-slate-100 font-mono text-[10px] text-slate-600 space-y-0.5">
+                <div className="flex items-center justify-between gap-2 font-sans font-bold text-slate-500">
+                  <span className="flex items-center gap-1.5">
+                    <span className="w-2 h-2 rounded-full" style={{ background: traj.color }}></span>
+                    {t('closed-form.from', { x: fmt(traj.initial.x), y: fmt(traj.initial.y) })}
+                  </span>
+                  <span title={t('closed-form.deviation')}>
+                    {t('closed-form.error', { method: traj.method ? INTEGRATORS[traj.method].label : '', value: deviation.toExponential(1) })}
+                  </span>
+                </div>
+                <div>x(t) = <Component cf={cf} sol={sol.x} offset={origin.x} /></div>
+                <div>y(t) = <Component cf={cf} sol={sol.y} offset={origin.y} /></div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ClosedFormPanel;
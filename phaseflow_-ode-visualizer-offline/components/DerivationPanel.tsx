@@ -0,0 +1,83 @@
+
+import React, { useMemo, useState } from 'react';
+import { EquilibriumAnalysis, Matrix2x2 } from '../types';
+import { eigenDerivation } from '../services/derivation';
+import Formula from './Formula';
+import { useI18n } from '../hooks/useI18n';
+
+interface DerivationPanelProps {
+  matrix: Matrix2x2;
+  analysis: EquilibriumAnalysis;
+  discrete: boolean;
+}
+
+/**
+ * How the Eigen-Analysis panel's numbers come about, from the characteristic polynomial
+ * to the classification, with decimals or with exact fractions and surds.
+ */
+const DerivationPanel: React.FC<DerivationPanelProps> = ({ matrix, analysis, discrete }) => {
+  const [open, setOpen] = useState(false);
+  const [exact, setExact] = useState(true);
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const exactSteps = useMemo(
+    () => (open ? eigenDerivation(matrix, analysis, { exact: true, discrete }, i18n) : null),
+    [open, matrix, analysis, discrete, i18n]
+  );
+  const numericSteps = useMemo(
+    () => (open ? eigenDerivation(matrix, analysis, { exact: false, discrete }, i18n) : null),
+    [open, matrix, analysis, discrete, i18n]
+  );
+  // Falls back to decimals when the entries have no exact form
+  const showingExact = exact && exactSteps !== null;
+  const steps = showingExact ? exactSteps : numericSteps;
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full text-sm font-black flex items-center justify-between gap-2 text-slate-400 uppercase tracking-widest"
+      >
+        <span className="flex items-center gap-2"><i className="fa-solid fa-list-ol text-purple-500"></i> {t('derivation.title')}</span>
+        <i className={`fa-solid fa-chevron-${open ? 'up' : 'down'} text-xs`}></i>
+      </button>
+
+      {open && steps && (
+        <div className="mt-4 space-y-4 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex gap-1 p-0.5 bg-slate-100 rounded-md">
+              {([[false, t('derivation.numeric')], [true, t('derivation.exact')]] as [boolean, string][]).map(([value, label]) => (
+                <button
+                  key={label}
+                  onClick={() => setExact(value)}
+                  disabled={value && !exactSteps}
+                  className={`px-3 py-1 rounded text-[10px] font-bold transition-all disabled:opacity-40 ${showingExact === value ? 'bg-white text-purple-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {!exactSteps && (
+              <span className="text-[10px] text-slate-400 leading-snug text-right">{t('derivation.needs-rational')}</span>
+            )}
+          </div>
+
+          <ol className="space-y-3">
+            {steps.map((step, i) => (
+              <li key={i} className="space-y-1">
+                <div className="text-[10px] uppercase font-bold text-slate-400">{i + 1}. {step.title}</div>
+                <div className="font-mono text-[11px] text-slate-700 space-y-1.5">
+                  {step.lines.map((line, j) => <div key={j} className="flex flex-wrap items-center"><Formula node={line} /></div>)}
+                </div>
+                {step.note && <p className="text-[10px] text-slate-500 leading-snug">{step.note}</p>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DerivationPanel;
@@ -0,0 +1,83 @@
+
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { EquilibriumAnalysis } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface EigenvaluePlaneProps {
+  analysis: EquilibriumAnalysis;
+}
+
+const EIGEN_COLORS = ['#f59e0b', '#a855f7'];
+
+/**
+ * The eigenvalues of a map in the complex plane against the unit circle, which plays the
+ * part the imaginary axis plays for flows: inside attracts, outside repels.
+ */
+const EigenvaluePlane: React.FC<EigenvaluePlaneProps> = ({ analysis }) => {
+  const { t, n } = useI18n();
+  const width = 320;
+  const height = 260;
+  const margin = 24;
+
+  // Always show the whole unit circle, and every eigenvalue that isn't absurdly large
+  const extent = Math.min(8, Math.max(1.5, ...analysis.eigenvalues.map(l => 1.15 * Math.max(Math.abs(l.re), Math.abs(l.im)))));
+  const unit = (Math.min(width, height) - 2 * margin) / (2 * extent);
+  const xScale = useMemo(() => d3.scaleLinear().domain([-1, 1]).range([width / 2 - unit, width / 2 + unit]), [unit]);
+  const yScale = useMemo(() => d3.scaleLinear().domain([-1, 1]).range([height / 2 + unit, height / 2 - unit]), [unit]);
+  const clamp = (v: number) => Math.max(-extent, Math.min(extent, v));
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-circle-dot text-sky-500"></i> {t('eigenplane.title')}
+      </h2>
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block mx-auto max-w-full">
+        <circle cx={xScale(0)} cy={yScale(0)} r={unit} fill="#dcfce7" opacity="0.6" />
+        <line x1={margin} y1={yScale(0)} x2={width - margin} y2={yScale(0)} stroke="#94a3b8" strokeWidth="1" />
+        <line x1={xScale(0)} y1={margin} x2={xScale(0)} y2={height - margin} stroke="#94a3b8" strokeWidth="1" />
+        <circle cx={xScale(0)} cy={yScale(0)} r={unit} fill="none" stroke="#0ea5e9" strokeWidth="2" />
+
+        <text x={xScale(0.7)} y={yScale(0.7) - 4} fontSize="9" fontWeight="700" fill="#0284c7">|λ| = 1</text>
+        {[-1, 1].map(v => (
+          <text key={v} x={xScale(v) + (v > 0 ? 4 : -4)} y={yScale(0) + 12} textAnchor={v > 0 ? 'start' : 'end'} fontSize="9" fill="#64748b">{v}</text>
+        ))}
+        <text x={width - margin + 10} y={yScale(0) + 3} fontSize="10" fill="#64748b">Re</text>
+        <text x={xScale(0) - 3} y={margin - 8} textAnchor="end" fontSize="10" fill="#64748b">Im</text>
+
+        {analysis.eigenvalues.map((l, i) => (
+          <g key={i}>
+            <circle
+              cx={xScale(clamp(l.re))}
+              cy={yScale(clamp(l.im))}
+              r="6"
+              fill={EIGEN_COLORS[i]}
+              stroke="white"
+              strokeWidth="2"
+            />
+            <text
+              x={xScale(clamp(l.re)) + 9}
+              y={yScale(clamp(l.im)) + (i === 0 ? -6 : 12)}
+              fontSize="10"
+              fontWeight="700"
+              fill="#475569"
+            >
+              λ{i + 1}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <div className="mt-2 flex justify-between font-mono text-[10px] text-slate-500">
+        {analysis.eigenvalues.map((l, i) => <span key={i}>|λ{i + 1}| = {n(Math.hypot(l.re, l.im), 3)}</span>)}
+        {analysis.rotation && (
+          <span>arg λ = {n(Math.abs(Math.atan2(analysis.eigenvalues[0].im, analysis.eigenvalues[0].re)) * 180 / Math.PI, 1)}°</span>
+        )}
+      </div>
+      <p className="mt-2 text-[10px] text-slate-400 leading-snug">
+        {t('eigenplane.hint')}
+      </p>
+    </section>
+  );
+};
+
+export default EigenvaluePlane;
@@ -0,0 +1,90 @@
+
+import React, { useState } from 'react';
+import {
+  ExportMetadata, TikzScene, downloadFile, portraitToTikz, serializeSvg, svgToPng, trajectoriesToCsv, trajectoriesToJson
+} from '../services/exporters';
+import { useI18n } from '../hooks/useI18n';
+
+interface ExportMenuProps {
+  svgRef: React.RefObject<SVGSVGElement | null>;
+  width: number;
+  height: number;
+  scene: TikzScene;
+  // Built on demand so the timestamp is that of the export
+  metadata: () => ExportMetadata;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ svgRef, width, height, scene, metadata }) => {
+  const [pngScale, setPngScale] = useState(2);
+  const { t } = useI18n();
+  // The technical reason, shown on hover under a translated summary
+  const [error, setError] = useState<string | null>(null);
+  const hasTrajectories = scene.trajectories.length > 0;
+
+  const exportSvg = () => {
+    if (!svgRef.current) return;
+    downloadFile(serializeSvg(svgRef.current, metadata()), 'phase-portrait.svg', 'image/svg+xml');
+  };
+
+  const exportPng = async () => {
+    if (!svgRef.current) return;
+    setError(null);
+    const meta = metadata();
+    try {
+      const png = await svgToPng(serializeSvg(svgRef.current, meta), width, height, pngScale, meta);
+      downloadFile(png, 'phase-portrait.png');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const items = [
+    { label: 'SVG', icon: 'fa-bezier-curve', hint: t('export.svg'), action: exportSvg, enabled: true },
+    { label: 'PNG', icon: 'fa-image', hint: `${Math.round(width * pngScale)} × ${Math.round(height * pngScale)} px`, action: exportPng, enabled: true },
+    {
+      label: 'TikZ', icon: 'fa-file-code', hint: t('export.tikz'), enabled: true,
+      action: () => downloadFile(portraitToTikz(scene, metadata()), 'phase-portrait.tex', 'text/x-tex')
+    },
+    {
+      label: 'CSV', icon: 'fa-table', hint: t('export.csv'), enabled: hasTrajectories,
+      action: () => downloadFile(trajectoriesToCsv(scene.trajectories, metadata()), 'trajectories.csv', 'text/csv')
+    },
+    {
+      label: 'JSON', icon: 'fa-code', hint: t('export.json'), enabled: hasTrajectories,
+      action: () => downloadFile(trajectoriesToJson(scene.trajectories, metadata()), 'trajectories.json', 'application/json')
+    }
+  ];
+
+  return (
+    <div className="w-56 bg-white/95 border border-slate-200 rounded-lg p-2 shadow-sm space-y-1">
+      {items.map(item => (
+        <button
+          key={item.label}
+          onClick={item.action}
+          disabled={!item.enabled}
+          className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent transition-all"
+        >
+          <i className={`fa-solid ${item.icon} w-4 text-center text-xs text-slate-400`}></i>
+          <span className="text-xs font-bold text-slate-700">{item.label}</span>
+          <span className="ml-auto text-[9px] text-slate-400 truncate">{item.hint}</span>
+        </button>
+      ))}
+      <label className="flex items-center justify-between gap-2 px-2 pt-1 border-t border-slate-100 text-[10px] font-bold uppercase text-slate-400">
+        {t('export.png-scale')}
+        <select
+          value={pngScale}
+          onChange={(e) => setPngScale(parseInt(e.target.value, 10))}
+          className="px-1.5 py-0.5 bg-white border border-slate-200 rounded font-mono text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        >
+          {PNG_SCALES.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </label>
+      {error && <div className="px-2 text-[10px] font-semibold text-rose-500" title={error}>{t('export.png-failed')}</div>}
+      {!hasTrajectories && <div className="px-2 text-[10px] text-slate-400">{t('export.needs-trajectory')}</div>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,98 @@
+
+import React from 'react';
+import { SeedingMode } from '../services/particles';
+import { useI18n } from '../hooks/useI18n';
+
+export interface FlowSettings {
+  playing: boolean;
+  speed: number;
+  count: number;
+  seeding: SeedingMode;
+}
+
+interface FlowControlsProps {
+  settings: FlowSettings;
+  onChange: (settings: FlowSettings) => void;
+  onStep: () => void;
+  onReseed: () => void;
+  // Arms the portrait so that the next drag draws the seeding blob
+  onDrawBlob: () => void;
+  drawingBlob: boolean;
+  hasBlob: boolean;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+const COUNTS = [100, 300, 600, 1200];
+
+const FlowControls: React.FC<FlowControlsProps> = ({
+  settings, onChange, onStep, onReseed, onDrawBlob, drawingBlob, hasBlob
+}) => {
+  const { t, n } = useI18n();
+  const update = (patch: Partial<FlowSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="w-56 bg-white/95 border border-slate-200 rounded-lg p-2 shadow-sm space-y-2 text-[10px]">
+      <div className="flex gap-1">
+        {[
+          { icon: settings.playing ? 'fa-pause' : 'fa-play', title: t(settings.playing ? 'flow.pause' : 'flow.play'), action: () => update({ playing: !settings.playing }) },
+          { icon: 'fa-forward-step', title: t('flow.step'), action: onStep, disabled: settings.playing },
+          { icon: 'fa-arrows-rotate', title: t('flow.reseed'), action: onReseed }
+        ].map(b => (
+          <button
+            key={b.title}
+            title={b.title}
+            onClick={b.action}
+            disabled={b.disabled}
+            className="flex-1 h-7 rounded-md bg-slate-100 text-slate-600 hover:bg-slate-200 hover:text-blue-600 disabled:opacity-40 transition-all text-xs"
+          >
+            <i className={`fa-solid ${b.icon}`}></i>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="block uppercase font-bold text-slate-400">{t('flow.speed')}</span>
+          <select
+            value={settings.speed}
+            onChange={(e) => update({ speed: parseFloat(e.target.value) })}
+            className="w-full px-1.5 py-1 bg-white border border-slate-200 rounded font-mono font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          >
+            {SPEEDS.map(s => <option key={s} value={s}>{n(s)}×</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block uppercase font-bold text-slate-400">{t('flow.particles')}</span>
+          <select
+            value={settings.count}
+            onChange={(e) => update({ count: parseInt(e.target.value, 10) })}
+            className="w-full px-1.5 py-1 bg-white border border-slate-200 rounded font-mono font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          >
+            {COUNTS.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex gap-1 p-0.5 bg-slate-100 rounded-md">
+        {([['uniform', t('flow.whole-view')], ['blob', t('flow.blob')]] as const).map(([mode, label]) => (
+          <button
+            key={mode}
+            onClick={() => (mode === 'blob' ? onDrawBlob() : update({ seeding: mode }))}
+            className={`flex-1 py-1 rounded font-bold uppercase tracking-wider transition-all ${settings.seeding === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-slate-400 leading-snug">
+        {drawingBlob
+          ? t('flow.drawing')
+          : settings.seeding === 'blob' && hasBlob
+            ? t('flow.in-blob')
+            : t('flow.uniform')}
+      </p>
+    </div>
+  );
+};
+
+export default FlowControls;
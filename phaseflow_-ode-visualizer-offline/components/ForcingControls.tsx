@@ -0,0 +1,97 @@
+
+import React from 'react';
+import { ForcingInputs } from '../types';
+import { Message } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ForcingControlsProps {
+  inputs: ForcingInputs;
+  errors: Record<keyof ForcingInputs, Message | null>;
+  onChange: (inputs: ForcingInputs) => void;
+  // Snapshot time of the direction field, only shown when g(t) is present
+  timeDependent: boolean;
+  fieldTime: number;
+  onFieldTimeChange: (t: number) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-white border rounded-lg focus:ring-2 focus:outline-none transition-all text-xs font-bold text-slate-800 shadow-inner font-mono';
+
+const ForcingControls: React.FC<ForcingControlsProps> = ({
+  inputs, errors, onChange, timeDependent, fieldTime, onFieldTimeChange
+}) => {
+  const { t, n } = useI18n();
+  const update = (key: keyof ForcingInputs, val: string) => onChange({ ...inputs, [key]: val });
+  const firstError = errors.bx ?? errors.by ?? errors.gx ?? errors.gy;
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 mb-6 space-y-3">
+      <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('forcing.title')}: y' = Ay + b + g(t)</div>
+
+      <div className="grid grid-cols-[1.5rem_1fr_1fr] items-center gap-2">
+        <span className="text-xs text-slate-400 font-bold font-mono">b</span>
+        {(['bx', 'by'] as const).map(k => {
+          const error = errors[k];
+          return (
+            <input
+              key={k}
+              type="text"
+              value={inputs[k]}
+              onChange={(e) => update(k, e.target.value)}
+              placeholder="0"
+              spellCheck={false}
+              title={error ? t(error) : undefined}
+              className={`${inputClass} ${error ? 'border-rose-300 focus:ring-rose-400' : 'border-slate-200 focus:ring-blue-500'}`}
+            />
+          );
+        })}
+
+        <span className="text-xs text-slate-400 font-bold font-mono">g</span>
+        {(['gx', 'gy'] as const).map(k => {
+          const error = errors[k];
+          return (
+            <input
+              key={k}
+              type="text"
+              value={inputs[k]}
+              onChange={(e) => update(k, e.target.value)}
+              placeholder="0"
+              spellCheck={false}
+              title={error ? t(error) : undefined}
+              className={`${inputClass} ${error ? 'border-rose-300 focus:ring-rose-400' : 'border-slate-200 focus:ring-blue-500'}`}
+            />
+          );
+        })}
+      </div>
+
+      {firstError && (
+        <div className="text-[10px] font-semibold text-rose-500">
+          <i className="fa-solid fa-circle-exclamation mr-1"></i>{t(firstError)}
+        </div>
+      )}
+
+      {timeDependent && (
+        <label className="block space-y-1">
+          <span className="flex justify-between text-[10px] uppercase font-bold text-slate-400">
+            <span>{t('field-time')}</span>
+            <span className="font-mono text-slate-600">{n(fieldTime, 2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={4 * Math.PI}
+            step={0.01}
+            value={fieldTime}
+            onChange={(e) => onFieldTimeChange(parseFloat(e.target.value))}
+            className="w-full accent-blue-500"
+          />
+        </label>
+      )}
+
+      <p className="text-[10px] text-slate-400 leading-snug">
+        {t('forcing.hint')}
+      </p>
+    </div>
+  );
+};
+
+export default ForcingControls;
@@ -0,0 +1,36 @@
+
+import React from 'react';
+import { MathNode } from '../services/derivation';
+
+/**
+ * Typesets a `MathNode` with plain inline boxes, so formulas render without a math
+ * library or network access.
+ */
+const Formula: React.FC<{ node: MathNode }> = ({ node }) => {
+  if (typeof node === 'string') return <span className="whitespace-pre">{node}</span>;
+  if (Array.isArray(node)) return <>{node.map((child, i) => <Formula key={i} node={child} />)}</>;
+  if ('frac' in node) {
+    return (
+      <span className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.9em] leading-tight">
+        <span className="px-0.5 border-b border-current"><Formula node={node.frac[0]} /></span>
+        <span className="px-0.5"><Formula node={node.frac[1]} /></span>
+      </span>
+    );
+  }
+  if ('sqrt' in node) {
+    return (
+      <span className="inline-flex items-baseline">
+        √<span className="border-t border-current pl-0.5"><Formula node={node.sqrt} /></span>
+      </span>
+    );
+  }
+  return (
+    <span className="inline-grid align-middle mx-0.5 px-1 gap-x-2 border-x-2 border-current rounded-sm" style={{ gridTemplateColumns: `repeat(${node.matrix[0].length}, auto)` }}>
+      {node.matrix.flatMap((row, i) => row.map((cell, j) => (
+        <span key={`${i}-${j}`} className="text-center py-0.5"><Formula node={cell} /></span>
+      )))}
+    </span>
+  );
+};
+
+export default Formula;
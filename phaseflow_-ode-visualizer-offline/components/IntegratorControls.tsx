@@ -0,0 +1,84 @@
+
+import React from 'react';
+import { IntegratorMethod, IntegratorSettings } from '../types';
+import { INTEGRATORS } from '../services/integrators';
+import { useI18n } from '../hooks/useI18n';
+
+interface IntegratorControlsProps {
+  settings: IntegratorSettings;
+  onChange: (settings: IntegratorSettings) => void;
+}
+
+const METHODS = Object.keys(INTEGRATORS) as IntegratorMethod[];
+const STEP_SIZES = [0.005, 0.01, 0.03, 0.05, 0.1, 0.2, 0.5];
+const TOLERANCES = [1e-3, 1e-4, 1e-6, 1e-8, 1e-10];
+
+const IntegratorControls: React.FC<IntegratorControlsProps> = ({ settings, onChange }) => {
+  const { t, n } = useI18n();
+  const update = (patch: Partial<IntegratorSettings>) => {
+    const next = { ...settings, ...patch };
+    if (next.compareWith === next.method) next.compareWith = null;
+    onChange(next);
+  };
+  const adaptive = INTEGRATORS[settings.method].adaptive;
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-gears text-emerald-500"></i> {t('integrator.title')}
+      </h2>
+
+      <div className="grid grid-cols-4 gap-1 p-1 bg-slate-100 rounded-lg mb-4">
+        {METHODS.map(m => (
+          <button
+            key={m}
+            onClick={() => update({ method: m })}
+            title={t('integrator.method', { label: INTEGRATORS[m].label, order: INTEGRATORS[m].order })}
+            className={`py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${settings.method === m ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            {m}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <label className="space-y-1">
+          <span className="block text-[10px] uppercase font-bold text-slate-400">{t(adaptive ? 'integrator.initial-step' : 'integrator.step-size')} (Δt)</span>
+          <select
+            value={settings.dt}
+            onChange={(e) => update({ dt: parseFloat(e.target.value) })}
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono font-bold text-slate-700 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          >
+            {STEP_SIZES.map(h => <option key={h} value={h}>{n(h)}</option>)}
+          </select>
+        </label>
+        <label className={`space-y-1 ${adaptive ? '' : 'opacity-40'}`}>
+          <span className="block text-[10px] uppercase font-bold text-slate-400">{t('integrator.tolerance')}</span>
+          <select
+            value={settings.tolerance}
+            disabled={!adaptive}
+            onChange={(e) => update({ tolerance: parseFloat(e.target.value) })}
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono font-bold text-slate-700 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          >
+            {TOLERANCES.map(tol => <option key={tol} value={tol}>{tol.toExponential(0)}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1 col-span-2">
+          <span className="block text-[10px] uppercase font-bold text-slate-400">{t('integrator.compare')}</span>
+          <select
+            value={settings.compareWith ?? ''}
+            onChange={(e) => update({ compareWith: (e.target.value || null) as IntegratorMethod | null })}
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-slate-700 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          >
+            <option value="">{t('integrator.none')}</option>
+            {METHODS.filter(m => m !== settings.method).map(m => (
+              <option key={m} value={m}>{t('integrator.dashed', { label: INTEGRATORS[m].label })}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </section>
+  );
+};
+
+export default IntegratorControls;
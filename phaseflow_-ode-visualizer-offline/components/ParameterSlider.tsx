@@ -0,0 +1,140 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisState, ClassificationChange, stateLabel } from '../services/parameter';
+import { useI18n } from '../hooks/useI18n';
+
+interface ParameterSliderProps {
+  alpha: number;
+  range: { min: number; max: number };
+  changes: ClassificationChange[];
+  // Current classification · stability at α
+  state: AnalysisState;
+  onAlphaChange: (alpha: number) => void;
+  onRangeChange: (range: { min: number; max: number }) => void;
+}
+
+// Seconds for one sweep across the whole range
+const SWEEP_SECONDS = 8;
+const SLIDER_STEPS = 400;
+
+const ParameterSlider: React.FC<ParameterSliderProps> = ({ alpha, range, changes, state, onAlphaChange, onRangeChange }) => {
+  const { t, n } = useI18n();
+  const [playing, setPlaying] = useState(false);
+  const direction = useRef(1);
+  // The animation loop reads the latest α and callback without restarting
+  const alphaRef = useRef(alpha);
+  const onChangeRef = useRef(onAlphaChange);
+  alphaRef.current = alpha;
+  onChangeRef.current = onAlphaChange;
+
+  const { min, max } = range;
+  const span = max - min;
+
+  // Typed range bounds; only valid ones are passed up
+  const [rangeInputs, setRangeInputs] = useState({ min: String(min), max: String(max) });
+  useEffect(() => {
+    setRangeInputs(prev => (
+      parseFloat(prev.min) === min && parseFloat(prev.max) === max ? prev : { min: String(min), max: String(max) }
+    ));
+  }, [min, max]);
+
+  useEffect(() => {
+    if (!playing || !(span > 0)) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = Math.min((now - last) / 1000, 0.1);
+      last = now;
+      let next = alphaRef.current + (direction.current * span * elapsed) / SWEEP_SECONDS;
+      // Bounce at the ends of the range
+      if (next >= max) { next = max; direction.current = -1; }
+      if (next <= min) { next = min; direction.current = 1; }
+      onChangeRef.current(next);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, min, max, span]);
+
+  const percent = (v: number) => (span > 0 ? ((v - min) / span) * 100 : 0);
+  // A change counts as "just crossed" while α is within a couple of slider steps of it
+  const nearby = (c: ClassificationChange) => Math.abs(c.alpha - alpha) < (2 * span) / SLIDER_STEPS;
+
+  const updateRange = (key: 'min' | 'max', val: string) => {
+    setRangeInputs(prev => ({ ...prev, [key]: val }));
+    const v = parseFloat(val);
+    if (isNaN(v)) return;
+    const next = { ...range, [key]: v };
+    if (next.max <= next.min) return;
+    onRangeChange(next);
+    if (alpha < next.min || alpha > next.max) onAlphaChange(Math.min(Math.max(alpha, next.min), next.max));
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 mb-6 space-y-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setPlaying(p => !p)}
+          title={t(playing ? 'parameter.pause' : 'parameter.animate')}
+          className="w-8 h-8 shrink-0 rounded-full bg-blue-600 hover:bg-blue-700 text-white text-xs shadow-sm transition-all active:scale-95"
+        >
+          <i className={`fa-solid ${playing ? 'fa-pause' : 'fa-play'}`}></i>
+        </button>
+        <div className="flex-1">
+          <div className="flex justify-between text-[10px] uppercase font-bold text-slate-400">
+            <span>{t('parameter.title')}</span>
+            <span className="font-mono text-slate-700 normal-case">α = {n(alpha, 3)}</span>
+          </div>
+          <div className="relative h-6">
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={span / SLIDER_STEPS}
+              value={alpha}
+              onChange={(e) => onAlphaChange(parseFloat(e.target.value))}
+              className="absolute inset-x-0 top-1/2 -translate-y-1/2 w-full accent-blue-600"
+            />
+            {changes.map(c => (
+              <button
+                key={c.alpha}
+                onClick={() => { setPlaying(false); onAlphaChange(c.alpha); }}
+                title={`α ≈ ${n(c.alpha, 3)}: ${stateLabel(c.from, t)} → ${c.at ? `${stateLabel(c.at, t)} → ` : ''}${stateLabel(c.to, t)}`}
+                style={{ left: `${percent(c.alpha)}%` }}
+                className={`absolute top-0 -translate-x-1/2 w-1.5 h-2 rounded-sm transition-colors ${nearby(c) ? 'bg-amber-500 scale-150' : 'bg-rose-400 hover:bg-rose-600'}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-[10px] font-mono">
+        {(['min', 'max'] as const).map(k => (
+          <label key={k} className="flex items-center gap-1 text-slate-400 font-bold uppercase">
+            {k}
+            <input
+              type="number"
+              value={rangeInputs[k]}
+              step="any"
+              onChange={(e) => updateRange(k, e.target.value)}
+              className="w-16 px-1.5 py-0.5 bg-white border border-slate-200 rounded font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="text-[10px] leading-snug">
+        <div className="font-bold text-slate-700">{stateLabel(state, t)}</div>
+        {changes.length > 0 ? (
+          <div className="text-slate-400 mt-1">
+            {t('parameter.changes', { values: changes.map(c => n(c.alpha, 2)).join(t('format.separator')) })}
+          </div>
+        ) : (
+          <div className="text-slate-400 mt-1">{t('parameter.no-changes')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParameterSlider;
@@ -1,35 +1,261 @@
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { Matrix2x2, Point, Trajectory, EquilibriumAnalysis } from '../types';
+import { Point, Trajectory, EquilibriumAnalysis, VectorField, FieldSpec, Equilibrium, Rotation, Bounds, AffineEquilibrium, PortraitLayers } from '../types';
+import { INTEGRATORS } from '../services/integrators';
+import { pointAtTime } from '../services/odeSolver';
+import { ExportMetadata, buildMetadata } from '../services/exporters';
+import { isFilledEquilibrium } from '../services/equilibria';
+import { SignPattern, SIGN_PATTERNS, signRegions, zeroContour } from '../services/nullclines';
+import { useElementWidth } from '../hooks/useElementWidth';
+import { useParticleFlow } from '../hooks/useParticleFlow';
+import { useFieldGrid } from '../hooks/useFieldGrid';
+import { useI18n } from '../hooks/useI18n';
+import ExportMenu from './ExportMenu';
+import FlowControls, { FlowSettings } from './FlowControls';
 
 interface PhasePortraitProps {
-  matrix: Matrix2x2;
+  field: VectorField;
   trajectories: Trajectory[];
-  analysis: EquilibriumAnalysis;
+  // Only available for autonomous linear systems, where the eigenlines through the equilibrium are global invariants
+  analysis: EquilibriumAnalysis | null;
+  // Equilibrium set of y' = Ay + b; the eigen decorations are drawn through its point
+  affineEquilibrium?: AffineEquilibrium | null;
+  // The same field as data; when given, the direction field and nullclines are sampled in the background engine
+  fieldSpec?: FieldSpec;
+  // Time at which a non-autonomous field is sampled for the direction field
+  fieldTime?: number;
+  // Equilibria of a nonlinear field, each with its linearization
+  equilibria?: Equilibrium[];
+  // Closed-form solutions drawn over the numerical trajectories for comparison
+  exactPaths?: { id: string; points: Point[] }[];
+  viewport: Bounds;
+  // Overlays, controlled when given so they can be saved with a session
+  layers?: PortraitLayers;
+  onLayersChange?: (layers: PortraitLayers) => void;
+  // Trajectories are orbits of a map x_{n+1} = Ax_n: drawn as iterates, with no direction field or flow
+  discrete?: boolean;
+  // Hides the direction field and everything derived from it, e.g. while a student sketches
+  hideField?: boolean;
+  // Names of the two state variables, e.g. y and y' for a second-order equation
+  axisLabels?: [string, string];
+  // Equations and matrix recorded in exported files
+  exportInfo?: Pick<ExportMetadata, 'equations' | 'matrix'>;
+  // Shared time cursor with the time-series plots
+  hoverTime?: number | null;
+  onHoverTime?: (t: number | null) => void;
+  onViewportChange: (viewport: Bounds) => void;
   onAddTrajectory: (point: Point) => void;
+  // Initial points can be dragged when given; comparison trajectories follow their parent
+  onMoveInitial?: (id: string, point: Point) => void;
 }
 
-const PhasePortrait: React.FC<PhasePortraitProps> = ({ matrix, trajectories, analysis, onAddTrajectory }) => {
-  const width = 600;
-  const height = 600;
+export const DEFAULT_VIEWPORT: Bounds = { xMin: -5, xMax: 5, yMin: -5, yMax: 5 };
+
+export const NO_LAYERS: PortraitLayers = { xNullcline: false, yNullcline: false, shading: false };
+
+const XY_LABELS: [string, string] = ['x', 'y'];
+
+// Pointer travel (px) below which a press counts as a click rather than a pan
+const DRAG_THRESHOLD = 3;
+
+/**
+ * Tight bounds around every trajectory and marker, padded by 10%, for "fit to trajectories".
+ */
+const fitBounds = (paths: Point[][]): Bounds | null => {
+  const all = paths.flat();
+  if (all.length === 0) return null;
+  let xMin = d3.min(all, p => p.x)!;
+  let xMax = d3.max(all, p => p.x)!;
+  let yMin = d3.min(all, p => p.y)!;
+  let yMax = d3.max(all, p => p.y)!;
+  const padX = Math.max((xMax - xMin) * 0.1, 0.25);
+  const padY = Math.max((yMax - yMin) * 0.1, 0.25);
+  xMin -= padX; xMax += padX; yMin -= padY; yMax += padY;
+  return { xMin, xMax, yMin, yMax };
+};
+
+const ViewportInputs: React.FC<{ viewport: Bounds; labels: [string, string]; onChange: (b: Bounds) => void }> = ({ viewport, labels, onChange }) => {
+  const [draft, setDraft] = useState<Record<keyof Bounds, string>>({
+    xMin: viewport.xMin.toFixed(2), xMax: viewport.xMax.toFixed(2),
+    yMin: viewport.yMin.toFixed(2), yMax: viewport.yMax.toFixed(2)
+  });
+
+  useEffect(() => {
+    setDraft({
+      xMin: viewport.xMin.toFixed(2), xMax: viewport.xMax.toFixed(2),
+      yMin: viewport.yMin.toFixed(2), yMax: viewport.yMax.toFixed(2)
+    });
+  }, [viewport]);
+
+  const commit = () => {
+    const next = {
+      xMin: parseFloat(draft.xMin), xMax: parseFloat(draft.xMax),
+      yMin: parseFloat(draft.yMin), yMax: parseFloat(draft.yMax)
+    };
+    const valid = Object.values(next).every(Number.isFinite) && next.xMin < next.xMax && next.yMin < next.yMax;
+    if (valid) onChange(next);
+    else setDraft({
+      xMin: viewport.xMin.toFixed(2), xMax: viewport.xMax.toFixed(2),
+      yMin: viewport.yMin.toFixed(2), yMax: viewport.yMax.toFixed(2)
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-[auto_1fr_auto_1fr] items-center gap-1.5 text-[10px] font-bold text-slate-400">
+      {([[labels[0], 'xMin', 'xMax'], [labels[1], 'yMin', 'yMax']] as const).map(([axis, lo, hi]) => (
+        <React.Fragment key={lo}>
+          <span>{axis} ∈ [</span>
+          <input
+            value={draft[lo]}
+            onChange={(e) => setDraft(d => ({ ...d, [lo]: e.target.value }))}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            className="w-14 px-1.5 py-1 border border-slate-200 rounded font-mono text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <span>,</span>
+          <span className="flex items-center gap-1">
+            <input
+              value={draft[hi]}
+              onChange={(e) => setDraft(d => ({ ...d, [hi]: e.target.value }))}
+              onBlur={commit}
+              onKeyDown={(e) => e.key === 'Enter' && commit()}
+              className="w-14 px-1.5 py-1 border border-slate-200 rounded font-mono text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+            ]
+          </span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+const RE_COLOR = '#0d9488';
+const IM_COLOR = '#db2777';
+
+const X_NULLCLINE_COLOR = '#ea580c';
+const Y_NULLCLINE_COLOR = '#16a34a';
+
+// Tint of each region by the signs of (x', y')
+const SIGN_COLORS: Record<SignPattern, string> = {
+  '++': '#fde68a',
+  '+-': '#bfdbfe',
+  '-+': '#bbf7d0',
+  '--': '#fbcfe8'
+};
+
+// A 270° arc with an arrowhead showing the sense of rotation around a spiral or center
+const RotationArc: React.FC<{ cx: number; cy: number; rotation: Rotation; r?: number }> = ({ cx, cy, rotation, r = 16 }) => {
+  const ccw = rotation === 'counterclockwise';
+  const start = ((ccw ? 20 : 160) * Math.PI) / 180;
+  const end = start + ((ccw ? 270 : -270) * Math.PI) / 180;
+  // Math angles, with the screen y axis pointing down
+  const at = (phi: number) => ({ x: cx + r * Math.cos(phi), y: cy - r * Math.sin(phi) });
+  const p0 = at(start);
+  const p1 = at(end);
+  const tangent = ccw
+    ? Math.atan2(-Math.cos(end), -Math.sin(end))
+    : Math.atan2(Math.cos(end), Math.sin(end));
+  return (
+    <g className="rotation-arc" pointerEvents="none">
+      <path
+        d={`M ${p0.x} ${p0.y} A ${r} ${r} 0 1 ${ccw ? 0 : 1} ${p1.x} ${p1.y}`}
+        fill="none"
+        stroke="#334155"
+        strokeWidth="1.5"
+        opacity="0.7"
+      />
+      <path
+        d="M -4 -3.5 L 4 0 L -4 3.5 Z"
+        transform={`translate(${p1.x}, ${p1.y}) rotate(${(tangent * 180) / Math.PI})`}
+        fill="#334155"
+        opacity="0.7"
+      />
+    </g>
+  );
+};
+
+const PhasePortrait: React.FC<PhasePortraitProps> = ({
+  field, fieldSpec, trajectories, analysis, affineEquilibrium = null, fieldTime = 0, equilibria = [], exactPaths = [], viewport, layers: layersProp, onLayersChange, discrete = false, hideField = false, axisLabels = XY_LABELS, exportInfo = { equations: [], matrix: null }, hoverTime = null, onHoverTime, onViewportChange, onAddTrajectory, onMoveInitial
+}) => {
+  const { t, n } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const width = useElementWidth(containerRef, 600, 320);
+  const height = Math.max(320, Math.min(width, 700));
   const margin = 40;
-  const range = 5;
+  const [showRangeInputs, setShowRangeInputs] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showLayers, setShowLayers] = useState(false);
+  const [ownLayers, setOwnLayers] = useState<PortraitLayers>(NO_LAYERS);
+  const layers = layersProp ?? ownLayers;
+  const setLayers = onLayersChange ?? setOwnLayers;
 
-  const xScale = useMemo(() => d3.scaleLinear().domain([-range, range]).range([margin, width - margin]), [range]);
-  const yScale = useMemo(() => d3.scaleLinear().domain([-range, range]).range([height - margin, margin]), [range]);
+  // Particle flow, drawn on a canvas beneath the SVG
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showFlow, setShowFlow] = useState(false);
+  const [flow, setFlow] = useState<FlowSettings>({ playing: true, speed: 1, count: 300, seeding: 'uniform' });
+  const [blob, setBlob] = useState<Point[] | null>(null);
+  // Outline being drawn, in data coordinates; null unless blob drawing is armed
+  const [lasso, setLasso] = useState<Point[] | null>(null);
+  const [drawingBlob, setDrawingBlob] = useState(false);
+  const [seedKey, setSeedKey] = useState(0);
+  // Whether consecutive iterates of a map are joined by arrows
+  const [orbitArrows, setOrbitArrows] = useState(true);
+  const clipId = `plot-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+
+  const xScale = useMemo(
+    () => d3.scaleLinear().domain([viewport.xMin, viewport.xMax]).range([margin, width - margin]),
+    [viewport, width]
+  );
+  const yScale = useMemo(
+    () => d3.scaleLinear().domain([viewport.yMin, viewport.yMax]).range([height - margin, margin]),
+    [viewport, height]
+  );
+
+  // Half of the larger side, in data units: sets the size of markers drawn in data space
+  const span = Math.max(viewport.xMax - viewport.xMin, viewport.yMax - viewport.yMin) / 2;
+  // Eigen decorations of a linear system are centred on its equilibrium (the origin unless y' = Ay + b)
+  const center: Point = affineEquilibrium && (affineEquilibrium.kind === 'point' || affineEquilibrium.kind === 'line')
+    ? affineEquilibrium.point
+    : { x: 0, y: 0 };
+  // Distance from the center to the farthest corner, so lines through it cross the whole view
+  const reach = Math.max(
+    ...[[viewport.xMin, viewport.yMin], [viewport.xMin, viewport.yMax], [viewport.xMax, viewport.yMin], [viewport.xMax, viewport.yMax]]
+      .map(([x, y]) => Math.hypot(x - center.x, y - center.y))
+  );
+
+  // A map has no direction field, and nullclines and particles belong to the flow
+  const fieldShown = !discrete && !hideField;
+  useEffect(() => {
+    if (fieldShown) return;
+    setShowFlow(false);
+    setShowLayers(false);
+    if (layers.xNullcline || layers.yNullcline || layers.shading) setLayers(NO_LAYERS);
+  }, [fieldShown]);
+
+  // Roughly one arrow every 38px, whatever the zoom level
+  const arrowGrid = useFieldGrid(
+    field, fieldSpec, viewport,
+    Math.max(6, Math.round((width - 2 * margin) / 38)),
+    Math.max(6, Math.round((height - 2 * margin) / 38)),
+    fieldTime, fieldShown
+  );
 
   const gridPoints = useMemo(() => {
     const points: { x: number; y: number; dx: number; dy: number; angle: number; length: number }[] = [];
-    const steps = 15;
-    const stepSize = (2 * range) / steps;
+    if (!arrowGrid) return points;
+    const { bounds, nx, ny, fx, fy } = arrowGrid;
+    const stepX = (bounds.xMax - bounds.xMin) / nx;
+    const stepY = (bounds.yMax - bounds.yMin) / ny;
     
-    for (let i = 0; i <= steps; i++) {
-      for (let j = 0; j <= steps; j++) {
-        const x = -range + i * stepSize;
-        const y = -range + j * stepSize;
-        const dx = matrix.a * x + matrix.b * y;
-        const dy = matrix.c * x + matrix.d * y;
+    for (let i = 0; i <= nx; i++) {
+      for (let j = 0; j <= ny; j++) {
+        const x = bounds.xMin + i * stepX;
+        const y = bounds.yMin + j * stepY;
+        const dx = fx[j * (nx + 1) + i];
+        const dy = fy[j * (nx + 1) + i];
+        if (!Number.isFinite(dx) || !Number.isFinite(dy)) continue;
         const mag = Math.sqrt(dx * dx + dy * dy);
         points.push({
           x, y,
@@ -41,13 +267,196 @@ const PhasePortrait: React.FC<PhasePortraitProps> = ({ matrix, trajectories, ana
       }
     }
     return points;
-  }, [matrix, range]);
+  }, [arrowGrid]);
+
+  const stepFlow = useParticleFlow(canvasRef, {
+    field, fieldTime, viewport, xScale, yScale, width, height, margin,
+    active: showFlow,
+    playing: flow.playing,
+    speed: flow.speed,
+    count: flow.count,
+    blob: flow.seeding === 'blob' ? blob : null,
+    seedKey
+  });
+
+  // A finer sampling of the same field for nullclines and sign regions, one node every ~6px
+  const fieldGrid = useFieldGrid(
+    field, fieldSpec, viewport,
+    Math.max(20, Math.round((width - 2 * margin) / 6)),
+    Math.max(20, Math.round((height - 2 * margin) / 6)),
+    fieldTime, layers.xNullcline || layers.yNullcline || layers.shading
+  );
+
+  const nullclinePaths = useMemo(() => {
+    if (!fieldGrid) return { x: '', y: '' };
+    const toPath = (segments: [Point, Point][]) =>
+      segments.map(([a, b]) => `M${xScale(a.x)},${yScale(a.y)}L${xScale(b.x)},${yScale(b.y)}`).join('');
+    return {
+      x: layers.xNullcline ? toPath(zeroContour(fieldGrid, 'x')) : '',
+      y: layers.yNullcline ? toPath(zeroContour(fieldGrid, 'y')) : ''
+    };
+  }, [fieldGrid, layers, xScale, yScale]);
+
+  const shadingPaths = useMemo(() => {
+    if (!fieldGrid || !layers.shading) return null;
+    const regions = signRegions(fieldGrid);
+    return SIGN_PATTERNS.map(pattern => ({
+      pattern,
+      d: regions[pattern].map(r => {
+        const x = xScale(r.xMin);
+        const y = yScale(r.yMax);
+        return `M${x},${y}h${xScale(r.xMax) - x}v${yScale(r.yMin) - y}h${x - xScale(r.xMax)}Z`;
+      }).join('')
+    }));
+  }, [fieldGrid, layers.shading, xScale, yScale]);
+
+  // Compass arrows on a coarse lattice, pointing into the quadrant given by the signs of (x', y')
+  const compass = useMemo(() => {
+    if (!layers.shading) return [];
+    const marks: { sx: number; sy: number; pattern: SignPattern }[] = [];
+    const spacing = 72;
+    for (let sx = margin + spacing / 2; sx < width - margin; sx += spacing) {
+      for (let sy = margin + spacing / 2; sy < height - margin; sy += spacing) {
+        const v = field({ x: xScale.invert(sx), y: yScale.invert(sy) }, fieldTime);
+        const mag = Math.hypot(v.x, v.y);
+        // Too close to a nullcline for the sign to be meaningful at this size
+        if (!Number.isFinite(mag) || Math.abs(v.x) < 1e-3 * mag || Math.abs(v.y) < 1e-3 * mag) continue;
+        marks.push({ sx, sy, pattern: `${v.x > 0 ? '+' : '-'}${v.y > 0 ? '+' : '-'}` as SignPattern });
+      }
+    }
+    return marks;
+  }, [layers.shading, field, fieldTime, xScale, yScale, width, height]);
 
-  const handleSvgClick = (e: React.MouseEvent<SVGSVGElement>) => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = xScale.invert(e.clientX - rect.left);
-    const y = yScale.invert(e.clientY - rect.top);
-    onAddTrajectory({ x, y });
+  const toSvg = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      sx: ((e.clientX - rect.left) * width) / rect.width,
+      sy: ((e.clientY - rect.top) * height) / rect.height
+    };
+  };
+
+  // Press-and-drag pans, a press without movement traces a trajectory
+  const panStart = useRef<{ sx: number; sy: number; viewport: Bounds; moved: boolean } | null>(null);
+  // Trajectory whose initial point is being dragged
+  const dragging = useRef<string | null>(null);
+
+  // The draggable initial point under the pointer, if any
+  const initialAt = (sx: number, sy: number) => {
+    if (!onMoveInitial) return null;
+    const hit = trajectories.find(traj => !traj.comparison && Math.hypot(xScale(traj.initial.x) - sx, yScale(traj.initial.y) - sy) < 8);
+    return hit?.id ?? null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { sx, sy } = toSvg(e);
+    if (drawingBlob) {
+      setLasso([{ x: xScale.invert(sx), y: yScale.invert(sy) }]);
+      return;
+    }
+    dragging.current = initialAt(sx, sy);
+    if (dragging.current) return;
+    panStart.current = { sx, sy, viewport, moved: false };
+  };
+
+  // Snap the time cursor to the trajectory point nearest the pointer, if one is close
+  const updateHoverTime = (sx: number, sy: number) => {
+    if (!onHoverTime) return;
+    let best: { d: number; t: number } | null = null;
+    for (const traj of trajectories) {
+      for (const p of traj.points) {
+        const d = Math.hypot(xScale(p.x) - sx, yScale(p.y) - sy);
+        if (d < 10 && (!best || d < best.d)) best = { d, t: p.t };
+      }
+    }
+    onHoverTime(best ? best.t : null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging.current) {
+      const { sx, sy } = toSvg(e);
+      onMoveInitial?.(dragging.current, { x: xScale.invert(sx), y: yScale.invert(sy) });
+      return;
+    }
+    if (lasso) {
+      const { sx, sy } = toSvg(e);
+      const p = { x: xScale.invert(sx), y: yScale.invert(sy) };
+      setLasso(prev => (prev ? [...prev, p] : prev));
+      return;
+    }
+    const start = panStart.current;
+    if (!start) {
+      const { sx, sy } = toSvg(e);
+      updateHoverTime(sx, sy);
+      return;
+    }
+    const { sx, sy } = toSvg(e);
+    if (!start.moved && Math.hypot(sx - start.sx, sy - start.sy) < DRAG_THRESHOLD) return;
+    start.moved = true;
+    const v = start.viewport;
+    const dx = ((sx - start.sx) * (v.xMax - v.xMin)) / (width - 2 * margin);
+    const dy = ((sy - start.sy) * (v.yMax - v.yMin)) / (height - 2 * margin);
+    onViewportChange({ xMin: v.xMin - dx, xMax: v.xMax - dx, yMin: v.yMin + dy, yMax: v.yMax + dy });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging.current) {
+      dragging.current = null;
+      return;
+    }
+    if (lasso) {
+      if (lasso.length >= 3) {
+        setBlob(lasso);
+        setFlow(f => ({ ...f, seeding: 'blob' }));
+        setDrawingBlob(false);
+      }
+      setLasso(null);
+      return;
+    }
+    const start = panStart.current;
+    panStart.current = null;
+    if (!start || start.moved) return;
+    const { sx, sy } = toSvg(e);
+    onAddTrajectory({ x: xScale.invert(sx), y: yScale.invert(sy) });
+  };
+
+  const zoomAround = (center: Point, factor: number) => {
+    onViewportChange({
+      xMin: center.x + (viewport.xMin - center.x) * factor,
+      xMax: center.x + (viewport.xMax - center.x) * factor,
+      yMin: center.y + (viewport.yMin - center.y) * factor,
+      yMax: center.y + (viewport.yMax - center.y) * factor
+    });
+  };
+
+  // Wheel zoom needs a non-passive native listener to stop the page from scrolling
+  const wheelZoom = useRef(zoomAround);
+  wheelZoom.current = zoomAround;
+  const scales = useRef({ xScale, yScale });
+  scales.current = { xScale, yScale };
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { sx, sy } = toSvg(e);
+      const center = { x: scales.current.xScale.invert(sx), y: scales.current.yScale.invert(sy) };
+      wheelZoom.current(center, Math.exp(e.deltaY * 0.0015));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+    // toSvg only reads refs and the current size
+  }, [width, height]);
+
+  const viewCenter = { x: (viewport.xMin + viewport.xMax) / 2, y: (viewport.yMin + viewport.yMax) / 2 };
+
+  const handleFit = () => {
+    const fitted = fitBounds([
+      ...trajectories.map(traj => traj.points),
+      equilibria.map(eq => eq.point)
+    ]);
+    onViewportChange(fitted ?? DEFAULT_VIEWPORT);
   };
 
   const lineGenerator = d3.line<Point>().x(d => xScale(d.x)).y(d => yScale(d.y)).curve(d3.curveBasis);
@@ -83,15 +492,28 @@ const PhasePortrait: React.FC<PhasePortraitProps> = ({ matrix, trajectories, ana
   };
 
   return (
-    <div className="relative bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden select-none">
+    <div ref={containerRef} className="relative bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden select-none">
+      <canvas
+        ref={canvasRef}
+        style={{ width, height }}
+        className={`absolute left-0 top-0 pointer-events-none ${showFlow ? '' : 'hidden'}`}
+      />
       <svg
+        ref={svgRef}
         width={width}
         height={height}
         viewBox={`0 0 ${width} ${height}`}
-        onClick={handleSvgClick}
-        className="cursor-crosshair block mx-auto"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { panStart.current = null; dragging.current = null; setLasso(null); }}
+        onPointerLeave={() => onHoverTime?.(null)}
+        className={`relative block mx-auto touch-none ${drawingBlob ? 'cursor-cell' : 'cursor-crosshair'}`}
       >
         <defs>
+          <clipPath id={clipId}>
+            <rect x={margin} y={margin} width={width - 2 * margin} height={height - 2 * margin} />
+          </clipPath>
           <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
             <feGaussianBlur in="SourceAlpha" stdDeviation="1" />
             <feOffset dx="0" dy="1" result="offsetblur" />
@@ -105,98 +527,430 @@ const PhasePortrait: React.FC<PhasePortraitProps> = ({ matrix, trajectories, ana
           </filter>
         </defs>
 
-        <g className="grid-lines opacity-10">
+        {shadingPaths && (
+          <g className="sign-regions" clipPath={`url(#${clipId})`}>
+            {shadingPaths.map(({ pattern, d }) => (
+              <path key={pattern} d={d} fill={SIGN_COLORS[pattern]} opacity="0.45" />
+            ))}
+          </g>
+        )}
+
+        <g className="grid-lines" opacity="0.1">
           {xScale.ticks(10).map(t => <line key={`v-${t}`} x1={xScale(t)} y1={margin} x2={xScale(t)} y2={height - margin} stroke="black" />)}
           {yScale.ticks(10).map(t => <line key={`h-${t}`} x1={margin} y1={yScale(t)} x2={width - margin} y2={yScale(t)} stroke="black" />)}
         </g>
 
-        <line x1={margin} y1={yScale(0)} x2={width - margin} y2={yScale(0)} stroke="#94a3b8" strokeWidth="1" />
-        <line x1={xScale(0)} y1={margin} x2={xScale(0)} y2={height - margin} stroke="#94a3b8" strokeWidth="1" />
+        <g className="tick-labels" fontSize="9" fill="#94a3b8" fontFamily="ui-monospace, monospace">
+          {xScale.ticks(10).map(v => <text key={`xt-${v}`} x={xScale(v)} y={height - margin + 14} textAnchor="middle">{n(v)}</text>)}
+          {yScale.ticks(10).map(v => <text key={`yt-${v}`} x={margin - 6} y={yScale(v) + 3} textAnchor="end">{n(v)}</text>)}
+        </g>
+
+        <g className="axis-labels" fontSize="11" fontWeight="700" fill="#64748b" fontFamily="ui-monospace, monospace">
+          <text x={width - margin} y={height - margin + 28} textAnchor="end">{axisLabels[0]}</text>
+          <text x={margin - 6} y={margin - 10} textAnchor="end">{axisLabels[1]}</text>
+        </g>
 
-        {/* Eigenvectors (Invariant Lines) */}
-        {analysis.eigenvectors && analysis.eigenvectors.map((vec, i) => {
-          const xDir = vec.x.re;
-          const yDir = vec.y.re;
-          if (Math.abs(xDir) < 1e-9 && Math.abs(yDir) < 1e-9) return null;
+        <g clipPath={`url(#${clipId})`}>
+          <line x1={margin} y1={yScale(0)} x2={width - margin} y2={yScale(0)} stroke="#94a3b8" strokeWidth="1" />
+          <line x1={xScale(0)} y1={margin} x2={xScale(0)} y2={height - margin} stroke="#94a3b8" strokeWidth="1" />
+
+          {/* Eigenvectors (Invariant Lines), only meaningful for real eigenvalues */}
+          {analysis?.eigenvectors && !analysis.rotation && analysis.eigenvectors.map((vec, i) => {
+            const xDir = vec.x.re;
+            const yDir = vec.y.re;
+            if (Math.abs(xDir) < 1e-9 && Math.abs(yDir) < 1e-9) return null;
           
-          const x1 = -range * 2 * xDir;
-          const y1 = -range * 2 * yDir;
-          const x2 = range * 2 * xDir;
-          const y2 = range * 2 * yDir;
+            const x1 = center.x - reach * xDir;
+            const y1 = center.y - reach * yDir;
+            const x2 = center.x + reach * xDir;
+            const y2 = center.y + reach * yDir;
 
-          return (
-            <line
-              key={`eig-${i}`}
-              x1={xScale(x1)} y1={yScale(y1)} x2={xScale(x2)} y2={yScale(y2)}
-              stroke={i === 0 ? '#fbbf24' : '#a855f7'}
-              strokeWidth="1.5"
-              strokeDasharray="5,5"
-              opacity="0.3"
-            />
-          );
-        })}
-
-        <g className="direction-field">
-          {gridPoints.map((p, i) => {
-            const arrowSize = 10;
-            const x1 = xScale(p.x);
-            const y1 = yScale(p.y);
-            const x2 = x1 + p.dx * arrowSize;
-            const y2 = y1 - p.dy * arrowSize;
-            const colorScale = d3.scaleSequential(d3.interpolateBlues).domain([0, 10]);
             return (
-              <line key={`arrow-${i}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke={colorScale(p.length)} strokeWidth="1" opacity="0.4" />
+              <line
+                key={`eig-${i}`}
+                x1={xScale(x1)} y1={yScale(y1)} x2={xScale(x2)} y2={yScale(y2)}
+                stroke={i === 0 ? '#fbbf24' : '#a855f7'}
+                strokeWidth="1.5"
+                strokeDasharray="5,5"
+                opacity="0.3"
+              />
             );
           })}
-        </g>
 
-        <g className="trajectories">
-          {trajectories.map((traj) => (
-            <g key={traj.id}>
-              <path 
-                d={lineGenerator(traj.points) || ''} 
-                fill="none" 
-                stroke={traj.color} 
-                strokeWidth="2.5" 
-                className="opacity-90"
-              />
-              {/* Directional Arrows along the path */}
-              {getArrowHeads(traj).map((head, hi) => (
-                <path
-                  key={`${traj.id}-h-${hi}`}
-                  d="M -5 -4 L 5 0 L -5 4 Z"
-                  transform={`translate(${head.x}, ${head.y}) rotate(${(head.angle * 180) / Math.PI})`}
-                  fill={traj.color}
-                  stroke="white"
-                  strokeWidth="0.5"
+          {/* Re(v) and Im(v) of a complex eigenvector: the axes of the ellipses/spirals */}
+          {analysis?.eigenvectors && analysis.rotation && (() => {
+            const v = analysis.eigenvectors[0];
+            const scale = (span * 0.6) / Math.max(Math.hypot(v.x.re, v.y.re), 1e-9);
+            return (
+              <g className="complex-eigenvector-axes">
+                {([['Re v', v.x.re, v.y.re, RE_COLOR], ['Im v', v.x.im, v.y.im, IM_COLOR]] as const).map(([label, vx, vy, color]) => (
+                  <g key={label}>
+                    <line
+                      x1={xScale(center.x - scale * vx)} y1={yScale(center.y - scale * vy)}
+                      x2={xScale(center.x + scale * vx)} y2={yScale(center.y + scale * vy)}
+                      stroke={color}
+                      strokeWidth="1.5"
+                      opacity="0.5"
+                    />
+                    <text
+                      x={xScale(center.x + scale * vx) + 4} y={yScale(center.y + scale * vy) - 4}
+                      fontSize="10"
+                      fontWeight="700"
+                      fill={color}
+                    >
+                      {label}
+                    </text>
+                  </g>
+                ))}
+              </g>
+            );
+          })()}
+
+          {/* Local eigenlines of each linearization */}
+          <g className="equilibrium-eigenlines">
+            {equilibria.map((eq, ei) => !eq.analysis.rotation && eq.analysis.eigenvectors?.map((vec, i) => {
+              const len = span * 0.2;
+              return (
+                <line
+                  key={`eq-eig-${ei}-${i}`}
+                  x1={xScale(eq.point.x - len * vec.x.re)} y1={yScale(eq.point.y - len * vec.y.re)}
+                  x2={xScale(eq.point.x + len * vec.x.re)} y2={yScale(eq.point.y + len * vec.y.re)}
+                  stroke={i === 0 ? '#fbbf24' : '#a855f7'}
+                  strokeWidth="1.5"
+                  strokeDasharray="4,3"
+                  opacity="0.6"
                 />
-              ))}
+              );
+            }))}
+          </g>
+
+          <g className="direction-field">
+            {gridPoints.map((p, i) => {
+              const arrowSize = 10;
+              const x1 = xScale(p.x);
+              const y1 = yScale(p.y);
+              const x2 = x1 + p.dx * arrowSize;
+              const y2 = y1 - p.dy * arrowSize;
+              const colorScale = d3.scaleSequential(d3.interpolateBlues).domain([0, 10]);
+              return (
+                <line key={`arrow-${i}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke={colorScale(p.length)} strokeWidth="1" opacity="0.4" />
+              );
+            })}
+          </g>
+
+          <g className="nullclines">
+            {nullclinePaths.x && <path d={nullclinePaths.x} fill="none" stroke={X_NULLCLINE_COLOR} strokeWidth="2" strokeLinecap="round" />}
+            {nullclinePaths.y && <path d={nullclinePaths.y} fill="none" stroke={Y_NULLCLINE_COLOR} strokeWidth="2" strokeLinecap="round" />}
+          </g>
+
+          {compass.length > 0 && (
+            <g className="compass" pointerEvents="none">
+              {compass.map(({ sx, sy, pattern }) => {
+                // Screen y points down
+                const angle = Math.atan2(pattern[1] === '+' ? -1 : 1, pattern[0] === '+' ? 1 : -1) * 180 / Math.PI;
+                return (
+                  <g key={`${sx}-${sy}`} transform={`translate(${sx}, ${sy})`}>
+                    <circle r="9" fill="white" opacity="0.7" stroke="#cbd5e1" strokeWidth="0.75" />
+                    <path d="M -5 0 L 3 0 M 0 -3 L 4 0 L 0 3" transform={`rotate(${angle})`} fill="none" stroke="#334155" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+                  </g>
+                );
+              })}
             </g>
-          ))}
-        </g>
+          )}
+
+          <g className="trajectories">
+            {discrete && trajectories.map((traj) => (
+              <g key={traj.id}>
+                {orbitArrows && traj.points.slice(1).map((p, k) => {
+                  const x1 = xScale(traj.points[k].x);
+                  const y1 = yScale(traj.points[k].y);
+                  const x2 = xScale(p.x);
+                  const y2 = yScale(p.y);
+                  const length = Math.hypot(x2 - x1, y2 - y1);
+                  // Stop short of the next iterate's dot; very short jumps get no head
+                  const inset = Math.min(4, length / 2);
+                  const angle = Math.atan2(y2 - y1, x2 - x1);
+                  const ex = x2 - inset * Math.cos(angle);
+                  const ey = y2 - inset * Math.sin(angle);
+                  return (
+                    <g key={`${traj.id}-s-${k}`} opacity="0.6">
+                      <line x1={x1} y1={y1} x2={ex} y2={ey} stroke={traj.color} strokeWidth="1" />
+                      {length > 12 && (
+                        <path
+                          d="M -4 -2.5 L 0 0 L -4 2.5"
+                          transform={`translate(${ex}, ${ey}) rotate(${(angle * 180) / Math.PI})`}
+                          fill="none"
+                          stroke={traj.color}
+                          strokeWidth="1"
+                        />
+                      )}
+                    </g>
+                  );
+                })}
+                {traj.points.map(p => (
+                  <circle key={`${traj.id}-p-${p.t}`} cx={xScale(p.x)} cy={yScale(p.y)} r="2.5" fill={traj.color}>
+                    <title>{`n = ${p.t}`}</title>
+                  </circle>
+                ))}
+              </g>
+            ))}
+            {!discrete && trajectories.map((traj) => (
+              <g key={traj.id}>
+                <path 
+                  d={lineGenerator(traj.points) || ''} 
+                  fill="none" 
+                  stroke={traj.color} 
+                  strokeWidth={traj.comparison ? 2 : 2.5}
+                  strokeDasharray={traj.comparison ? '6,4' : undefined}
+                  opacity="0.9"
+                >
+                  {traj.method && <title>{INTEGRATORS[traj.method].label}</title>}
+                </path>
+                {/* Directional Arrows along the path */}
+                {getArrowHeads(traj).map((head, hi) => (
+                  <path
+                    key={`${traj.id}-h-${hi}`}
+                    d="M -5 -4 L 5 0 L -5 4 Z"
+                    transform={`translate(${head.x}, ${head.y}) rotate(${(head.angle * 180) / Math.PI})`}
+                    fill={traj.color}
+                    stroke="white"
+                    strokeWidth="0.5"
+                  />
+                ))}
+              </g>
+            ))}
+          </g>
 
-        <g className="initial-points">
-          {trajectories.map((traj) => (
-            <circle 
-              key={`init-${traj.id}`} 
-              cx={xScale(traj.initial.x)} 
-              cy={yScale(traj.initial.y)} 
-              r="4" 
-              fill={traj.color} 
-              stroke="white" 
+          <g className="exact-paths">
+            {exactPaths.map(path => (
+              <path
+                key={`exact-${path.id}`}
+                d={lineGenerator(path.points) || ''}
+                fill="none"
+                stroke="#0f172a"
+                strokeWidth="1.25"
+                strokeDasharray="1,3"
+                strokeLinecap="round"
+              />
+            ))}
+          </g>
+
+          {showFlow && flow.seeding === 'blob' && blob && !lasso && (
+            <path
+              className="flow-blob"
+              d={`${d3.line<Point>().x(p => xScale(p.x)).y(p => yScale(p.y))(blob)} Z`}
+              fill="#db2777"
+              fillOpacity="0.05"
+              stroke="#db2777"
+              strokeWidth="1"
+              strokeDasharray="3,3"
+              opacity="0.6"
+            />
+          )}
+          {lasso && (
+            <path
+              className="flow-lasso"
+              d={d3.line<Point>().x(p => xScale(p.x)).y(p => yScale(p.y))(lasso) || ''}
+              fill="#db2777"
+              fillOpacity="0.1"
+              stroke="#db2777"
               strokeWidth="1.5"
-              filter="url(#shadow)"
             />
-          ))}
+          )}
+
+          {hoverTime !== null && (
+            <g className="time-cursor" pointerEvents="none">
+              {trajectories.map(traj => {
+                const p = pointAtTime(traj.points, hoverTime);
+                return p && (
+                  <circle key={`hover-${traj.id}`} cx={xScale(p.x)} cy={yScale(p.y)} r="6" fill="white" stroke={traj.color} strokeWidth="3" />
+                );
+              })}
+            </g>
+          )}
+
+          <g className="initial-points">
+            {trajectories.map((traj) => (
+              <circle 
+                key={`init-${traj.id}`} 
+                cx={xScale(traj.initial.x)} 
+                cy={yScale(traj.initial.y)} 
+                r="4" 
+                fill={traj.color} 
+                stroke="white" 
+                strokeWidth="1.5"
+                filter="url(#shadow)"
+                style={onMoveInitial && !traj.comparison ? { cursor: 'move' } : undefined}
+              />
+            ))}
+          </g>
+
+          {analysis?.rotation && <RotationArc cx={xScale(center.x)} cy={yScale(center.y)} rotation={analysis.rotation} />}
+
+          {affineEquilibrium?.kind === 'line' && (
+            <line
+              className="equilibrium-line"
+              x1={xScale(center.x - reach * affineEquilibrium.direction.x)} y1={yScale(center.y - reach * affineEquilibrium.direction.y)}
+              x2={xScale(center.x + reach * affineEquilibrium.direction.x)} y2={yScale(center.y + reach * affineEquilibrium.direction.y)}
+              stroke="#1e293b"
+              strokeWidth="3"
+              opacity="0.5"
+            />
+          )}
+          {affineEquilibrium?.kind === 'point' && (
+            <circle cx={xScale(center.x)} cy={yScale(center.y)} r="4" fill="white" stroke="#1e293b" strokeWidth="1.5" />
+          )}
+
+          <g className="equilibria">
+            {equilibria.map((eq, i) => {
+              const cx = xScale(eq.point.x);
+              const cy = yScale(eq.point.y);
+              const stable = isFilledEquilibrium(eq.analysis);
+              return (
+                <g key={`eq-${i}`}>
+                  {eq.analysis.rotation && <RotationArc cx={cx} cy={cy} rotation={eq.analysis.rotation} r={12} />}
+                  <circle
+                    cx={cx} cy={cy} r="5"
+                    fill={stable ? '#1e293b' : 'white'}
+                    stroke="#1e293b"
+                    strokeWidth="1.5"
+                    filter="url(#shadow)"
+                  />
+                  <text
+                    x={cx + 8} y={cy - 8}
+                    fontSize="10"
+                    fontWeight="700"
+                    fill="#475569"
+                    stroke="white"
+                    strokeWidth="3"
+                    paintOrder="stroke"
+                  >
+                    {t(eq.analysis.classification)}{eq.hyperbolic ? '' : '?'}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
         </g>
       </svg>
+      <div className="absolute top-3 right-3 flex flex-col items-end gap-2">
+        <div className="flex gap-1 bg-white/90 backdrop-blur border border-slate-200 rounded-lg p-1 shadow-sm">
+          {[
+            { icon: 'fa-magnifying-glass-plus', title: t('portrait.zoom-in'), action: () => zoomAround(viewCenter, 1 / 1.5) },
+            { icon: 'fa-magnifying-glass-minus', title: t('portrait.zoom-out'), action: () => zoomAround(viewCenter, 1.5) },
+            { icon: 'fa-expand', title: t('portrait.fit'), action: handleFit },
+            { icon: 'fa-house', title: t('portrait.reset-view'), action: () => onViewportChange(DEFAULT_VIEWPORT) },
+            { icon: 'fa-sliders', title: t('portrait.ranges'), action: () => setShowRangeInputs(v => !v) },
+            ...(discrete
+              ? [{ icon: 'fa-arrow-right-long', title: t(orbitArrows ? 'portrait.hide-arrows' : 'portrait.show-arrows'), action: () => setOrbitArrows(v => !v) }]
+              : []),
+            ...(fieldShown
+              ? [
+                  { icon: 'fa-layer-group', title: t('portrait.layers'), action: () => setShowLayers(v => !v) },
+                  { icon: 'fa-water', title: t('portrait.flow'), action: () => { setShowFlow(v => !v); setDrawingBlob(false); } }
+                ]
+              : []),
+            { icon: 'fa-download', title: t('portrait.export'), action: () => setShowExport(v => !v) }
+          ].map(b => (
+            <button
+              key={b.icon}
+              title={b.title}
+              onClick={b.action}
+              className="w-7 h-7 rounded-md text-slate-500 hover:bg-slate-100 hover:text-blue-600 transition-all text-xs"
+            >
+              <i className={`fa-solid ${b.icon}`}></i>
+            </button>
+          ))}
+        </div>
+        {showRangeInputs && (
+          <div className="bg-white/95 border border-slate-200 rounded-lg p-2 shadow-sm">
+            <ViewportInputs viewport={viewport} labels={axisLabels} onChange={onViewportChange} />
+          </div>
+        )}
+        {showLayers && (
+          <div className="bg-white/95 border border-slate-200 rounded-lg p-2 shadow-sm space-y-1 text-[10px] font-bold text-slate-500">
+            {([
+              ['xNullcline', t('portrait.nullcline', { equation: `${axisLabels[0]}' = 0` }), X_NULLCLINE_COLOR],
+              ['yNullcline', t('portrait.nullcline', { equation: `${axisLabels[1]}' = 0` }), Y_NULLCLINE_COLOR],
+              ['shading', t('portrait.sign-regions'), '#94a3b8']
+            ] as const).map(([key, label, color]) => (
+              <label key={key} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={layers[key]}
+                  onChange={(e) => setLayers({ ...layers, [key]: e.target.checked })}
+                  className="accent-blue-600"
+                />
+                <span className="w-3 h-0.5" style={{ background: color }}></span>
+                {label}
+              </label>
+            ))}
+            {layers.shading && (
+              <div className="grid grid-cols-2 gap-1 pt-1 border-t border-slate-100 font-mono">
+                {SIGN_PATTERNS.map(p => (
+                  <span key={p} className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-sm" style={{ background: SIGN_COLORS[p] }}></span>
+                    {axisLabels[0]}'{p[0]} {axisLabels[1]}'{p[1]}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        {showFlow && (
+          <FlowControls
+            settings={flow}
+            onChange={setFlow}
+            onStep={stepFlow}
+            onReseed={() => setSeedKey(k => k + 1)}
+            onDrawBlob={() => setDrawingBlob(true)}
+            drawingBlob={drawingBlob}
+            hasBlob={blob !== null}
+          />
+        )}
+        {showExport && (
+          <ExportMenu
+            svgRef={svgRef}
+            width={width}
+            height={height}
+            scene={{ field, fieldTime, viewport, analysis, center, equilibria, trajectories, axisLabels, discrete, hideField }}
+            metadata={() => buildMetadata({
+              ...exportInfo,
+              analysis,
+              viewport,
+              axisLabels,
+              ...(fieldTime !== 0 ? { fieldTime } : {})
+            })}
+          />
+        )}
+      </div>
       <div className="absolute bottom-4 left-4 flex gap-4">
-        {analysis.eigenvectors && analysis.eigenvectors.map((_, i) => (
+        {([['xNullcline', `${axisLabels[0]}' = 0`, X_NULLCLINE_COLOR], ['yNullcline', `${axisLabels[1]}' = 0`, Y_NULLCLINE_COLOR]] as const).map(([key, label, color]) => layers[key] && (
+          <div key={key} className="flex items-center gap-2 text-[10px] font-bold tracking-wider text-slate-400">
+            <div className="w-4 h-0.5" style={{ background: color }}></div>
+            {label}
+          </div>
+        ))}
+        {analysis?.eigenvectors && !analysis.rotation && analysis.eigenvectors.map((_, i) => (
           <div key={i} className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">
              <div className="w-4 h-0.5 border-t border-dashed" style={{ borderColor: i === 0 ? '#fbbf24' : '#a855f7' }}></div>
-             Eigenline {i + 1}
+             {t('portrait.eigenline', { index: i + 1 })}
           </div>
         ))}
+        {analysis?.rotation && (
+          <>
+            {([['Re(v)', RE_COLOR], ['Im(v)', IM_COLOR]] as const).map(([label, color]) => (
+              <div key={label} className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                <div className="w-4 h-0.5" style={{ background: color }}></div>
+                {label}
+              </div>
+            ))}
+            <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+              <i className={`fa-solid ${analysis.rotation === 'clockwise' ? 'fa-rotate-right' : 'fa-rotate-left'}`}></i>
+              {t(analysis.rotation === 'clockwise' ? 'rotation.clockwise' : 'rotation.counterclockwise')}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,335 @@
+
+import React, { useEffect, useState } from 'react';
+import { Matrix2x2, Point } from '../types';
+import {
+  EntryKind, QUIZ_CLASSES, PartResult, QuestionResult, QuizClass, QuizQuestion, QuizRecord, QuizSettings,
+  clearQuizHistory, generateQuiz, gradeAnswer, loadQuizHistory, recordQuiz
+} from '../services/quiz';
+import { LOCALES } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface QuizPanelProps {
+  // Strokes clicked on the portrait for the current question
+  sketch: Point[][];
+  onNewStroke: () => void;
+  onClearSketch: () => void;
+  // Puts a question's matrix on the portrait, with its field hidden
+  onQuestion: (matrix: Matrix2x2) => void;
+  // Shows the field and the true trajectories once an answer is graded
+  onReveal: () => void;
+  onExit: () => void;
+}
+
+const COUNTS = [5, 10, 15];
+
+const randomSeed = () => Math.random().toString(36).slice(2, 8);
+
+// Halves are shown as fractions, so the matrix reads as the student would write it
+const formatEntry = (v: number) => (Number.isInteger(v) ? `${v}` : `${v * 2}/2`);
+
+const inputClass = 'w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none text-xs font-bold text-slate-800 shadow-inner font-mono';
+
+const EMPTY_ANSWER = {
+  classification: null as QuizClass | null,
+  eigenvalues: ['', ''] as [string, string],
+  eigenvectors: ['', ''] as [string, string]
+};
+
+const PartFeedback: React.FC<{ label: string; part: PartResult }> = ({ label, part }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex gap-2 items-start">
+      <i className={`fa-solid mt-0.5 ${part.correct === null ? 'fa-minus text-slate-300' : part.correct ? 'fa-check text-emerald-500' : 'fa-xmark text-rose-500'}`}></i>
+      <div>
+        <span className="font-bold text-slate-700">{label}: </span>
+        <span className="text-slate-500">{t(part.feedback)}</span>
+      </div>
+    </div>
+  );
+};
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ sketch, onNewStroke, onClearSketch, onQuestion, onReveal, onExit }) => {
+  const { locale, t } = useI18n();
+  const [settings, setSettings] = useState<QuizSettings>(() => ({
+    seed: randomSeed(),
+    classes: QUIZ_CLASSES.map(c => c.id),
+    entries: 'integer',
+    count: 5
+  }));
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState(EMPTY_ANSWER);
+  const [results, setResults] = useState<QuestionResult[]>([]);
+  const [history, setHistory] = useState<QuizRecord[]>([]);
+
+  // localStorage is only touched in the browser
+  useEffect(() => setHistory(loadQuizHistory()), []);
+
+  const question = questions?.[index] ?? null;
+  const result = results[index] ?? null;
+  const finished = questions !== null && results.length === questions.length && index === questions.length - 1 && result !== null;
+
+  useEffect(() => {
+    if (question) onQuestion(question.matrix);
+    // Only a new question replaces the portrait
+  }, [question]);
+
+  const start = (seed: string = settings.seed) => {
+    const next = { ...settings, seed };
+    setSettings(next);
+    setQuestions(generateQuiz(next));
+    setIndex(0);
+    setResults([]);
+    setAnswer(EMPTY_ANSWER);
+  };
+
+  const submit = () => {
+    if (!question || !questions) return;
+    const graded = gradeAnswer(question.matrix, { ...answer, sketch });
+    const next = [...results, graded];
+    setResults(next);
+    onReveal();
+    if (next.length === questions.length) {
+      setHistory(recordQuiz({
+        finishedAt: new Date().toISOString(),
+        seed: settings.seed,
+        classes: settings.classes,
+        entries: settings.entries,
+        score: next.reduce((s, r) => s + r.score, 0),
+        total: next.reduce((s, r) => s + r.total, 0)
+      }));
+    }
+  };
+
+  const nextQuestion = () => {
+    setIndex(i => i + 1);
+    setAnswer(EMPTY_ANSWER);
+  };
+
+  const toggleClass = (id: QuizClass) => setSettings(s => ({
+    ...s,
+    classes: s.classes.includes(id) ? s.classes.filter(c => c !== id) : [...s.classes, id]
+  }));
+
+  const score = results.reduce((s, r) => s + r.score, 0);
+  const total = results.reduce((s, r) => s + r.total, 0);
+  const points = sketch.reduce((n, stroke) => n + stroke.length, 0);
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 text-xs">
+      <h2 className="text-sm font-black mb-4 flex items-center justify-between gap-2 text-slate-400 uppercase tracking-widest">
+        <span className="flex items-center gap-2"><i className="fa-solid fa-graduation-cap text-amber-500"></i> {t('quiz.title')}</span>
+        <button onClick={onExit} title={t('quiz.leave-mode')} className="text-slate-300 hover:text-slate-600">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </h2>
+
+      {!questions ? (
+        <div className="space-y-4">
+          <label className="block space-y-1">
+            <span className="block text-[10px] uppercase font-bold text-slate-400">{t('quiz.seed')}</span>
+            <div className="flex gap-2">
+              <input
+                value={settings.seed}
+                onChange={(e) => setSettings(s => ({ ...s, seed: e.target.value }))}
+                spellCheck={false}
+                className={inputClass}
+              />
+              <button
+                onClick={() => setSettings(s => ({ ...s, seed: randomSeed() }))}
+                title={t('quiz.new-seed')}
+                className="px-2.5 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200"
+              >
+                <i className="fa-solid fa-dice"></i>
+              </button>
+            </div>
+            <span className="block text-[10px] text-slate-400 leading-snug">
+              {t('quiz.seed-hint')}
+            </span>
+          </label>
+
+          <div className="space-y-1">
+            <span className="block text-[10px] uppercase font-bold text-slate-400">{t('quiz.classes')}</span>
+            <div className="flex flex-wrap gap-1">
+              {QUIZ_CLASSES.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => toggleClass(c.id)}
+                  className={`px-2 py-1 rounded-md text-[10px] font-bold border transition-all ${settings.classes.includes(c.id) ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-400'}`}
+                >
+                  {t(c.label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <span className="block text-[10px] uppercase font-bold text-slate-400">{t('quiz.entries')}</span>
+              <div className="flex gap-1 p-0.5 bg-slate-100 rounded-md">
+                {([['integer', t('quiz.integers')], ['rational', t('quiz.halves')]] as [EntryKind, string][]).map(([kind, label]) => (
+                  <button
+                    key={kind}
+                    onClick={() => setSettings(s => ({ ...s, entries: kind }))}
+                    className={`flex-1 py-1 rounded text-[10px] font-bold transition-all ${settings.entries === kind ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="space-y-1">
+              <span className="block text-[10px] uppercase font-bold text-slate-400">{t('quiz.questions')}</span>
+              <select
+                value={settings.count}
+                onChange={(e) => setSettings(s => ({ ...s, count: parseInt(e.target.value, 10) }))}
+                className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                {COUNTS.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <button
+            onClick={() => start()}
+            disabled={settings.classes.length === 0 || settings.seed.trim() === ''}
+            className="w-full py-2.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white rounded-lg text-xs font-bold transition-all uppercase tracking-widest shadow-md"
+          >
+            {t('quiz.start')}
+          </button>
+
+          {history.length > 0 && (
+            <div className="space-y-1">
+              <div className="flex justify-between items-center text-[10px] uppercase font-bold text-slate-400">
+                <span>{t('quiz.recent')}</span>
+                <button onClick={() => setHistory(clearQuizHistory())} className="normal-case font-semibold hover:text-rose-500">{t('quiz.clear')}</button>
+              </div>
+              {history.slice(0, 8).map(r => (
+                <div key={r.finishedAt} className="flex justify-between font-mono text-[10px] text-slate-500">
+                  <span>{new Date(r.finishedAt).toLocaleDateString(LOCALES[locale].tag)} · {r.seed}</span>
+                  <span className="font-bold text-slate-700">{r.score}/{r.total}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : !question ? (
+        <div className="space-y-3">
+          <p className="text-slate-500">{t('quiz.none-generated')}</p>
+          <button onClick={() => setQuestions(null)} className="text-blue-600 font-bold">{t('quiz.back')}</button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex justify-between text-[10px] uppercase font-bold text-slate-400">
+            <span>{t('quiz.question', { n: index + 1, count: questions.length })}</span>
+            <span className="font-mono">{t('quiz.score', { score, total })}</span>
+          </div>
+
+          <div className="flex items-center justify-center gap-3 font-mono text-sm font-bold text-slate-800">
+            <span>A =</span>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 px-3 py-2 border-x-2 border-slate-400 rounded text-center">
+              {(['a', 'b', 'c', 'd'] as const).map(k => <span key={k}>{formatEntry(question.matrix[k])}</span>)}
+            </div>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="block text-[10px] uppercase font-bold text-slate-400">{t('quiz.classification')}</span>
+            <select
+              value={answer.classification ?? ''}
+              disabled={result !== null}
+              onChange={(e) => setAnswer(a => ({ ...a, classification: (e.target.value || null) as QuizClass | null }))}
+              className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              <option value="">{t('quiz.choose')}</option>
+              {QUIZ_CLASSES.map(c => <option key={c.id} value={c.id}>{t(c.label)}</option>)}
+            </select>
+          </label>
+
+          {([
+            ['eigenvalues', t('quiz.eigenvalues'), [t('quiz.eigenvalue-placeholder'), 'λ₂']],
+            ['eigenvectors', t('quiz.eigenvectors-real'), [t('quiz.eigenvector-placeholder'), 'v₂']]
+          ] as const).map(([key, label, placeholders]) => (
+            <div key={key} className="space-y-1">
+              <span className="block text-[10px] uppercase font-bold text-slate-400">{label}</span>
+              <div className="grid grid-cols-2 gap-2">
+                {[0, 1].map(i => (
+                  <input
+                    key={i}
+                    value={answer[key][i]}
+                    disabled={result !== null}
+                    placeholder={placeholders[i]}
+                    spellCheck={false}
+                    onChange={(e) => setAnswer(a => {
+                      const values: [string, string] = [a[key][0], a[key][1]];
+                      values[i] = e.target.value;
+                      return { ...a, [key]: values };
+                    })}
+                    className={inputClass}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <span className="block text-[10px] uppercase font-bold text-slate-400">{t('quiz.sketch')}</span>
+            <p className="text-slate-500 leading-snug">
+              {t('quiz.sketch-hint')}
+              {' '}{t('quiz.sketch-count', {
+                strokes: t(sketch.length === 1 ? 'quiz.stroke' : 'quiz.strokes', { count: sketch.length }),
+                points: t(points === 1 ? 'quiz.point' : 'quiz.points', { count: points })
+              })}
+            </p>
+            {result === null && (
+              <div className="flex gap-2">
+                <button onClick={onNewStroke} disabled={points === 0} className="flex-1 py-1.5 rounded-md bg-slate-100 text-slate-600 font-bold hover:bg-slate-200 disabled:opacity-40">
+                  {t('quiz.new-stroke')}
+                </button>
+                <button onClick={onClearSketch} disabled={points === 0} className="flex-1 py-1.5 rounded-md bg-slate-100 text-slate-600 font-bold hover:bg-slate-200 disabled:opacity-40">
+                  {t('quiz.clear')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {result === null ? (
+            <button
+              onClick={submit}
+              className="w-full py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold transition-all uppercase tracking-widest shadow-md"
+            >
+              {t('quiz.check')}
+            </button>
+          ) : (
+            <div className="space-y-3">
+              <div className="p-3 rounded-lg border border-slate-100 bg-slate-50 space-y-1.5">
+                <div className="font-bold text-slate-900">{t('quiz.correct', { score: result.score, total: result.total })}</div>
+                <PartFeedback label={t('quiz.class')} part={result.classification} />
+                <PartFeedback label={t('quiz.eigenvalues')} part={result.eigenvalues} />
+                <PartFeedback label={t('quiz.eigenvectors')} part={result.eigenvectors} />
+                <PartFeedback label={t('quiz.sketch')} part={result.sketch} />
+              </div>
+              {finished ? (
+                <div className="space-y-2">
+                  <div className="text-center font-bold text-slate-900 text-sm">{t('quiz.finished', { score, total })}</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => start()} className="py-2 rounded-lg bg-slate-100 text-slate-700 font-bold hover:bg-slate-200">{t('quiz.retry')}</button>
+                    <button onClick={() => setQuestions(null)} className="py-2 rounded-lg bg-blue-600 text-white font-bold hover:bg-blue-700">{t('quiz.new')}</button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={nextQuestion}
+                  className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg text-xs font-bold transition-all uppercase tracking-widest shadow-md"
+                >
+                  {t('quiz.next')}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default QuizPanel;
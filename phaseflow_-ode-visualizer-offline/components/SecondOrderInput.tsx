@@ -0,0 +1,90 @@
+
+import React from 'react';
+import { SecondOrderInputs } from '../services/secondOrder';
+import { Message } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SecondOrderInputProps {
+  inputs: SecondOrderInputs;
+  errors: Record<keyof SecondOrderInputs, Message | null>;
+  onChange: (inputs: SecondOrderInputs) => void;
+  // Snapshot time of the direction field, only shown when f(t) is present
+  timeDependent: boolean;
+  fieldTime: number;
+  onFieldTimeChange: (t: number) => void;
+}
+
+const TERMS: { key: keyof SecondOrderInputs; suffix: string }[] = [
+  { key: 'a', suffix: "y''" },
+  { key: 'b', suffix: "y'" },
+  { key: 'c', suffix: 'y' }
+];
+
+const inputClass = 'w-full px-2 py-2 bg-white border rounded-lg focus:ring-2 focus:outline-none transition-all text-sm font-bold text-slate-800 shadow-inner font-mono';
+
+const SecondOrderInput: React.FC<SecondOrderInputProps> = ({
+  inputs, errors, onChange, timeDependent, fieldTime, onFieldTimeChange
+}) => {
+  const { t, n } = useI18n();
+  const update = (key: keyof SecondOrderInputs, val: string) => onChange({ ...inputs, [key]: val });
+  const field = (key: keyof SecondOrderInputs, placeholder: string) => (
+    <input
+      type="text"
+      value={inputs[key]}
+      onChange={(e) => update(key, e.target.value)}
+      placeholder={placeholder}
+      spellCheck={false}
+      title={errors[key] ? t(errors[key]) : undefined}
+      className={`${inputClass} ${errors[key] ? 'border-rose-300 focus:ring-rose-400' : 'border-slate-200 focus:ring-blue-500'}`}
+    />
+  );
+  const firstError = errors.a ?? errors.b ?? errors.c ?? errors.f;
+
+  return (
+    <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 mb-6 relative space-y-3">
+      <div className="absolute left-0 top-0 bottom-0 w-1.5 bg-blue-500 rounded-l-xl"></div>
+      <div className="grid grid-cols-[1fr_auto_1fr_auto_1fr_auto] items-center gap-x-1.5 font-mono">
+        {TERMS.map(({ key, suffix }, i) => (
+          <React.Fragment key={key}>
+            {field(key, i === 0 ? '1' : '0')}
+            <span className="text-xs text-slate-400 font-bold pr-1">{suffix}{i < TERMS.length - 1 ? ' +' : ''}</span>
+          </React.Fragment>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 font-mono">
+        <span className="text-xs text-slate-400 font-bold shrink-0">= f(t)</span>
+        {field('f', '0')}
+      </div>
+
+      {firstError && (
+        <div className="text-[10px] font-semibold text-rose-500">
+          <i className="fa-solid fa-circle-exclamation mr-1"></i>{t(firstError)}
+        </div>
+      )}
+
+      {timeDependent && (
+        <label className="block space-y-1">
+          <span className="flex justify-between text-[10px] uppercase font-bold text-slate-400">
+            <span>{t('field-time')}</span>
+            <span className="font-mono text-slate-600">{n(fieldTime, 2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={4 * Math.PI}
+            step={0.01}
+            value={fieldTime}
+            onChange={(e) => onFieldTimeChange(parseFloat(e.target.value))}
+            className="w-full accent-blue-500"
+          />
+        </label>
+      )}
+
+      <p className="text-[10px] text-slate-400 leading-snug">
+        {t('second-order.hint')}
+      </p>
+    </div>
+  );
+};
+
+export default SecondOrderInput;
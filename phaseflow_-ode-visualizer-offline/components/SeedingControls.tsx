@@ -0,0 +1,88 @@
+
+import React from 'react';
+import { SEED_STRATEGIES, seedDefaults, SeedSettings, SeedStrategy } from '../services/seeding';
+import { useI18n } from '../hooks/useI18n';
+
+interface SeedingControlsProps {
+  settings: SeedSettings;
+  onChange: (settings: SeedSettings) => void;
+  onSeed: () => void;
+  // Orbits of a map are point sets, so there are no streamlines to space
+  discrete: boolean;
+}
+
+const STRATEGIES = Object.keys(SEED_STRATEGIES) as SeedStrategy[];
+
+const SeedingControls: React.FC<SeedingControlsProps> = ({ settings, onChange, onSeed, discrete }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<SeedSettings>) => onChange({ ...settings, ...patch });
+  const { count, spacing } = SEED_STRATEGIES[settings.strategy];
+  const unavailable = discrete && settings.strategy === 'streamlines';
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-seedling text-blue-500"></i> {t('seeding.title')}
+      </h2>
+
+      <div className="grid grid-cols-4 gap-1 p-1 bg-slate-100 rounded-lg mb-4">
+        {STRATEGIES.map(s => (
+          <button
+            key={s}
+            onClick={() => onChange(seedDefaults(s))}
+            disabled={discrete && s === 'streamlines'}
+            className={`py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all disabled:opacity-40 ${settings.strategy === s ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            {t(SEED_STRATEGIES[s].label)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs mb-4">
+        {count && (
+          <label className="space-y-1">
+            <span className="block text-[10px] uppercase font-bold text-slate-400">{t(count.label)}</span>
+            <input
+              type="number"
+              min={1}
+              max={200}
+              step={1}
+              value={settings.count}
+              onChange={(e) => {
+                const v = parseInt(e.target.value, 10);
+                if (v >= 1) update({ count: Math.min(v, 200) });
+              }}
+              className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </label>
+        )}
+        {spacing && (
+          <label className="space-y-1">
+            <span className="block text-[10px] uppercase font-bold text-slate-400">{t(spacing.label)}</span>
+            <input
+              type="number"
+              min={0}
+              step={spacing.value}
+              value={settings.spacing}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (v > 0) update({ spacing: v });
+              }}
+              className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </label>
+        )}
+      </div>
+
+      <button
+        onClick={onSeed}
+        disabled={unavailable}
+        className="w-full py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold transition-all uppercase tracking-widest shadow-md active:scale-95 disabled:opacity-40"
+      >
+        <i className="fa-solid fa-wand-magic-sparkles mr-2"></i> {t('seeding.seed')}
+      </button>
+    </section>
+  );
+};
+
+export default SeedingControls;
@@ -0,0 +1,152 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  SavedSession, Session, SessionError, deleteSavedSession, loadSavedSessions, saveSession, sessionFromJson, sessionToHash, sessionToJson
+} from '../services/session';
+import { downloadFile } from '../services/exporters';
+import { Message, message as textMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SessionPanelProps {
+  session: Session;
+  // Fallbacks for fields missing from imported or saved sessions
+  defaults: Session;
+  onLoad: (session: Session) => void;
+  // Problems reading the link the page was opened with
+  linkError: Message | null;
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ session, defaults, onLoad, linkError }) => {
+  const [saved, setSaved] = useState<SavedSession[]>([]);
+  const [name, setName] = useState('');
+  const { t } = useI18n();
+  // Kept as a message so it follows a change of language
+  const [message, setMessage] = useState<{ text: Message; error: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // localStorage is only touched in the browser
+  useEffect(() => setSaved(loadSavedSessions(defaults)), [defaults]);
+
+  const report = (e: unknown) => {
+    if (e instanceof SessionError) setMessage({ text: e.detail, error: true });
+    else throw e;
+  };
+
+  const copyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${sessionToHash(session)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage({ text: textMessage('session.copied'), error: false });
+    } catch {
+      // Clipboard access can be denied; the address bar holds the same link
+      setMessage({ text: textMessage('session.copy-manually'), error: false });
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      setSaved(saveSession(trimmed, session, defaults));
+      setMessage({ text: textMessage('session.saved', { name: trimmed }), error: false });
+      setName('');
+    } catch (e) {
+      report(e);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoad(sessionFromJson(await file.text(), defaults));
+      setMessage({ text: textMessage('session.loaded', { file: file.name }), error: false });
+    } catch (err) {
+      report(err);
+    }
+  };
+
+  const shownMessage = message ?? (linkError ? { text: linkError, error: true } : null);
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-floppy-disk text-slate-500"></i> {t('session.title')}
+      </h2>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {[
+          { icon: 'fa-link', label: t('session.copy-link'), action: copyLink },
+          { icon: 'fa-file-export', label: t('session.export'), action: () => downloadFile(sessionToJson(session), 'phaseflow-session.json', 'application/json') },
+          { icon: 'fa-file-import', label: t('session.import'), action: () => fileInput.current?.click() }
+        ].map(b => (
+          <button
+            key={b.label}
+            onClick={b.action}
+            className="py-1.5 bg-slate-100 hover:bg-slate-200 rounded-md text-[10px] font-bold uppercase tracking-wider text-slate-600 transition-all"
+          >
+            <i className={`fa-solid ${b.icon} mr-1`}></i>{b.label}
+          </button>
+        ))}
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder={t('session.name')}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-1.5 bg-slate-800 hover:bg-slate-900 disabled:opacity-40 text-white rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all"
+        >
+          {t('session.save')}
+        </button>
+      </div>
+
+      {saved.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {saved.map(s => (
+            <li key={s.name} className="flex items-center gap-2 px-2 py-1 rounded border border-slate-100 bg-slate-50 text-xs">
+              <button onClick={() => onLoad(s.session)} className="flex-1 min-w-0 text-left font-bold text-slate-700 hover:text-blue-600 truncate" title={t('session.load')}>
+                {s.name}
+              </button>
+              <span className="text-[9px] text-slate-400 font-mono shrink-0">{s.savedAt.slice(0, 10)}</span>
+              <button
+                onClick={() => {
+                  try {
+                    setSaved(deleteSavedSession(s.name, defaults));
+                  } catch (e) {
+                    report(e);
+                  }
+                }}
+                title={t('session.delete')}
+                className="text-slate-300 hover:text-rose-500 transition-colors"
+              >
+                <i className="fa-solid fa-trash-can text-[10px]"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {shownMessage && (
+        <div className={`text-[10px] font-semibold ${shownMessage.error ? 'text-rose-500' : 'text-emerald-600'}`}>
+          {shownMessage.error && <i className="fa-solid fa-circle-exclamation mr-1"></i>}
+          {t(shownMessage.text)}
+        </div>
+      )}
+      <p className="mt-2 text-[10px] text-slate-400 leading-snug">
+        {t('session.hint')}
+      </p>
+    </section>
+  );
+};
+
+export default SessionPanel;
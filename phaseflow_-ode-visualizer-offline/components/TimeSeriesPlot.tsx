@@ -0,0 +1,166 @@
+
+import React, { useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { EquilibriumAnalysis, TimedPoint, Trajectory } from '../types';
+import { pointAtTime } from '../services/odeSolver';
+import { useElementWidth } from '../hooks/useElementWidth';
+import { useI18n } from '../hooks/useI18n';
+
+interface TimeSeriesPlotProps {
+  trajectories: Trajectory[];
+  // Linear analysis, used to annotate period and decay rates; null for nonlinear systems
+  analysis: EquilibriumAnalysis | null;
+  // Orbits of a map, plotted as iterates against n
+  discrete?: boolean;
+  // Names of the two state variables
+  axisLabels?: [string, string];
+  hoverTime: number | null;
+  onHoverTime: (t: number | null) => void;
+}
+
+const PLOT_HEIGHT = 130;
+const MARGIN = { top: 12, right: 16, bottom: 22, left: 44 };
+
+const TimeSeriesPlot: React.FC<TimeSeriesPlotProps> = ({ trajectories, analysis, discrete = false, axisLabels = ['x', 'y'], hoverTime, onHoverTime }) => {
+  const { t, n } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const width = useElementWidth(containerRef, 600, 280);
+
+  const tExtent = useMemo(() => {
+    const all = trajectories.flatMap(t => t.points);
+    if (all.length === 0) return [-1, 1] as [number, number];
+    return [d3.min(all, p => p.t)!, d3.max(all, p => p.t)!] as [number, number];
+  }, [trajectories]);
+
+  const tScale = useMemo(
+    () => d3.scaleLinear().domain(tExtent).range([MARGIN.left, width - MARGIN.right]),
+    [tExtent, width]
+  );
+
+  const valueScale = (key: 'x' | 'y') => {
+    const all = trajectories.flatMap(t => t.points);
+    const lo = d3.min(all, p => p[key]) ?? -1;
+    const hi = d3.max(all, p => p[key]) ?? 1;
+    const pad = Math.max((hi - lo) * 0.05, 1e-3);
+    return d3.scaleLinear().domain([lo - pad, hi + pad]).range([PLOT_HEIGHT - MARGIN.bottom, MARGIN.top]).nice();
+  };
+
+  const handleMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const sx = ((e.clientX - rect.left) * width) / rect.width;
+    if (sx < MARGIN.left || sx > width - MARGIN.right) {
+      onHoverTime(null);
+      return;
+    }
+    // Iterates only exist at whole n
+    onHoverTime(discrete ? Math.round(tScale.invert(sx)) : tScale.invert(sx));
+  };
+
+  // Period and rates that can be read off the eigenvalues
+  const notes: string[] = [];
+  if (analysis && discrete) {
+    const [l1, l2] = analysis.eigenvalues;
+    if (l1.im !== 0) {
+      notes.push(t('time-series.turn', { value: n(Math.abs(Math.atan2(l1.im, l1.re)) * 180 / Math.PI, 1) }));
+      notes.push(t('time-series.scale', { value: n(Math.hypot(l1.re, l1.im), 3) }));
+    } else {
+      notes.push(t('time-series.ratios', { first: n(l1.re, 3), second: n(l2.re, 3) }));
+    }
+  } else if (analysis) {
+    const [l1, l2] = analysis.eigenvalues;
+    if (l1.im !== 0) {
+      notes.push(t('time-series.period', { value: n(2 * Math.PI / Math.abs(l1.im), 2) }));
+      notes.push(t('time-series.envelope', { value: n(l1.re, 2) }));
+    } else {
+      notes.push(t('time-series.rates', { first: n(l1.re, 2), second: n(l2.re, 2) }));
+      const slow = [l1.re, l2.re].filter(l => Math.abs(l) > 1e-9).map(l => 1 / Math.abs(l));
+      if (slow.length) notes.push(t('time-series.time-constants', { values: slow.map(v => n(v, 2)).join(t('format.separator')) }));
+    }
+  }
+
+  const renderPlot = (key: 'x' | 'y') => {
+    const yScale = valueScale(key);
+    const line = d3.line<TimedPoint>().x(p => tScale(p.t)).y(p => yScale(p[key]));
+    return (
+      <svg
+        key={key}
+        width={width}
+        height={PLOT_HEIGHT}
+        viewBox={`0 0 ${width} ${PLOT_HEIGHT}`}
+        onPointerMove={handleMove}
+        onPointerLeave={() => onHoverTime(null)}
+        className="block cursor-col-resize"
+      >
+        <g fontSize="9" fill="#94a3b8" fontFamily="ui-monospace, monospace">
+          {yScale.ticks(4).map(v => (
+            <g key={`v-${v}`}>
+              <line x1={MARGIN.left} x2={width - MARGIN.right} y1={yScale(v)} y2={yScale(v)} stroke="#e2e8f0" />
+              <text x={MARGIN.left - 6} y={yScale(v) + 3} textAnchor="end">{n(v)}</text>
+            </g>
+          ))}
+          {tScale.ticks(8).map(time => (
+            <text key={`t-${time}`} x={tScale(time)} y={PLOT_HEIGHT - 6} textAnchor="middle">{n(time)}</text>
+          ))}
+        </g>
+        {tExtent[0] < 0 && tExtent[1] > 0 && (
+          <line x1={tScale(0)} x2={tScale(0)} y1={MARGIN.top} y2={PLOT_HEIGHT - MARGIN.bottom} stroke="#cbd5e1" strokeDasharray="2,2" />
+        )}
+        <text x={MARGIN.left + 4} y={MARGIN.top + 8} fontSize="10" fontWeight="700" fill="#64748b">{axisLabels[key === 'x' ? 0 : 1]}(t)</text>
+
+        {discrete ? trajectories.map(traj => (
+          <g key={traj.id}>
+            <path d={line(traj.points) || ''} fill="none" stroke={traj.color} strokeWidth="0.75" opacity="0.4" />
+            {traj.points.map(p => <circle key={p.t} cx={tScale(p.t)} cy={yScale(p[key])} r="2" fill={traj.color} />)}
+          </g>
+        )) : trajectories.map(traj => (
+          <path
+            key={traj.id}
+            d={line(traj.points) || ''}
+            fill="none"
+            stroke={traj.color}
+            strokeWidth={traj.comparison ? 1.25 : 1.75}
+            strokeDasharray={traj.comparison ? '5,3' : undefined}
+          />
+        ))}
+
+        {hoverTime !== null && (
+          <g pointerEvents="none">
+            <line x1={tScale(hoverTime)} x2={tScale(hoverTime)} y1={MARGIN.top} y2={PLOT_HEIGHT - MARGIN.bottom} stroke="#334155" strokeWidth="1" />
+            {trajectories.map(traj => {
+              const p = pointAtTime(traj.points, hoverTime);
+              return p && (
+                <circle key={traj.id} cx={tScale(hoverTime)} cy={yScale(p[key])} r="3.5" fill={traj.color} stroke="white" strokeWidth="1" />
+              );
+            })}
+          </g>
+        )}
+      </svg>
+    );
+  };
+
+  return (
+    <section ref={containerRef} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 pt-3">
+        <h2 className="text-sm font-black flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+          <i className="fa-solid fa-wave-square text-rose-500"></i> {t('time-series.title')}
+        </h2>
+        <div className="flex flex-wrap gap-3 text-[10px] font-mono text-slate-500">
+          {hoverTime !== null && (
+            <span className="font-bold text-slate-700">{discrete ? `n = ${hoverTime}` : `t = ${n(hoverTime, 2)}`}</span>
+          )}
+          {notes.map(note => <span key={note}>{note}</span>)}
+        </div>
+      </div>
+      {trajectories.length === 0 ? (
+        <p className="px-4 pb-4 pt-2 text-xs text-slate-400">{t('time-series.empty', { x: axisLabels[0], y: axisLabels[1] })}</p>
+      ) : (
+        <div className="pb-2">
+          {renderPlot('x')}
+          {renderPlot('y')}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TimeSeriesPlot;
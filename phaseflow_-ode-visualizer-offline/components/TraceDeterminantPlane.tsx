@@ -0,0 +1,176 @@
+
+import React, { useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Matrix2x2, EquilibriumAnalysis } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface TraceDeterminantPlaneProps {
+  matrix: Matrix2x2;
+  analysis: EquilibriumAnalysis;
+  // (τ, Δ) traced by a parameterized matrix as α sweeps its range
+  path?: [number, number][];
+  onChange: (matrix: Matrix2x2) => void;
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+const TAU_RANGE: [number, number] = [-6, 6];
+const DELTA_RANGE: [number, number] = [-4, 9];
+
+/**
+ * A matrix with the requested trace and determinant that stays close to `current`:
+ * a − d and b are kept and c is solved for (or b, when b = 0), so dragging changes the
+ * portrait continuously across the bifurcation boundaries.
+ */
+const matrixWithTraceDet = (current: Matrix2x2, tau: number, delta: number): Matrix2x2 => {
+  const half = (current.a - current.d) / 2;
+  const a = tau / 2 + half;
+  const d = tau / 2 - half;
+  // det = ad − bc  =>  bc = τ²/4 − half² − Δ
+  const bc = (tau * tau) / 4 - half * half - delta;
+  if (Math.abs(current.b) > 1e-9) return { a, b: current.b, c: bc / current.b, d };
+  if (Math.abs(current.c) > 1e-9) return { a, b: bc / current.c, c: current.c, d };
+  return { a, b: 1, c: bc, d };
+};
+
+const REGION_LABELS: { label: MessageKey; tau: number; delta: number }[] = [
+  { label: 'trace-det.saddle', tau: 0, delta: -2 },
+  { label: 'trace-det.spiral-sink', tau: -2, delta: 5.5 },
+  { label: 'trace-det.spiral-source', tau: 2, delta: 5.5 },
+  { label: 'trace-det.sink', tau: -4.6, delta: 2 },
+  { label: 'trace-det.source', tau: 4.6, delta: 2 }
+];
+
+const TraceDeterminantPlane: React.FC<TraceDeterminantPlaneProps> = ({ matrix, analysis, path, onChange }) => {
+  const { t, n } = useI18n();
+  const width = 320;
+  const height = 260;
+  const margin = 24;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const tau = analysis.trace;
+  const delta = analysis.determinant;
+
+  const [tMin, tMax] = TAU_RANGE;
+  const [dMin, dMax] = DELTA_RANGE;
+  const xScale = useMemo(() => d3.scaleLinear().domain(TAU_RANGE).range([margin, width - margin]).clamp(true), []);
+  const yScale = useMemo(() => d3.scaleLinear().domain(DELTA_RANGE).range([height - margin, margin]).clamp(true), []);
+  const outside = tau < tMin || tau > tMax || delta < dMin || delta > dMax;
+
+  const parabola = useMemo(() => {
+    const pts: [number, number][] = [];
+    for (let i = 0; i <= 80; i++) {
+      const t = tMin + ((tMax - tMin) * i) / 80;
+      pts.push([t, (t * t) / 4]);
+    }
+    return pts;
+  }, []);
+
+  const toPath = (pts: [number, number][]) =>
+    d3.line<[number, number]>().x(p => xScale(p[0])).y(p => yScale(Math.min(p[1], dMax)))(pts) || '';
+
+  // Spirals above the parabola, nodes between it and the τ-axis
+  const spiralRegion = `${toPath(parabola)} L ${xScale(tMax)} ${yScale(dMax)} L ${xScale(tMin)} ${yScale(dMax)} Z`;
+  const nodeRegion = `${toPath(parabola)} L ${xScale(tMax)} ${yScale(0)} L ${xScale(tMin)} ${yScale(0)} Z`;
+
+  const pick = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    // The SVG may be scaled down to fit the column
+    const sx = ((e.clientX - rect.left) * width) / rect.width;
+    const sy = ((e.clientY - rect.top) * height) / rect.height;
+    let t = xScale.invert(sx);
+    let d = yScale.invert(sy);
+
+    // Snap to the boundaries, which are measure-zero and otherwise impossible to hit by hand
+    const snapPx = 6;
+    if (Math.abs(sx - xScale(0)) < snapPx && d > 0) t = 0;
+    if (Math.abs(sy - yScale(0)) < snapPx) d = 0;
+    if (Math.abs(sy - yScale((t * t) / 4)) < snapPx) d = (t * t) / 4;
+
+    const m = matrixWithTraceDet(matrix, t, d);
+    onChange({ a: round2(m.a), b: round2(m.b), c: round2(m.c), d: round2(m.d) });
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-chart-area text-sky-500"></i> {t('trace-det.title')}
+      </h2>
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        className={`block mx-auto max-w-full touch-none ${dragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragging(true);
+          pick(e);
+        }}
+        onPointerMove={(e) => dragging && pick(e)}
+        onPointerUp={() => setDragging(false)}
+        onPointerCancel={() => setDragging(false)}
+      >
+        <rect x={margin} y={yScale(0)} width={width - 2 * margin} height={yScale(dMin) - yScale(0)} fill="#ffe4e6" opacity="0.6" />
+        <path d={nodeRegion} fill="#dcfce7" opacity="0.6" />
+        <path d={spiralRegion} fill="#e0f2fe" opacity="0.6" />
+
+        <line x1={margin} y1={yScale(0)} x2={width - margin} y2={yScale(0)} stroke="#64748b" strokeWidth="1.5" />
+        <line x1={xScale(0)} y1={margin} x2={xScale(0)} y2={height - margin} stroke="#94a3b8" strokeWidth="1" />
+        {/* Centers: the positive Δ-axis */}
+        <line x1={xScale(0)} y1={yScale(0)} x2={xScale(0)} y2={margin} stroke="#0ea5e9" strokeWidth="2.5" />
+        <path d={toPath(parabola)} fill="none" stroke="#7c3aed" strokeWidth="2" />
+
+        {REGION_LABELS.map(r => (
+          <text key={r.label} x={xScale(r.tau)} y={yScale(r.delta)} textAnchor="middle" fontSize="9" fontWeight="700" fill="#475569">
+            {t(r.label)}
+          </text>
+        ))}
+        <text x={xScale(0) + 4} y={margin + 10} fontSize="9" fontWeight="700" fill="#0284c7">{t('trace-det.centers')}</text>
+        <text x={xScale(tMax) - 4} y={yScale((tMax * tMax) / 4 > dMax ? dMax : (tMax * tMax) / 4) + 12} textAnchor="end" fontSize="9" fontWeight="700" fill="#7c3aed">
+          τ² = 4Δ
+        </text>
+        <text x={width - margin} y={yScale(0) - 4} textAnchor="end" fontSize="9" fontWeight="700" fill="#64748b">{t('trace-det.degenerate')} (Δ = 0)</text>
+        <text x={width - margin + 10} y={yScale(0) + 3} fontSize="10" fill="#64748b">τ</text>
+        <text x={xScale(0) - 3} y={margin - 8} textAnchor="end" fontSize="10" fill="#64748b">Δ</text>
+
+        {path && (
+          <path
+            d={d3.line<[number, number]>()
+              .defined(p => p[0] >= tMin && p[0] <= tMax && p[1] >= dMin && p[1] <= dMax)
+              .x(p => xScale(p[0])).y(p => yScale(p[1]))(path) || ''}
+            fill="none"
+            stroke="#2563eb"
+            strokeWidth="1.5"
+            strokeDasharray="3,3"
+            opacity="0.7"
+          />
+        )}
+
+        <circle
+          cx={xScale(tau)}
+          cy={yScale(delta)}
+          r={dragging ? 8 : 6}
+          fill={outside ? 'white' : '#2563eb'}
+          stroke={outside ? '#2563eb' : 'white'}
+          strokeWidth="2"
+          className="transition-[r]"
+        />
+      </svg>
+      <div className="mt-2 flex justify-between font-mono text-[10px] text-slate-500">
+        <span>τ = {n(tau, 2)}</span>
+        <span>Δ = {n(delta, 2)}</span>
+        <span>τ² − 4Δ = {n(analysis.discriminant, 2)}</span>
+      </div>
+      <p className="mt-2 text-[10px] text-slate-400 leading-snug">
+        {t('trace-det.hint')}
+        {path && ` ${t('trace-det.path')}`}
+        {outside && ` ${t('trace-det.outside')}`}
+      </p>
+    </section>
+  );
+};
+
+export default TraceDeterminantPlane;
@@ -0,0 +1,114 @@
+
+import React, { useEffect, useState } from 'react';
+import * as d3 from 'd3';
+import { TimeSpan, Trajectory } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+export type TrajectoryChanges = Partial<Pick<Trajectory, 'name' | 'color' | 'hidden' | 'initial' | 'span'>>;
+
+interface TrajectoryPanelProps {
+  // Comparison trajectories are not listed; they follow their parent
+  trajectories: Trajectory[];
+  // Span used by trajectories without their own
+  defaultSpan: TimeSpan;
+  // Spans count iterates, so they are whole numbers
+  discrete: boolean;
+  onChange: (id: string, changes: TrajectoryChanges) => void;
+  onDelete: (id: string) => void;
+}
+
+const show = (v: number) => String(+v.toFixed(6));
+
+/**
+ * A number typed in exactly, committed on Enter or blur; invalid input reverts.
+ */
+const NumberInput: React.FC<{ value: number; onCommit: (v: number) => void; min?: number; title: string }> = ({ value, onCommit, min, title }) => {
+  const [draft, setDraft] = useState(show(value));
+
+  // Follows drags on the portrait and edits elsewhere
+  useEffect(() => setDraft(show(value)), [value]);
+
+  const commit = () => {
+    const v = parseFloat(draft);
+    if (Number.isFinite(v) && (min === undefined || v >= min)) onCommit(v);
+    else setDraft(show(value));
+  };
+
+  return (
+    <input
+      value={draft}
+      title={title}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="w-full min-w-0 px-1.5 py-1 border border-slate-200 rounded font-mono text-[10px] text-slate-700 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+    />
+  );
+};
+
+const TrajectoryPanel: React.FC<TrajectoryPanelProps> = ({ trajectories, defaultSpan, discrete, onChange, onDelete }) => {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const listed = trajectories.filter(traj => !traj.comparison);
+  const whole = (v: number) => (discrete ? Math.round(v) : v);
+
+  return (
+    <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-sm font-black mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+        <i className="fa-solid fa-route text-blue-500"></i> {t('trajectories.title', { count: listed.length })}
+      </h2>
+
+      {listed.length === 0 ? (
+        <p className="text-xs text-slate-400 leading-snug">{t('trajectories.empty')}</p>
+      ) : (
+        <ul className="space-y-1.5 max-h-80 overflow-y-auto text-xs">
+          {listed.map(traj => {
+            const span = traj.span ?? defaultSpan;
+            return (
+              <li key={traj.id} className={`rounded-lg border border-slate-100 ${traj.hidden ? 'opacity-50' : ''}`}>
+                <div className="flex items-center gap-1.5 p-1.5">
+                  <input
+                    type="color"
+                    value={d3.color(traj.color)?.formatHex() ?? '#000000'}
+                    onChange={(e) => onChange(traj.id, { color: e.target.value })}
+                    title={t('trajectories.colour')}
+                    className="w-5 h-5 shrink-0 rounded cursor-pointer border-0 p-0 bg-transparent"
+                  />
+                  <input
+                    value={traj.name ?? ''}
+                    onChange={(e) => onChange(traj.id, { name: e.target.value })}
+                    spellCheck={false}
+                    className="flex-1 min-w-0 px-1.5 py-0.5 rounded font-semibold text-slate-700 bg-transparent hover:bg-slate-50 focus:bg-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  />
+                  {[
+                    { icon: traj.hidden ? 'fa-eye-slash' : 'fa-eye', title: t(traj.hidden ? 'trajectories.show' : 'trajectories.hide'), action: () => onChange(traj.id, { hidden: !traj.hidden }) },
+                    { icon: 'fa-sliders', title: t('trajectories.edit'), action: () => setExpanded(e => (e === traj.id ? null : traj.id)) },
+                    { icon: 'fa-trash-can', title: t('trajectories.delete'), action: () => onDelete(traj.id) }
+                  ].map(b => (
+                    <button key={b.icon} onClick={b.action} title={b.title} className="w-6 h-6 shrink-0 rounded text-slate-400 hover:text-blue-600 hover:bg-slate-100 transition-all">
+                      <i className={`fa-solid ${b.icon} text-[10px]`}></i>
+                    </button>
+                  ))}
+                </div>
+                {expanded === traj.id && (
+                  <div className="grid grid-cols-2 gap-x-2 gap-y-1 px-2 pb-2 text-[10px] font-bold text-slate-400">
+                    <span>x₀</span>
+                    <span>y₀</span>
+                    <NumberInput title={t('trajectories.initial-x')} value={traj.initial.x} onCommit={(x) => onChange(traj.id, { initial: { ...traj.initial, x } })} />
+                    <NumberInput title={t('trajectories.initial-y')} value={traj.initial.y} onCommit={(y) => onChange(traj.id, { initial: { ...traj.initial, y } })} />
+                    <span>{t(discrete ? 'trajectories.iterates-forward' : 'trajectories.time-forward')}</span>
+                    <span>{t(discrete ? 'trajectories.iterates-backward' : 'trajectories.time-backward')}</span>
+                    <NumberInput title={t('trajectories.forward-span')} min={0} value={span.forward} onCommit={(v) => onChange(traj.id, { span: { ...span, forward: whole(v) } })} />
+                    <NumberInput title={t('trajectories.backward-span')} min={0} value={span.backward} onCommit={(v) => onChange(traj.id, { span: { ...span, backward: whole(v) } })} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default TrajectoryPanel;
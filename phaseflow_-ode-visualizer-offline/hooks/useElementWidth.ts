@@ -0,0 +1,19 @@
+
+import { RefObject, useEffect, useState } from 'react';
+
+/**
+ * Tracks the content width of an element, for SVG plots that fill their column.
+ */
+export const useElementWidth = (ref: RefObject<HTMLElement | null>, initial: number, min: number = 0): number => {
+  const [width, setWidth] = useState(initial);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.max(min, Math.floor(entries[0].contentRect.width))));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref, min]);
+
+  return width;
+};
@@ -0,0 +1,37 @@
+
+import { useEffect, useMemo, useState } from 'react';
+import { Bounds, FieldSpec, VectorField } from '../types';
+import { FieldGrid, sampleFieldGrid } from '../services/nullclines';
+import { getEngine } from '../services/engine';
+
+/**
+ * `sampleFieldGrid` of the field, or null when disabled. With a `spec` and a worker the
+ * sampling runs in the background: the previous grid (which carries its own bounds) stays
+ * up until the new one arrives, and a newer request cancels an outstanding one.
+ */
+export const useFieldGrid = (
+  field: VectorField,
+  spec: FieldSpec | undefined,
+  bounds: Bounds,
+  nx: number,
+  ny: number,
+  t: number,
+  enabled: boolean
+): FieldGrid | null => {
+  const background = spec !== undefined && getEngine().threaded;
+
+  const local = useMemo(
+    () => (enabled && !background ? sampleFieldGrid(field, bounds, nx, ny, t) : null),
+    [enabled, background, field, bounds, nx, ny, t]
+  );
+
+  const [sampled, setSampled] = useState<FieldGrid | null>(null);
+  useEffect(() => {
+    if (!enabled || !background) return;
+    const job = getEngine().run({ kind: 'sample', spec: spec!, bounds, nx, ny, t }, setSampled);
+    return job.cancel;
+  }, [enabled, background, spec, bounds, nx, ny, t]);
+
+  if (!enabled) return null;
+  return background ? sampled : local;
+};
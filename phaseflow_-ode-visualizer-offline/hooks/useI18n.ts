@@ -0,0 +1,11 @@
+
+import { createContext, useContext } from 'react';
+import { createI18n, I18n } from '../services/i18n';
+
+/**
+ * The interface language, provided by the app. Without a provider (the figure renderer)
+ * everything is in English.
+ */
+export const I18nContext = createContext<I18n>(createI18n('en'));
+
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,129 @@
+
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { Bounds, Point, VectorField } from '../types';
+import { Particle, advanceParticles, seedParticles } from '../services/particles';
+
+export interface ParticleFlowOptions {
+  field: VectorField;
+  // Start time of non-autonomous fields
+  fieldTime: number;
+  viewport: Bounds;
+  xScale: d3.ScaleLinear<number, number>;
+  yScale: d3.ScaleLinear<number, number>;
+  width: number;
+  height: number;
+  margin: number;
+  active: boolean;
+  playing: boolean;
+  // System time advanced per second of animation
+  speed: number;
+  count: number;
+  // Seeding region; null spreads the particles over the whole view
+  blob: Point[] | null;
+  // Bump to reseed without changing anything else
+  seedKey: number;
+}
+
+// Fraction of the tails erased every frame; smaller values give longer tails
+const FADE = 0.08;
+// Animation seconds covered by a single step while paused
+const STEP_SECONDS = 1 / 30;
+
+/**
+ * Animates particles carried by the field on a canvas, outside React's render cycle so
+ * that hundreds of them stay at 60 fps. Returns a function that advances one frame.
+ */
+export const useParticleFlow = (canvasRef: RefObject<HTMLCanvasElement | null>, options: ParticleFlowOptions) => {
+  const particles = useRef<Particle[]>([]);
+  const time = useRef(0);
+  const latest = useRef(options);
+  latest.current = options;
+
+  const { active, playing, count, blob, seedKey, fieldTime, viewport, width, height } = options;
+
+  const context = () => {
+    const canvas = canvasRef.current;
+    return canvas ? canvas.getContext('2d') : null;
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    context()?.clearRect(0, 0, canvas?.width ?? 0, canvas?.height ?? 0);
+  };
+
+  const frame = useCallback((seconds: number) => {
+    const ctx = context();
+    if (!ctx) return;
+    const o = latest.current;
+    const w = o.viewport.xMax - o.viewport.xMin;
+    const h = o.viewport.yMax - o.viewport.yMin;
+    const escape = { xMin: o.viewport.xMin - w, xMax: o.viewport.xMax + w, yMin: o.viewport.yMin - h, yMax: o.viewport.yMax + h };
+
+    const before = particles.current.map(p => ({ x: p.x, y: p.y }));
+    const dt = o.speed * seconds;
+    advanceParticles(particles.current, o.field, time.current, dt, seconds, o.viewport, escape);
+    time.current += dt;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    // Erase a little of everything drawn so far, leaving fading tails
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fillStyle = `rgba(0, 0, 0, ${FADE})`;
+    ctx.fillRect(0, 0, o.width, o.height);
+    ctx.globalCompositeOperation = 'source-over';
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(o.margin, o.margin, o.width - 2 * o.margin, o.height - 2 * o.margin);
+    ctx.clip();
+    ctx.strokeStyle = o.blob ? 'rgba(219, 39, 119, 0.85)' : 'rgba(37, 99, 235, 0.75)';
+    ctx.lineWidth = 1.5;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    particles.current.forEach((p, i) => {
+      // Respawned particles start a new tail
+      if (p.age === 0) return;
+      ctx.moveTo(o.xScale(before[i].x), o.yScale(before[i].y));
+      ctx.lineTo(o.xScale(p.x), o.yScale(p.y));
+    });
+    ctx.stroke();
+    ctx.restore();
+    // canvasRef is stable
+  }, []);
+
+  // Match the backing store to the device pixel ratio so tails stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }, [canvasRef, width, height]);
+
+  useEffect(() => {
+    particles.current = active ? seedParticles(count, latest.current.viewport, blob) : [];
+    time.current = fieldTime;
+    clear();
+    // A changed field (e.g. while α animates) just carries the particles on; it doesn't reseed
+  }, [active, count, blob, seedKey, fieldTime]);
+
+  // Tails drawn in the old coordinates would smear after a pan or zoom
+  useEffect(clear, [viewport, width, height]);
+
+  useEffect(() => {
+    if (!active || !playing) return;
+    let handle = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      // Cap long gaps (background tabs) so particles don't jump
+      frame(Math.min((now - last) / 1000, 0.05));
+      last = now;
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [active, playing, frame]);
+
+  return useCallback(() => frame(STEP_SECONDS), [frame]);
+};
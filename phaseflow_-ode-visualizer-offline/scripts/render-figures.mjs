@@ -0,0 +1,22 @@
+
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+// Loads the renderer through Vite's SSR module loader, so it runs on the app's own
+// TypeScript and JSX setup with no separate build step and no network access
+const server = await createServer({
+  root: fileURLToPath(new URL('..', import.meta.url)),
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, ws: false }
+});
+
+try {
+  const { main } = await server.ssrLoadModule('/scripts/renderFigures.tsx');
+  await main(process.argv.slice(2));
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,67 @@
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { parse as parseYaml } from 'yaml';
+import PhasePortrait from '../components/PhasePortrait';
+import { analyzeMatrix } from '../services/odeSolver';
+import { analyzeMap } from '../services/discreteMap';
+import { affineEquilibrium } from '../services/forcing';
+import { linearField } from '../services/vectorField';
+import { buildMetadata, ExportMetadata, metadataLines, standaloneSvg } from '../services/exporters';
+import { figureEquations, FigureSpec, parseFigureSpecs, traceFigure } from '../services/figures';
+
+const ORIGIN = { x: 0, y: 0 };
+
+/**
+ * Renders one figure with the app's own `PhasePortrait`, at its default 600 × 600 size.
+ */
+const renderFigure = (spec: FigureSpec): { svg: string; meta: ExportMetadata } => {
+  const { matrix, discrete } = spec;
+  const analysis = discrete ? analyzeMap(matrix) : analyzeMatrix(matrix);
+  // The fixed points of a map solve (A − I)x = 0
+  const equilibrium = discrete
+    ? affineEquilibrium({ ...matrix, a: matrix.a - 1, d: matrix.d - 1 }, ORIGIN)
+    : affineEquilibrium(matrix, ORIGIN);
+  const meta = buildMetadata({ equations: figureEquations(spec), matrix, analysis, viewport: spec.viewport, axisLabels: spec.axisLabels });
+
+  const markup = renderToStaticMarkup(
+    <PhasePortrait
+      field={linearField(matrix)}
+      trajectories={traceFigure(spec)}
+      analysis={spec.eigenlines ? analysis : null}
+      affineEquilibrium={spec.equilibrium ? equilibrium : null}
+      viewport={spec.viewport}
+      discrete={discrete}
+      hideField={!spec.directionField}
+      axisLabels={spec.axisLabels}
+      onViewportChange={() => {}}
+      onAddTrajectory={() => {}}
+    />
+  );
+  return { svg: standaloneSvg(markup, meta), meta };
+};
+
+/**
+ * Reads a JSON or YAML spec file and writes one SVG per figure to `outDir`, plus
+ * answer-key.md with each system's equations, eigenvalues and classification.
+ */
+export const main = async ([specPath, outDir = 'figures']: string[]) => {
+  if (!specPath) throw new Error('Usage: npm run figures -- <spec.json | spec.yaml> [out-dir]');
+  const source = await readFile(specPath, 'utf8');
+  const figures = parseFigureSpecs(/\.ya?ml$/i.test(specPath) ? parseYaml(source) : JSON.parse(source));
+
+  await mkdir(outDir, { recursive: true });
+  const key = [`# Answer key for ${path.basename(specPath)}`, ''];
+  for (const spec of figures) {
+    const { svg, meta } = renderFigure(spec);
+    const file = path.join(outDir, `${spec.name}.svg`);
+    await writeFile(file, svg);
+    // The first metadata line is the export stamp
+    key.push(`## ${spec.name}`, '', ...metadataLines(meta).slice(1).map(line => `- ${line}`), '');
+    console.log(`Wrote ${file}`);
+  }
+  const keyFile = path.join(outDir, 'answer-key.md');
+  await writeFile(keyFile, key.join('\n'));
+  console.log(`Wrote ${keyFile}`);
+};
@@ -0,0 +1,86 @@
+
+import { AffineEquilibrium, Matrix2x2, Point, Trajectory } from '../types';
+import { closedForm, SolutionCase } from './matrixExponential';
+
+/**
+ * Real canonical form J = P⁻¹AP. The columns of P are the new basis, taken from the
+ * eigenvectors `analyzeMatrix` reports (via `closedForm`):
+ *   distinct:  P = [v₁ v₂],         J = diag(λ₁, λ₂)
+ *   complex:   P = [Re v, −Im v],   J = [[α, −β], [β, α]] for λ = α + iβ, β > 0
+ *   defective: P = [v w],           J = [[λ, 1], [0, λ]] with (A − λI)w = v
+ *   scalar:    P = I,               J = A = λI
+ */
+export interface CanonicalForm {
+  kind: SolutionCase;
+  P: Matrix2x2;
+  inverse: Matrix2x2;
+  J: Matrix2x2;
+}
+
+const IDENTITY: Matrix2x2 = { a: 1, b: 0, c: 0, d: 1 };
+
+const invert = (m: Matrix2x2): Matrix2x2 => {
+  const det = m.a * m.d - m.b * m.c;
+  return { a: m.d / det, b: -m.b / det, c: -m.c / det, d: m.a / det };
+};
+
+const columns = (u: Point, v: Point): Matrix2x2 => ({ a: u.x, b: v.x, c: u.y, d: v.y });
+
+export const applyMatrix = (m: Matrix2x2, p: Point): Point => ({ x: m.a * p.x + m.b * p.y, y: m.c * p.x + m.d * p.y });
+
+export const canonicalForm = (m: Matrix2x2): CanonicalForm => {
+  const cf = closedForm(m);
+  let P: Matrix2x2;
+  let J: Matrix2x2;
+  switch (cf.kind) {
+    case 'distinct':
+      P = columns(cf.vectors![0], cf.vectors![1]);
+      J = { a: cf.eigenvalues![0], b: 0, c: 0, d: cf.eigenvalues![1] };
+      break;
+    case 'complex':
+      P = columns(cf.vectors![0], { x: -cf.vectors![1].x, y: -cf.vectors![1].y });
+      J = { a: cf.s, b: -cf.omega, c: cf.omega, d: cf.s };
+      break;
+    case 'defective':
+      P = columns(cf.vectors![0], cf.vectors![1]);
+      J = { a: cf.s, b: 1, c: 0, d: cf.s };
+      break;
+    case 'scalar':
+      P = IDENTITY;
+      J = { a: cf.s, b: 0, c: 0, d: cf.s };
+      break;
+  }
+  return { kind: cf.kind, P, inverse: invert(P), J };
+};
+
+/**
+ * A trajectory in canonical coordinates u = P⁻¹(x − x*), about the equilibrium x*.
+ * Times are kept, so the hover cursor matches points across the two portraits.
+ */
+export const toCanonical = (traj: Trajectory, form: CanonicalForm, shift: Point): Trajectory => {
+  const map = (p: Point) => applyMatrix(form.inverse, { x: p.x - shift.x, y: p.y - shift.y });
+  return {
+    ...traj,
+    initial: map(traj.initial),
+    points: traj.points.map(p => ({ ...map(p), t: p.t }))
+  };
+};
+
+/**
+ * The point x = x* + Pu with canonical coordinates u.
+ */
+export const fromCanonical = (u: Point, form: CanonicalForm, shift: Point): Point => {
+  const p = applyMatrix(form.P, u);
+  return { x: p.x + shift.x, y: p.y + shift.y };
+};
+
+/**
+ * The equilibrium set in canonical coordinates: x* itself goes to the origin, and a line
+ * of equilibria to the line through it along P⁻¹d.
+ */
+export const equilibriumToCanonical = (eq: AffineEquilibrium, form: CanonicalForm): AffineEquilibrium => {
+  if (eq.kind !== 'line') return eq.kind === 'point' ? { kind: 'point', point: { x: 0, y: 0 } } : eq;
+  const d = applyMatrix(form.inverse, eq.direction);
+  const n = Math.hypot(d.x, d.y);
+  return { kind: 'line', point: { x: 0, y: 0 }, direction: { x: d.x / n, y: d.y / n } };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { eigenDerivation } from './derivation';
+import { createI18n } from './i18n';
+import { analyzeMatrix } from './odeSolver';
+
+const i18n = createI18n('en');
+
+// The prose of a derivation, with the formulas flattened to text
+const text = (m: Parameters<typeof analyzeMatrix>[0], tol?: number) =>
+  JSON.stringify(eigenDerivation(m, analyzeMatrix(m, tol), { exact: false, discrete: false, tol }, i18n));
+
+describe('eigenDerivation', () => {
+  it('reduces the rows the classification treats as zero, relative to the entries', () => {
+    // b is 1e-10 of the entries: a star, so every vector is an eigenvector
+    expect(text({ a: 1e6, b: 1e-4, c: 0, d: 1e6 })).toContain('every vector is an eigenvector');
+    // The same b beside unit entries makes an improper node, reduced by its first row
+    expect(text({ a: 1, b: 1e-4, c: 0, d: 1 })).not.toContain('every vector is an eigenvector');
+  });
+
+  it('follows the tolerance the analysis was made with', () => {
+    expect(text({ a: 1, b: 1e-6, c: 0, d: 1 })).not.toContain('every vector is an eigenvector');
+    expect(text({ a: 1, b: 1e-6, c: 0, d: 1 }, 1e-5)).toContain('every vector is an eigenvector');
+  });
+});
@@ -0,0 +1,361 @@
+
+import { ComplexNumber, EquilibriumAnalysis, EquilibriumKind, Matrix2x2 } from '../types';
+import { rationalApproximation } from './discreteMap';
+import { I18n } from './i18n';
+
+/**
+ * Typeset math, rendered by `Formula`: text, a sequence, a stacked fraction, a radical
+ * with its vinculum, or a bracketed matrix (a column vector is a matrix of 1-wide rows).
+ */
+export type MathNode =
+  | string
+  | MathNode[]
+  | { frac: [MathNode, MathNode] }
+  | { sqrt: MathNode }
+  | { matrix: MathNode[][] };
+
+export interface DerivationStep {
+  title: string;
+  lines: MathNode[];
+  // Prose accompanying the formulas, e.g. which branch a test selects
+  note?: string;
+}
+
+/**
+ * Arithmetic on the numbers that appear while solving for the eigenvalues: the entries,
+ * τ, Δ and everything built from them and √(τ² − 4Δ).
+ */
+interface Arithmetic<T> {
+  zero: T;
+  // Small integer constants
+  of: (n: number) => T;
+  add: (x: T, y: T) => T;
+  sub: (x: T, y: T) => T;
+  mul: (x: T, y: T) => T;
+  div: (x: T, y: T) => T;
+  neg: (x: T) => T;
+  isZero: (x: T) => boolean;
+  value: (x: T) => ComplexNumber;
+  render: (x: T) => MathNode;
+}
+
+interface Rational {
+  n: number;
+  d: number;
+}
+
+const gcd = (a: number, b: number): number => {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+};
+
+const rational = (n: number, d: number = 1): Rational => {
+  const g = gcd(n, d) || 1;
+  const s = d < 0 ? -1 : 1;
+  const r = { n: (s * n) / g || 0, d: (s * d) / g };
+  // Beyond 2^53 the integers themselves are no longer exact
+  if (!Number.isSafeInteger(r.n) || !Number.isSafeInteger(r.d)) throw new RangeError('Too large for exact arithmetic');
+  return r;
+};
+
+const radd = (x: Rational, y: Rational) => rational(x.n * y.d + y.n * x.d, x.d * y.d);
+const rmul = (x: Rational, y: Rational) => rational(x.n * y.n, x.d * y.d);
+const rneg = (x: Rational) => rational(-x.n, x.d);
+
+// Denominators accepted when recognising an entry as a fraction
+const MAX_DENOMINATOR = 1000;
+// Largest nd in √(n/d) that is simplified to k√R
+const MAX_RADICAND = 1e12;
+
+/**
+ * The entry as an exact fraction, if it is one with a small denominator.
+ */
+const toRational = (x: number): Rational | null => {
+  const fraction = rationalApproximation(x, MAX_DENOMINATOR, 1e-12 * Math.max(1, Math.abs(x)));
+  return fraction ? rational(fraction[0], fraction[1]) : null;
+};
+
+const minus = (v: number) => (v < 0 ? `−${-v}` : `${v}`);
+
+const renderRational = ({ n, d }: Rational): MathNode =>
+  d === 1 ? minus(n) : n < 0 ? ['−', { frac: [`${-n}`, `${d}`] }] : { frac: [`${n}`, `${d}`] };
+
+/**
+ * n = k²·r with r squarefree (and carrying the sign of n).
+ */
+const squarefree = (n: number): [number, number] => {
+  let k = 1;
+  let r = Math.abs(n);
+  for (let f = 2; f * f <= r; f++) {
+    while (r % (f * f) === 0) {
+      r /= f * f;
+      k *= f;
+    }
+  }
+  return [k, Math.sign(n) * r];
+};
+
+/**
+ * p + q√R, exactly: p and q are fractions and R is a fixed squarefree integer. A negative
+ * R stands for i√|R|, so complex eigenvalues stay in the same form.
+ */
+interface Surd {
+  p: Rational;
+  q: Rational;
+}
+
+const surdArithmetic = (R: number): Arithmetic<Surd> => {
+  // With R = 1 the root is rational: fold it in so the zero test stays exact
+  const surd = (p: Rational, q: Rational): Surd => (R === 1 ? { p: radd(p, q), q: rational(0) } : { p, q });
+  const mul = (x: Surd, y: Surd) => surd(
+    radd(rmul(x.p, y.p), rmul(rmul(x.q, y.q), rational(R))),
+    radd(rmul(x.p, y.q), rmul(x.q, y.p))
+  );
+  const root = R < 0 ? (R === -1 ? 'i' : `i√${-R}`) : `√${R}`;
+  return {
+    zero: surd(rational(0), rational(0)),
+    of: n => surd(rational(n), rational(0)),
+    add: (x, y) => surd(radd(x.p, y.p), radd(x.q, y.q)),
+    sub: (x, y) => surd(radd(x.p, rneg(y.p)), radd(x.q, rneg(y.q))),
+    mul,
+    div: (x, y) => {
+      // Multiply through by the conjugate p − q√R, leaving the rational p² − q²R below
+      const norm = radd(rmul(y.p, y.p), rneg(rmul(rmul(y.q, y.q), rational(R))));
+      const inverse = rational(norm.d, norm.n);
+      const z = mul(x, surd(y.p, rneg(y.q)));
+      return surd(rmul(z.p, inverse), rmul(z.q, inverse));
+    },
+    neg: x => surd(rneg(x.p), rneg(x.q)),
+    isZero: x => x.p.n === 0 && x.q.n === 0,
+    value: x => {
+      const p = x.p.n / x.p.d;
+      const q = x.q.n / x.q.d;
+      return R < 0 ? { re: p, im: q * Math.sqrt(-R) } : { re: p + q * Math.sqrt(R), im: 0 };
+    },
+    render: ({ p, q }) => {
+      if (q.n === 0) return renderRational(p);
+      // Over a common denominator: (A ± B√R)/L
+      const L = (p.d * q.d) / gcd(p.d, q.d);
+      const A = (p.n * L) / p.d;
+      const B = (q.n * L) / q.d;
+      const coefficient = Math.abs(B) === 1 ? '' : `${Math.abs(B)}`;
+      const top = A === 0
+        ? `${B < 0 ? '−' : ''}${coefficient}${root}`
+        : `${minus(A)} ${B < 0 ? '−' : '+'} ${coefficient}${root}`;
+      return L === 1 ? top : { frac: [top, `${L}`] };
+    }
+  };
+};
+
+// Decimals are written in the interface language
+const decimal = (v: number, n: I18n['n']) => {
+  const r = Math.abs(v) < 5e-4 ? 0 : +v.toFixed(3);
+  return r < 0 ? `−${n(-r)}` : n(r);
+};
+
+// Floating point. `zeroTol` is the tolerance `analyzeMatrix` gives quantities the size of the
+// entries (tol · max(1, |entries|)), so the eigenvector steps reduce the rows it reduces.
+const numericArithmetic = (n: I18n['n'], zeroTol: number): Arithmetic<ComplexNumber> => ({
+  zero: { re: 0, im: 0 },
+  of: n => ({ re: n, im: 0 }),
+  add: (x, y) => ({ re: x.re + y.re, im: x.im + y.im }),
+  sub: (x, y) => ({ re: x.re - y.re, im: x.im - y.im }),
+  mul: (x, y) => ({ re: x.re * y.re - x.im * y.im, im: x.re * y.im + x.im * y.re }),
+  div: (x, y) => {
+    const n = y.re * y.re + y.im * y.im;
+    return { re: (x.re * y.re + x.im * y.im) / n, im: (x.im * y.re - x.re * y.im) / n };
+  },
+  neg: x => ({ re: -x.re, im: -x.im }),
+  isZero: x => Math.hypot(x.re, x.im) <= zeroTol,
+  value: x => x,
+  render: x => {
+    if (Math.abs(x.im) < 5e-4) return decimal(x.re, n);
+    const im = `${Math.abs(x.im) === 1 ? '' : n(+Math.abs(x.im).toFixed(3))}i`;
+    return Math.abs(x.re) < 5e-4 ? `${x.im < 0 ? '−' : ''}${im}` : `${decimal(x.re, n)} ${x.im < 0 ? '−' : '+'} ${im}`;
+  }
+});
+
+const sub1 = ['₁', '₂'];
+
+/**
+ * The derivation itself, written once for both kinds of arithmetic. Each branch mirrors
+ * the one `analyzeMatrix` (or `analyzeMap`) and `getEigenvector` take.
+ */
+const derive = <T>(
+  F: Arithmetic<T>,
+  A: { a: T; b: T; c: T; d: T },
+  rootDisc: T,
+  analysis: EquilibriumAnalysis,
+  discrete: boolean,
+  { t, n }: I18n
+): DerivationStep[] => {
+  const { a, b, c, d } = A;
+  const r = F.render;
+  const sign = (x: T) => (F.isZero(x) ? 0 : Math.sign(F.value(x).re));
+  // Parenthesised when it would otherwise read as a subtraction
+  const factor = (x: T): MathNode => (F.value(x).re < 0 || F.value(x).im !== 0 ? ['(', r(x), ')'] : r(x));
+  // " + x" or " − |x|" after a preceding term
+  const plus = (x: T): MathNode => (F.value(x).re < 0 && F.value(x).im === 0 ? [' − ', r(F.neg(x))] : [' + ', r(x)]);
+
+  const tr = F.add(a, d);
+  const det = F.sub(F.mul(a, d), F.mul(b, c));
+  const disc = F.sub(F.mul(tr, tr), F.mul(F.of(4), det));
+  const two = F.of(2);
+  const lambdas = [F.div(F.add(tr, rootDisc), two), F.div(F.sub(tr, rootDisc), two)];
+  const complex = F.value(rootDisc).im !== 0;
+
+  const steps: DerivationStep[] = [];
+
+  // x − λ, or just −λ when x = 0
+  const shifted = (x: T): MathNode => (F.isZero(x) ? '−λ' : [r(x), ' − λ']);
+
+  const polynomial: MathNode[] = ['p(λ) = λ²'];
+  if (!F.isZero(tr)) {
+    // A unit coefficient is left implicit
+    const unit = F.isZero(F.sub(tr, F.of(1))) || F.isZero(F.add(tr, F.of(1)));
+    polynomial.push(unit ? (sign(tr) > 0 ? ' − ' : ' + ') : plus(F.neg(tr)), 'λ');
+  }
+  if (!F.isZero(det)) polynomial.push(plus(det));
+  steps.push({
+    title: t('derivation.characteristic'),
+    lines: [
+      ['det(A − λI) = det ', { matrix: [[shifted(a), r(b)], [r(c), shifted(d)]] }],
+      ['= (', shifted(a), ')(', shifted(d), ') − ', factor(b), '·', factor(c)],
+      [`= λ² − τλ + Δ, ${t('derivation.with')} τ = a + d = `, r(tr), ` ${t('derivation.and')} Δ = ad − bc = `, r(det)],
+      polynomial
+    ]
+  });
+
+  const discSign = complex ? -1 : F.isZero(rootDisc) ? 0 : 1;
+  steps.push({
+    title: t('derivation.quadratic'),
+    lines: [
+      ['λ = ', { frac: [['τ ± ', { sqrt: 'τ² − 4Δ' }], '2'] }, ' = ', { frac: [[r(tr), ' ± ', { sqrt: r(disc) }], '2'] }],
+      [{ sqrt: r(disc) }, ' = ', r(rootDisc)],
+      ...lambdas.map((l, i): MathNode => [`λ${sub1[i]} = `, r(l)])
+    ],
+    note: t(discSign > 0 ? 'derivation.distinct' : discSign < 0 ? 'derivation.conjugate' : 'derivation.repeated')
+  });
+
+  if (complex) {
+    // As in `getComplexEigenvector`: the first row gives v = (b, λ − a) unless b = 0
+    const l = lambdas[0];
+    const useFirst = !F.isZero(b);
+    const v = useFirst ? [b, F.sub(l, a)] : [F.sub(l, d), c];
+    steps.push({
+      title: t('derivation.eigenvector'),
+      lines: [
+        ['A − λ₁I = ', { matrix: [[r(F.sub(a, l)), r(b)], [r(c), r(F.sub(d, l))]] }],
+        useFirst
+          ? [`${t('derivation.row-1')}: (a − λ₁)x + by = 0 ⇒ v₁ = (b, λ₁ − a) = `, { matrix: [[r(v[0])], [r(v[1])]] }]
+          : [`b = 0, ${t('derivation.so-row-2')}: cx + (d − λ₁)y = 0 ⇒ v₁ = (λ₁ − d, c) = `, { matrix: [[r(v[0])], [r(v[1])]] }],
+        ['v₂ = v̄₁']
+      ],
+      note: t('derivation.complex-note')
+    });
+  } else {
+    // As in `getEigenvector`, reducing the first row unless it vanishes
+    const count = F.isZero(F.sub(lambdas[0], lambdas[1])) ? 1 : 2;
+    for (let i = 0; i < count; i++) {
+      const l = lambdas[i];
+      const name = count === 1 ? 'λ' : `λ${sub1[i]}`;
+      const row1 = F.sub(a, l);
+      const row2 = F.sub(d, l);
+      const vector = (x: T, y: T): MathNode => [`v${count === 1 ? '' : sub1[i]} = `, { matrix: [[r(x)], [r(y)]] }];
+      let reduction: MathNode;
+      if (!F.isZero(b)) {
+        reduction = [`${t('derivation.row-1')}: (`, r(row1), ')x', plus(b), 'y = 0 ⇒ ', vector(F.neg(b), row1)];
+      } else if (!F.isZero(row1)) {
+        reduction = [`${t('derivation.row-1')}: (`, r(row1), ')x = 0 ⇒ x = 0, ', vector(F.zero, F.of(1))];
+      } else if (!F.isZero(c)) {
+        reduction = [`${t('derivation.row-1-vanishes')}: `, r(c), 'x', plus(row2), 'y = 0 ⇒ ', vector(F.div(F.neg(row2), c), F.of(1))];
+      } else {
+        reduction = ['A − ', name, `I = 0: ${t('derivation.every-vector')}, `, vector(F.of(1), F.zero)];
+      }
+      steps.push({
+        title: count === 1 ? t('derivation.eigenvector') : t('derivation.eigenvector-for', { lambda: `λ${sub1[i]}` }),
+        lines: [
+          [`A − ${name}I = `, { matrix: [[r(row1), r(b)], [r(c), r(row2)]] }],
+          reduction
+        ],
+        note: i === count - 1 ? t('derivation.unit-note') : undefined
+      });
+    }
+  }
+
+  const conclusion: MathNode = `⇒ ${t(analysis.classification)}, ${t(analysis.stability).toLowerCase()}.`;
+  // Commas are decimal marks in some languages
+  const separator = t('format.separator');
+  if (discrete) {
+    const moduli = lambdas.map(l => Math.hypot(F.value(l).re, F.value(l).im));
+    steps.push({
+      title: t('derivation.classification'),
+      lines: complex
+        ? [['|λ|² = λ₁λ̄₁ = Δ = ', r(det)], conclusion]
+        : [moduli.map((m, i) => `${i ? separator : ''}|λ${sub1[i]}| = ${decimal(m, n)}`), conclusion],
+      note: t('derivation.map-note')
+    });
+    return steps;
+  }
+
+  // The branch `analyzeMatrix` took, tolerance included
+  const trace = t(sign(tr) > 0 ? 'derivation.trace-positive' : 'derivation.trace-negative');
+  const reasons: Partial<Record<EquilibriumKind, string>> = {
+    saddle: t('derivation.reason.saddle'),
+    node: t('derivation.reason.node', { trace }),
+    spiral: t('derivation.reason.spiral', { trace }),
+    center: t('derivation.reason.center'),
+    star: t('derivation.reason.star', { trace }),
+    'improper-node': t('derivation.reason.improper-node', { trace }),
+    line: t(sign(tr) > 0 ? 'derivation.reason.line-leave' : 'derivation.reason.line-approach'),
+    shear: t('derivation.reason.shear'),
+    zero: t('derivation.reason.zero')
+  };
+  steps.push({
+    title: t('derivation.classification'),
+    lines: [['τ = ', r(tr), `${separator}Δ = `, r(det), `${separator}τ² − 4Δ = `, r(disc)], conclusion],
+    note: reasons[analysis.kind]
+  });
+  return steps;
+};
+
+/**
+ * The worked eigen-analysis of A, step by step, written in the language of `i18n`. With
+ * `exact` the numbers are fractions and surds; that needs rational entries, so the result
+ * is null when they aren't. `tol` is the one `analysis` was computed with.
+ */
+export const eigenDerivation = (
+  m: Matrix2x2,
+  analysis: EquilibriumAnalysis,
+  { exact, discrete, tol = 1e-9 }: { exact: boolean; discrete: boolean; tol?: number },
+  i18n: I18n
+): DerivationStep[] | null => {
+  if (!exact) {
+    // Taken from the computed eigenvalues, so a discriminant within tolerance of 0 gives a repeated one
+    const [l1, l2] = analysis.eigenvalues;
+    const rootDisc = { re: l1.re - l2.re, im: l1.im - l2.im };
+    const scale = Math.max(1, Math.abs(m.a), Math.abs(m.b), Math.abs(m.c), Math.abs(m.d));
+    const F = numericArithmetic(i18n.n, tol * scale);
+    return derive(F, { a: F.of(m.a), b: F.of(m.b), c: F.of(m.c), d: F.of(m.d) }, rootDisc, analysis, discrete, i18n);
+  }
+
+  try {
+    const entries = [m.a, m.b, m.c, m.d].map(toRational);
+    if (entries.some(e => e === null)) return null;
+    const [a, b, c, d] = entries as Rational[];
+    const tr = radd(a, d);
+    const disc = radd(rmul(tr, tr), rmul(rational(-4), radd(rmul(a, d), rneg(rmul(b, c)))));
+    // √(n/d) = √(nd)/d = (k/d)√R; factoring nd by trial division stays cheap below the limit
+    if (Math.abs(disc.n * disc.d) > MAX_RADICAND) return null;
+    const [k, R] = squarefree(disc.n * disc.d);
+    const zero = rational(0);
+    const rootDisc = R === 1 || R === 0 ? { p: rational(R * k, disc.d), q: zero } : { p: zero, q: rational(k, disc.d) };
+    const entry = (p: Rational): Surd => ({ p, q: zero });
+    return derive(surdArithmetic(R === 0 ? 1 : R), { a: entry(a), b: entry(b), c: entry(c), d: entry(d) }, rootDisc, analysis, discrete, i18n);
+  } catch {
+    // Entries whose arithmetic outgrows exact integers are only shown numerically
+    return null;
+  }
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Matrix2x2 } from '../types';
+import { analyzeMap, iterateMap, rationalApproximation } from './discreteMap';
+
+const BOX = { xMin: -10, xMax: 10, yMin: -10, yMax: 10 };
+
+// Rotation by 2π·turns, scaled by r
+const rotation = (turns: number, r: number = 1) => {
+  const c = r * Math.cos(2 * Math.PI * turns);
+  const s = r * Math.sin(2 * Math.PI * turns);
+  return { a: c, b: -s, c: s, d: c };
+};
+
+describe('analyzeMap', () => {
+  it('classifies by the eigenvalue moduli relative to 1', () => {
+    const cases: [Matrix2x2, string, string][] = [
+      [{ a: 0.5, b: 0, c: 0, d: 0.8 }, 'node', 'class.map.attracting-node'],
+      [{ a: 2, b: 0, c: 0, d: -3 }, 'node', 'class.map.repelling-node'],
+      [{ a: 0.5, b: 0, c: 0, d: 2 }, 'saddle', 'class.map.saddle'],
+      [rotation(0.1, 0.9), 'spiral', 'class.map.attracting-spiral'],
+      [rotation(0.1, 1.1), 'spiral', 'class.map.repelling-spiral']
+    ];
+    for (const [m, kind, key] of cases) {
+      const analysis = analyzeMap(m);
+      expect(analysis.kind).toBe(kind);
+      expect(analysis.classification.key).toBe(key);
+    }
+    // A negative trace is no sign of stability for a map, unlike a flow
+    expect(analyzeMap({ a: -2, b: 0, c: 0, d: -3 }).stabilityKind).toBe('unstable');
+  });
+
+  it('recognises rational rotations by their period', () => {
+    const analysis = analyzeMap(rotation(2 / 7));
+    expect(analysis.kind).toBe('rotation');
+    expect(analysis.stabilityKind).toBe('stable');
+    expect(analysis.classification).toEqual({ key: 'class.map.rational-rotation', params: { p: 2, q: 7 } });
+    expect(analyzeMap(rotation((Math.sqrt(5) - 1) / 2)).classification.key).toBe('class.map.irrational-rotation');
+  });
+
+  it('treats eigenvalues on ±1 as non-hyperbolic, unstable with a Jordan block', () => {
+    expect(analyzeMap({ a: 1, b: 0, c: 0, d: 0.5 })).toMatchObject({ kind: 'non-hyperbolic', stabilityKind: 'stable' });
+    expect(analyzeMap({ a: -1, b: 0, c: 0, d: 1 })).toMatchObject({ kind: 'non-hyperbolic', stabilityKind: 'stable' });
+    expect(analyzeMap({ a: 1, b: 1, c: 0, d: 1 })).toMatchObject({ kind: 'non-hyperbolic', stabilityKind: 'unstable' });
+    expect(analyzeMap({ a: 1, b: 0, c: 0, d: 2 })).toMatchObject({ kind: 'non-hyperbolic', stabilityKind: 'unstable' });
+  });
+
+  it('puts a modulus within the tolerance of 1 on the circle', () => {
+    expect(analyzeMap(rotation(0.25, 1 + 1e-12)).kind).toBe('rotation');
+    expect(analyzeMap(rotation(0.25, 1 + 1e-6)).kind).toBe('spiral');
+  });
+});
+
+describe('rationalApproximation', () => {
+  it('finds the fraction within the tolerance and the denominator bound', () => {
+    expect(rationalApproximation(0.375, 60, 1e-9)).toEqual([3, 8]);
+    expect(rationalApproximation(1 / 61, 60, 1e-9)).toBeNull();
+    expect(rationalApproximation(Math.PI - 3, 60, 1e-9)).toBeNull();
+  });
+});
+
+describe('iterateMap', () => {
+  it('stamps iterate n with t = n, backward orbits included', () => {
+    const orbit = iterateMap({ a: 0.5, b: 0, c: 0, d: 0.5 }, { x: 1, y: 2 }, 3, BOX, 2);
+    expect(orbit.map(p => p.t)).toEqual([-2, -1, 0, 1, 2, 3]);
+    expect(orbit[0]).toEqual({ x: 4, y: 8, t: -2 });
+    expect(orbit[5]).toEqual({ x: 0.125, y: 0.25, t: 3 });
+  });
+
+  it('iterates only forward for a singular matrix', () => {
+    const orbit = iterateMap({ a: 1, b: 1, c: 1, d: 1 }, { x: 1, y: 0 }, 2, BOX);
+    expect(orbit).toEqual([{ x: 1, y: 0, t: 0 }, { x: 1, y: 1, t: 1 }, { x: 2, y: 2, t: 2 }]);
+  });
+
+  it('stops where the orbit leaves the escape box', () => {
+    const orbit = iterateMap({ a: 2, b: 0, c: 0, d: 2 }, { x: 1, y: 1 }, 100, BOX, 0);
+    expect(orbit.map(p => p.x)).toEqual([1, 2, 4, 8]);
+  });
+});
@@ -0,0 +1,123 @@
+
+import { Bounds, ComplexNumber, EquilibriumAnalysis, EquilibriumKind, Matrix2x2, Point, StabilityKind, TimedPoint } from '../types';
+import { analyzeMatrix } from './odeSolver';
+import { Message, message } from './i18n';
+
+// Longest period recognised as a rational rotation
+const MAX_PERIOD = 60;
+
+const modulus = (z: ComplexNumber) => Math.hypot(z.re, z.im);
+
+/**
+ * The fraction p/q with q ≤ maxDenominator closest to x among the convergents of its
+ * continued fraction, if one lies within `tol`.
+ */
+export const rationalApproximation = (x: number, maxDenominator: number, tol: number): [number, number] | null => {
+  let [h0, h1] = [0, 1];
+  let [k0, k1] = [1, 0];
+  let rest = x;
+  for (let i = 0; i < 64; i++) {
+    const a = Math.floor(rest);
+    [h0, h1] = [h1, a * h1 + h0];
+    [k0, k1] = [k1, a * k1 + k0];
+    if (k1 > maxDenominator) return null;
+    if (Math.abs(x - h1 / k1) <= tol) return [h1, k1];
+    rest = 1 / (rest - a);
+    if (!Number.isFinite(rest)) return null;
+  }
+  return null;
+};
+
+/**
+ * Classification of the fixed point of x_{n+1} = A x_n, decided by the moduli of the
+ * eigenvalues relative to 1 rather than by the signs of their real parts. Eigenvalues,
+ * eigenvectors and the sense of rotation are those of A, as for the flow.
+ */
+export const analyzeMap = (m: Matrix2x2, tol: number = 1e-9): EquilibriumAnalysis => {
+  const base = analyzeMatrix(m, tol);
+  const [l1, l2] = base.eigenvalues;
+  const inside = (z: ComplexNumber) => modulus(z) < 1 - tol;
+  const outside = (z: ComplexNumber) => modulus(z) > 1 + tol;
+
+  let kind: EquilibriumKind;
+  let stabilityKind: StabilityKind;
+  let classification: Message;
+  let stability: Message;
+
+  if (l1.im !== 0) {
+    // A conjugate pair shares its modulus √Δ: each step scales by it and turns by arg λ
+    if (inside(l1)) {
+      kind = 'spiral';
+      stabilityKind = 'asymptotically-stable';
+      classification = message('class.map.attracting-spiral');
+      stability = message('stability.attractor');
+    } else if (outside(l1)) {
+      kind = 'spiral';
+      stabilityKind = 'unstable';
+      classification = message('class.map.repelling-spiral');
+      stability = message('stability.repeller');
+    } else {
+      const turns = Math.abs(Math.atan2(l1.im, l1.re)) / (2 * Math.PI);
+      const fraction = rationalApproximation(turns, MAX_PERIOD, 1e-9);
+      kind = 'rotation';
+      stabilityKind = 'stable';
+      classification = fraction
+        ? message('class.map.rational-rotation', { p: fraction[0], q: fraction[1] })
+        : message('class.map.irrational-rotation');
+      stability = message('stability.neutral');
+    }
+  } else if (inside(l1) && inside(l2)) {
+    kind = 'node';
+    stabilityKind = 'asymptotically-stable';
+    classification = message('class.map.attracting-node');
+    stability = message('stability.attractor');
+  } else if (outside(l1) && outside(l2)) {
+    kind = 'node';
+    stabilityKind = 'unstable';
+    classification = message('class.map.repelling-node');
+    stability = message('stability.repeller');
+  } else if ((inside(l1) && outside(l2)) || (outside(l1) && inside(l2))) {
+    kind = 'saddle';
+    stabilityKind = 'unstable';
+    classification = message('class.map.saddle');
+    stability = message('stability.map.saddle');
+  } else {
+    // Some eigenvalue is ±1: orbits along its eigenvector neither approach nor leave.
+    // With both on the circle a Jordan block (a shear) still makes orbits grow linearly.
+    kind = 'non-hyperbolic';
+    const growing = outside(l1) || outside(l2) || base.kind === 'improper-node';
+    stabilityKind = growing ? 'unstable' : 'stable';
+    classification = message('class.map.non-hyperbolic');
+    stability = message(growing ? 'stability.unstable' : inside(l1) || inside(l2) ? 'stability.marginal' : 'stability.map.neutral');
+  }
+
+  return { ...base, kind, stabilityKind, classification, stability };
+};
+
+/**
+ * The orbit of `initial` under A, `steps` iterates forward and, when A is invertible,
+ * `backSteps` backward. Point n is stamped t = n; the orbit stops where it leaves `escape`.
+ */
+export const iterateMap = (m: Matrix2x2, initial: Point, steps: number, escape: Bounds, backSteps: number = steps): TimedPoint[] => {
+  const det = m.a * m.d - m.b * m.c;
+  const inverse: Matrix2x2 | null = Math.abs(det) > 1e-12
+    ? { a: m.d / det, b: -m.b / det, c: -m.c / det, d: m.a / det }
+    : null;
+  const outOfBounds = (p: Point) =>
+    !Number.isFinite(p.x) || !Number.isFinite(p.y) ||
+    p.x < escape.xMin || p.x > escape.xMax || p.y < escape.yMin || p.y > escape.yMax;
+
+  const orbit = (a: Matrix2x2, direction: number, count: number) => {
+    const points: TimedPoint[] = [];
+    let p: Point = initial;
+    for (let n = 1; n <= count; n++) {
+      p = { x: a.a * p.x + a.b * p.y, y: a.c * p.x + a.d * p.y };
+      if (outOfBounds(p)) break;
+      points.push({ ...p, t: n * direction });
+    }
+    return points;
+  };
+
+  const backward = inverse ? orbit(inverse, -1, backSteps).reverse() : [];
+  return [...backward, { ...initial, t: 0 }, ...orbit(m, 1, steps)];
+};
@@ -0,0 +1,91 @@
+
+import { createTaskQueue, EngineRequest, EngineResponse, EngineTask, TaskResult } from './engineTasks';
+
+export interface EngineJob {
+  // Drops the task if it hasn't finished yet; nothing more of it is delivered either way
+  cancel: () => void;
+}
+
+export interface Engine {
+  // False when tasks run on the main thread, e.g. without Worker support or during SSR
+  threaded: boolean;
+  // Long tasks also report their progress (the curve or seeds so far) with `done` false;
+  // `onError` is called instead of a final result when the task throws
+  run: <T extends EngineTask>(
+    task: T,
+    onResult: (result: TaskResult<T>, done: boolean) => void,
+    onError?: (error: string) => void
+  ) => EngineJob;
+}
+
+interface Pending {
+  task: EngineTask;
+  onResult: (result: never, done: boolean) => void;
+  onError?: (error: string) => void;
+}
+
+/**
+ * Integration and field sampling off the main thread. Tasks run in the order they are
+ * submitted, a chunk at a time, and long ones deliver their progress between chunks.
+ * Without a worker, or if it fails to start, the same queue runs on the main thread.
+ */
+const createEngine = (): Engine => {
+  const pending = new Map<number, Pending>();
+  let next = 0;
+  let worker: Worker | null = null;
+
+  const receive = ({ id, result, error, partial }: EngineResponse['results'][number]) => {
+    const job = pending.get(id);
+    if (!job) return;
+    const onResult = job.onResult as (result: unknown, done: boolean) => void;
+    if (partial) {
+      onResult(result, false);
+      return;
+    }
+    pending.delete(id);
+    if (error === undefined) onResult(result, true);
+    else job.onError?.(error);
+  };
+
+  const local = createTaskQueue(results => results.forEach(receive));
+
+  if (typeof Worker !== 'undefined') {
+    try {
+      worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<EngineResponse>) => e.data.results.forEach(receive);
+      // A worker that cannot load hands everything still outstanding back to the main thread
+      worker.onerror = () => {
+        worker?.terminate();
+        worker = null;
+        engine.threaded = false;
+        pending.forEach((job, id) => local.push(id, job.task));
+      };
+    } catch {
+      worker = null;
+    }
+  }
+
+  const post = (request: EngineRequest) => worker?.postMessage(request);
+
+  const engine: Engine = {
+    threaded: worker !== null,
+    run: (task, onResult, onError) => {
+      const id = ++next;
+      pending.set(id, { task, onResult, onError });
+      if (worker) post({ type: 'run', id, task });
+      else local.push(id, task);
+      return {
+        cancel: () => {
+          if (!pending.delete(id)) return;
+          post({ type: 'cancel', id });
+          local.cancel(id);
+        }
+      };
+    }
+  };
+  return engine;
+};
+
+let shared: Engine | null = null;
+
+export const getEngine = (): Engine => (shared ??= createEngine());
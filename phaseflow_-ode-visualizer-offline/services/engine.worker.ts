@@ -0,0 +1,14 @@
+
+import { createTaskQueue, EngineRequest, EngineResponse } from './engineTasks';
+
+const scope = self as unknown as Worker;
+
+const tasks = createTaskQueue((results, transfer) =>
+  scope.postMessage({ type: 'results', results } satisfies EngineResponse, transfer)
+);
+
+scope.onmessage = (e: MessageEvent<EngineRequest>) => {
+  const request = e.data;
+  if (request.type === 'run') tasks.push(request.id, request.task);
+  else tasks.cancel(request.id);
+};
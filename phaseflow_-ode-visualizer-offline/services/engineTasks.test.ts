@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Matrix2x2, TimedPoint } from '../types';
+import { createTaskQueue, EngineResponse, runTask, TraceTask } from './engineTasks';
+import { exactSolution } from './matrixExponential';
+
+// x' = y, y' = −x: bounded, so a long trace runs for as long as its span
+const ROTATION: Matrix2x2 = { a: 0, b: 1, c: -1, d: 0 };
+const VIEW = { xMin: -2, xMax: 2, yMin: -2, yMax: 2 };
+
+const trace = (overrides: Partial<TraceTask> = {}): TraceTask => ({
+  kind: 'trace',
+  spec: { kind: 'linear', matrix: ROTATION, b: { x: 0, y: 0 }, g: null },
+  initial: { x: 1, y: 0 },
+  span: { forward: 1, backward: 1 },
+  method: 'rk4',
+  dt: 0.01,
+  tolerance: 1e-6,
+  escape: { xMin: -100, xMax: 100, yMin: -100, yMax: 100 },
+  ...overrides
+});
+
+// Long enough that it never finishes within a test
+const ENDLESS = trace({ span: { forward: 1e6, backward: 0 } });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A queue whose results are collected in order, and a way to wait for one of them
+const collectingQueue = () => {
+  const received: EngineResponse['results'] = [];
+  const queue = createTaskQueue(results => received.push(...results));
+  const waitFor = async (found: (r: EngineResponse['results'][number]) => boolean) => {
+    for (let waited = 0; !received.some(found); waited += 10) {
+      if (waited > 5000) throw new Error('No such result');
+      await sleep(10);
+    }
+    return received.find(found)!;
+  };
+  return { queue, received, waitFor };
+};
+
+describe('runTask', () => {
+  it('traces backward and forward from the initial point', () => {
+    const points = runTask(trace());
+    expect(points[0].t).toBeCloseTo(-1, 9);
+    expect(points[points.length - 1].t).toBeCloseTo(1, 9);
+    expect(points.find(p => p.t === 0)).toEqual({ x: 1, y: 0, t: 0 });
+    for (const p of [points[0], points[points.length - 1]]) {
+      const exact = exactSolution(ROTATION, { x: 1, y: 0 }, p.t);
+      expect(Math.hypot(p.x - exact.x, p.y - exact.y)).toBeLessThan(1e-6);
+    }
+  });
+
+  it('iterates a map instead of integrating it', () => {
+    const points = runTask(trace({ spec: { kind: 'map', matrix: ROTATION }, span: { forward: 4, backward: 0 } }));
+    expect(points.map(p => p.t)).toEqual([0, 1, 2, 3, 4]);
+    expect(points[4].x).toBeCloseTo(1, 12);
+  });
+
+  it('places streamlines in the view', () => {
+    const { kind, initial, ...settings } = trace();
+    const seeds = runTask({ kind: 'streamlines', trace: settings, view: VIEW, separation: 0.5, maxLines: 6, occupied: [] });
+    expect(seeds.length).toBeGreaterThan(0);
+    expect(seeds.length).toBeLessThanOrEqual(6);
+    for (const { initial: p } of seeds) {
+      expect(Math.abs(p.x)).toBeLessThanOrEqual(2);
+      expect(Math.abs(p.y)).toBeLessThanOrEqual(2);
+    }
+  });
+});
+
+describe('createTaskQueue', () => {
+  it('delivers results in the order tasks were pushed', async () => {
+    const { queue, received, waitFor } = collectingQueue();
+    queue.push(1, trace());
+    queue.push(2, trace({ initial: { x: 0, y: 1 } }));
+    await waitFor(r => r.id === 2);
+    expect(received.map(r => r.id)).toEqual([1, 2]);
+    expect(received[0].result).toEqual(runTask(trace()));
+  });
+
+  it('reports a task that throws as an error and goes on with the next', async () => {
+    const { queue, waitFor } = collectingQueue();
+    queue.push(1, trace({ spec: { kind: 'map', matrix: null as unknown as Matrix2x2 } }));
+    queue.push(2, trace());
+    expect((await waitFor(r => r.id === 1)).error).toBeTruthy();
+    expect((await waitFor(r => r.id === 2)).result).toBeTruthy();
+  });
+
+  it('drops a cancelled task before it starts', async () => {
+    const { queue, received, waitFor } = collectingQueue();
+    queue.push(1, trace());
+    queue.push(2, trace());
+    queue.push(3, trace());
+    queue.cancel(2);
+    await waitFor(r => r.id === 3);
+    expect(received.map(r => r.id)).toEqual([1, 3]);
+  });
+
+  it('reports the progress of a long task and stops it when cancelled', async () => {
+    const { queue, received, waitFor } = collectingQueue();
+    queue.push(1, ENDLESS);
+    queue.push(2, trace());
+    const progress = await waitFor(r => r.id === 1 && r.partial === true);
+    const points = progress.result as TimedPoint[];
+    expect(points[0]).toEqual({ x: 1, y: 0, t: 0 });
+    expect(points.length).toBeGreaterThan(1);
+
+    queue.cancel(1);
+    // The task behind it runs next, and nothing more of the cancelled one arrives
+    await waitFor(r => r.id === 2);
+    const count = received.length;
+    await sleep(300);
+    expect(received.length).toBe(count);
+    expect(received.filter(r => r.id === 1).every(r => r.partial)).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+
+import { Bounds, FieldSpec, IntegratorMethod, Point, TimedPoint, TimeSpan, VectorField } from '../types';
+import { startODE } from './odeSolver';
+import { iterateMap } from './discreteMap';
+import { FieldGrid, sampleFieldGrid } from './nullclines';
+import { Seed, startStreamlines } from './seeding';
+import { fieldFromSpec } from './vectorField';
+
+/**
+ * One trajectory: integrated `span.backward` and `span.forward` time units from `initial`
+ * (iterated that many times, for a map).
+ */
+export interface TraceTask {
+  kind: 'trace';
+  spec: FieldSpec;
+  initial: Point;
+  span: TimeSpan;
+  method: IntegratorMethod;
+  dt: number;
+  tolerance: number;
+  escape: Bounds;
+}
+
+/**
+ * The field on an (nx + 1) × (ny + 1) lattice at time t, as for `sampleFieldGrid`.
+ */
+export interface SampleTask {
+  kind: 'sample';
+  spec: FieldSpec;
+  bounds: Bounds;
+  nx: number;
+  ny: number;
+  t: number;
+}
+
+/**
+ * Evenly spaced streamline seeds, each curve traced like `trace` with its own initial point.
+ */
+export interface StreamlineTask {
+  kind: 'streamlines';
+  trace: Omit<TraceTask, 'kind' | 'initial'>;
+  view: Bounds;
+  separation: number;
+  maxLines: number;
+  occupied: Point[][];
+}
+
+export type EngineTask = TraceTask | SampleTask | StreamlineTask;
+
+export type TaskResult<T extends EngineTask> =
+  T extends TraceTask ? TimedPoint[] : T extends SampleTask ? FieldGrid : Seed[];
+
+export type EngineRequest =
+  | { type: 'run'; id: number; task: EngineTask }
+  | { type: 'cancel'; id: number };
+
+// Results finished within one time slice travel together; `error` when the task threw, and
+// `partial` for the progress of a task still running (the curve or seeds so far)
+export interface EngineResponse {
+  type: 'results';
+  results: { id: number; result?: unknown; error?: string; partial?: boolean }[];
+}
+
+// Consecutive tasks nearly always share a field, so the last one built is kept
+let cached: { key: string; field: VectorField } | null = null;
+
+const fieldFor = (spec: FieldSpec): VectorField => {
+  const key = JSON.stringify(spec);
+  if (cached?.key !== key) cached = { key, field: fieldFromSpec(spec) };
+  return cached.field;
+};
+
+// A task in progress: `step` does a bounded piece of work and returns true once the task
+// is finished; `result` is what is known so far, and the final result after that
+interface TaskRun<T extends EngineTask> {
+  step: () => boolean;
+  result: () => TaskResult<T>;
+}
+
+// Integration steps per chunk of a trace, a few milliseconds of work
+const TRACE_CHUNK = 2000;
+
+const once = <T extends EngineTask>(compute: () => TaskResult<T>): TaskRun<T> => {
+  let value: TaskResult<T> | undefined;
+  return {
+    step: () => {
+      value = compute();
+      return true;
+    },
+    result: () => value!
+  };
+};
+
+const startTrace = (task: Omit<TraceTask, 'kind'>): TaskRun<TraceTask> => {
+  const { spec, initial, span, method, dt, tolerance, escape } = task;
+  if (spec.kind === 'map') return once(() => iterateMap(spec.matrix, initial, span.forward, escape, span.backward));
+  const field = fieldFor(spec);
+  const forward = startODE(field, initial, Math.round(span.forward / dt), dt, true, method, tolerance, escape);
+  const backward = startODE(field, initial, Math.round(span.backward / dt), dt, false, method, tolerance, escape);
+  let forwardDone = false;
+  return {
+    step: () => {
+      if (forwardDone) return backward.advance(TRACE_CHUNK);
+      forwardDone = forward.advance(TRACE_CHUNK);
+      return false;
+    },
+    result: () => [...[...backward.points].reverse(), ...forward.points.slice(1)]
+  };
+};
+
+const startTask = <T extends EngineTask>(task: T): TaskRun<T> => {
+  switch (task.kind) {
+    case 'trace':
+      return startTrace(task) as TaskRun<T>;
+    case 'sample':
+      return once(() => sampleFieldGrid(fieldFor(task.spec), task.bounds, task.nx, task.ny, task.t) as TaskResult<T>);
+    case 'streamlines': {
+      const lines = startStreamlines(
+        initial => runTask({ ...task.trace, kind: 'trace', initial }),
+        task.view,
+        task.separation,
+        task.maxLines,
+        task.occupied
+      );
+      return { step: lines.step, result: () => [...lines.seeds] as TaskResult<T> };
+    }
+  }
+};
+
+/**
+ * Runs a task to completion at once, as the headless renderer does.
+ */
+export const runTask = <T extends EngineTask>(task: T): TaskResult<T> => {
+  const run = startTask(task);
+  while (!run.step());
+  return run.result();
+};
+
+// Tasks run in slices of about this many ms; between slices cancellations get through
+const SLICE_MS = 30;
+// A task still running reports what it has so far at most this often, since each report repeats it all
+const PROGRESS_MS = 250;
+
+/**
+ * Runs submitted tasks in order, a chunk at a time, in slices of about `SLICE_MS`. After
+ * each slice `send` gets the results finished in it and, every `PROGRESS_MS`, the progress
+ * of the task still running. Shared by the worker and the main-thread fallback.
+ */
+export const createTaskQueue = (send: (results: EngineResponse['results'], transfer: Transferable[]) => void) => {
+  const queue: { id: number; task: EngineTask; run?: TaskRun<EngineTask>; reported?: number }[] = [];
+  let scheduled = false;
+
+  const drain = () => {
+    scheduled = false;
+    const started = performance.now();
+    const results: EngineResponse['results'] = [];
+    const transfer: Transferable[] = [];
+
+    while (queue.length > 0 && performance.now() - started < SLICE_MS) {
+      const job = queue[0];
+      let finished = true;
+      try {
+        if (!job.run) {
+          job.run = startTask(job.task);
+          job.reported = performance.now();
+        }
+        finished = job.run.step();
+        if (finished) {
+          const result = job.run.result();
+          if (job.task.kind === 'sample') transfer.push((result as FieldGrid).fx.buffer, (result as FieldGrid).fy.buffer);
+          results.push({ id: job.id, result });
+        }
+      } catch (e) {
+        results.push({ id: job.id, error: e instanceof Error ? e.message : String(e) });
+      }
+      if (finished) queue.shift();
+    }
+
+    // A started task left at the front has made progress in this slice
+    const running = queue[0];
+    if (running?.run && performance.now() - running.reported! >= PROGRESS_MS) {
+      running.reported = performance.now();
+      results.push({ id: running.id, result: running.run.result(), partial: true });
+    }
+
+    if (results.length > 0) send(results, transfer);
+    schedule();
+  };
+
+  const schedule = () => {
+    if (scheduled || queue.length === 0) return;
+    scheduled = true;
+    setTimeout(drain, 0);
+  };
+
+  return {
+    push: (id: number, task: EngineTask) => {
+      queue.push({ id, task });
+      schedule();
+    },
+    cancel: (id: number) => {
+      const i = queue.findIndex(job => job.id === id);
+      if (i >= 0) queue.splice(i, 1);
+    }
+  };
+};
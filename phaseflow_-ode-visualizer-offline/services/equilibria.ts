@@ -0,0 +1,110 @@
+
+import { Bounds, Equilibrium, EquilibriumAnalysis, EquilibriumKind, Matrix2x2, Point, VectorField } from '../types';
+import { analyzeMatrix } from './odeSolver';
+
+// Central differences are good to about this relative accuracy, so the Jacobian is
+// classified with it: a center is not turned into a spiral by differencing noise
+const JACOBIAN_TOL = 1e-6;
+
+// Kinds whose eigenvalues have zero real part (within the tolerance) in the classification
+const NON_HYPERBOLIC = new Set<EquilibriumKind>(['zero', 'shear', 'line', 'center']);
+
+/**
+ * Whether an equilibrium is drawn filled: when Lyapunov stable, which includes centers
+ * and stable lines of equilibria. Shared by the portrait and its exports so they agree.
+ */
+export const isFilledEquilibrium = (analysis: EquilibriumAnalysis): boolean => analysis.stabilityKind !== 'unstable';
+
+/**
+ * Central-difference Jacobian of the field at p.
+ */
+export const numericalJacobian = (field: VectorField, p: Point): Matrix2x2 => {
+  const hx = 1e-6 * Math.max(1, Math.abs(p.x));
+  const hy = 1e-6 * Math.max(1, Math.abs(p.y));
+  const fxp = field({ x: p.x + hx, y: p.y });
+  const fxm = field({ x: p.x - hx, y: p.y });
+  const fyp = field({ x: p.x, y: p.y + hy });
+  const fym = field({ x: p.x, y: p.y - hy });
+  return {
+    a: (fxp.x - fxm.x) / (2 * hx),
+    b: (fyp.x - fym.x) / (2 * hy),
+    c: (fxp.y - fxm.y) / (2 * hx),
+    d: (fyp.y - fym.y) / (2 * hy)
+  };
+};
+
+/**
+ * Newton's method for field(p) = 0 from a single seed. Returns null if it fails to converge.
+ */
+const newton = (field: VectorField, seed: Point, maxStep: number): Point | null => {
+  let p = { ...seed };
+  for (let iter = 0; iter < 40; iter++) {
+    const F = field(p);
+    if (!Number.isFinite(F.x) || !Number.isFinite(F.y)) return null;
+    if (Math.hypot(F.x, F.y) < 1e-10) return p;
+
+    const J = numericalJacobian(field, p);
+    const det = J.a * J.d - J.b * J.c;
+    if (!Number.isFinite(det) || Math.abs(det) < 1e-12) return null;
+
+    // Solve J * delta = F
+    let dx = (J.d * F.x - J.b * F.y) / det;
+    let dy = (-J.c * F.x + J.a * F.y) / det;
+
+    // Damp large jumps so a seed doesn't leave the window in one step
+    const stepLen = Math.hypot(dx, dy);
+    if (stepLen > maxStep) {
+      dx *= maxStep / stepLen;
+      dy *= maxStep / stepLen;
+    }
+
+    p = { x: p.x - dx, y: p.y - dy };
+    if (stepLen < 1e-13) break;
+  }
+  const F = field(p);
+  return Math.hypot(F.x, F.y) < 1e-8 ? p : null;
+};
+
+/**
+ * Locates the equilibria inside the given window with a grid-seeded Newton search,
+ * deduplicates them and classifies each one through its Jacobian.
+ */
+export const findEquilibria = (
+  field: VectorField,
+  bounds: Bounds,
+  seedsPerAxis: number = 12,
+  maxResults: number = 24
+): Equilibrium[] => {
+  const width = bounds.xMax - bounds.xMin;
+  const height = bounds.yMax - bounds.yMin;
+  const dedupeTol = 1e-4 * Math.max(width, height);
+  const found: Point[] = [];
+
+  for (let i = 0; i < seedsPerAxis && found.length < maxResults; i++) {
+    for (let j = 0; j < seedsPerAxis && found.length < maxResults; j++) {
+      const seed = {
+        x: bounds.xMin + ((i + 0.5) / seedsPerAxis) * width,
+        y: bounds.yMin + ((j + 0.5) / seedsPerAxis) * height
+      };
+      const root = newton(field, seed, Math.max(width, height) / 4);
+      if (!root) continue;
+      if (root.x < bounds.xMin || root.x > bounds.xMax || root.y < bounds.yMin || root.y > bounds.yMax) continue;
+      if (found.some(q => Math.hypot(q.x - root.x, q.y - root.y) < dedupeTol)) continue;
+      found.push(root);
+    }
+  }
+
+  // Snap round-off such as -1.2e-17 to zero so labels read cleanly
+  const clean = (v: number) => (Math.abs(v) < 1e-9 ? 0 : v);
+
+  return found
+    .map(p => ({ x: clean(p.x), y: clean(p.y) }))
+    .sort((p, q) => p.x - q.x || p.y - q.y)
+    .map(point => {
+      const jacobian = numericalJacobian(field, point);
+      const analysis = analyzeMatrix(jacobian, JACOBIAN_TOL);
+      // Read off the classification, so the "?" marker never disagrees with it
+      const hyperbolic = !NON_HYPERBOLIC.has(analysis.kind);
+      return { point, jacobian, analysis, hyperbolic };
+    });
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Trajectory } from '../types';
+import { buildMetadata, metadataLines, portraitToTikz, TikzScene } from './exporters';
+import { linearField } from './vectorField';
+import { analyzeMatrix } from './odeSolver';
+
+const VIEWPORT = { xMin: -2, xMax: 2, yMin: -2, yMax: 2 };
+const MATRIX = { a: 0, b: 1, c: -2, d: -0.5 };
+
+const scene = (overrides: Partial<TikzScene> = {}): TikzScene => ({
+  field: linearField(MATRIX),
+  fieldTime: 0,
+  viewport: VIEWPORT,
+  analysis: analyzeMatrix(MATRIX),
+  center: { x: 0, y: 0 },
+  equilibria: [],
+  trajectories: [],
+  axisLabels: ['x', 'y'],
+  discrete: false,
+  hideField: false,
+  ...overrides
+});
+
+const meta = (axisLabels?: [string, string]) =>
+  buildMetadata({ equations: [], matrix: MATRIX, analysis: null, viewport: VIEWPORT, ...(axisLabels ? { axisLabels } : {}) });
+
+describe('axis labels in exports', () => {
+  it('names the window by the axis labels', () => {
+    expect(metadataLines(meta())).toContain('x in [-2, 2], y in [-2, 2]');
+    expect(metadataLines(meta(['y', "y'"]))).toContain("y in [-2, 2], y' in [-2, 2]");
+  });
+
+  it('labels the TikZ axes in math mode', () => {
+    expect(portraitToTikz(scene({ axisLabels: ['y', "y'"] }), meta())).toContain("xlabel=$y$, ylabel=$y'$");
+    expect(portraitToTikz(scene({ axisLabels: ['u₁', 'u₂'] }), meta())).toContain('xlabel=$u_1$, ylabel=$u_2$');
+  });
+});
+
+describe('TikZ export of trajectories', () => {
+  const orbit: Trajectory = {
+    id: 'a',
+    initial: { x: 1, y: 0 },
+    color: '#000',
+    points: [{ x: 1, y: 0, t: 0 }, { x: 0.5, y: 0.5, t: 1 }, { x: 5, y: 5, t: 2 }, { x: 0, y: 0.25, t: 3 }]
+  };
+
+  it('draws a flow with a direction field and smooth curves', () => {
+    const tikz = portraitToTikz(scene({ trajectories: [orbit] }), meta());
+    expect(tikz).toContain('quiver=');
+    expect(tikz).toContain('smooth] coordinates {(1,0) (0.5,0.5)}');
+  });
+
+  it('marks the iterates of a map without a direction field', () => {
+    const tikz = portraitToTikz(scene({ trajectories: [orbit], discrete: true }), meta());
+    expect(tikz).not.toContain('quiver=');
+    expect(tikz).not.toContain('smooth');
+    // The escaped iterate is left out, and the single one after it is kept
+    expect(tikz).toContain('\\addplot[only marks, mark=*, mark size=1pt, traj1] coordinates {(1,0) (0.5,0.5) (0,0.25)}');
+  });
+
+  it('leaves out a hidden direction field', () => {
+    const tikz = portraitToTikz(scene({ trajectories: [orbit], hideField: true }), meta());
+    expect(tikz).not.toContain('quiver=');
+    expect(tikz).toContain('smooth] coordinates');
+  });
+});
@@ -0,0 +1,380 @@
+
+import * as d3 from 'd3';
+import { Bounds, Equilibrium, EquilibriumAnalysis, Matrix2x2, Point, Trajectory, VectorField } from '../types';
+import { english } from './i18n';
+import { isFilledEquilibrium } from './equilibria';
+
+/**
+ * Describes the system behind an exported portrait, so that a figure in a set of
+ * lecture notes can be traced back to the matrix that produced it.
+ */
+export interface ExportMetadata {
+  generator: 'PhaseFlow';
+  exportedAt: string;
+  equations: string[];
+  matrix: Matrix2x2 | null;
+  analysis: EquilibriumAnalysis | null;
+  viewport: Bounds;
+  // Names of the horizontal and vertical coordinates, x and y when absent
+  axisLabels?: [string, string];
+  // Time at which the direction field of a non-autonomous system was sampled
+  fieldTime?: number;
+}
+
+export const buildMetadata = (
+  fields: Omit<ExportMetadata, 'generator' | 'exportedAt'>
+): ExportMetadata => ({ generator: 'PhaseFlow', exportedAt: new Date().toISOString(), ...fields });
+
+// Numbers in text exports: enough digits for plotting, no float noise
+const num = (v: number, digits: number = 5) => String(+v.toFixed(digits));
+
+const formatComplex = (z: { re: number; im: number }) =>
+  Math.abs(z.im) < 1e-9 ? num(z.re, 4) : `${num(z.re, 4)} ${z.im < 0 ? '-' : '+'} ${num(Math.abs(z.im), 4)}i`;
+
+/**
+ * Human-readable summary lines, used as comments in the text formats. Exported files are
+ * shared between readers, so they are written in English whatever the interface language.
+ */
+export const metadataLines = (meta: ExportMetadata): string[] => {
+  const lines = [`${meta.generator} export, ${meta.exportedAt}`, ...meta.equations];
+  if (meta.matrix) {
+    const m = meta.matrix;
+    lines.push(`A = [[${num(m.a)}, ${num(m.b)}], [${num(m.c)}, ${num(m.d)}]]`);
+  }
+  if (meta.analysis) {
+    const a = meta.analysis;
+    lines.push(`${english(a.classification)}, ${english(a.stability)}`);
+    lines.push(`trace = ${num(a.trace, 4)}, det = ${num(a.determinant, 4)}, eigenvalues: ${a.eigenvalues.map(formatComplex).join(', ')}`);
+  }
+  if (meta.fieldTime !== undefined) lines.push(`direction field at t = ${num(meta.fieldTime, 3)}`);
+  const v = meta.viewport;
+  const [u, w] = meta.axisLabels ?? ['x', 'y'];
+  lines.push(`${u} in [${num(v.xMin, 3)}, ${num(v.xMax, 3)}], ${w} in [${num(v.yMin, 3)}, ${num(v.yMax, 3)}]`);
+  return lines;
+};
+
+// The metadata for JSON, with the analysis messages written out in English as in `metadataLines`
+const plainMetadata = (meta: ExportMetadata) => meta.analysis
+  ? {
+      ...meta,
+      analysis: { ...meta.analysis, classification: english(meta.analysis.classification), stability: english(meta.analysis.stability) }
+    }
+  : meta;
+
+// Presentation properties copied from the computed style, so the file renders without the app's CSS
+const INLINED_STYLES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-linecap',
+  'stroke-opacity', 'opacity', 'font-family', 'font-size', 'font-weight', 'paint-order'
+];
+
+/**
+ * Standalone SVG markup for a rendered portrait, with computed styles inlined and the
+ * metadata embedded as JSON in a <metadata> element.
+ */
+export const serializeSvg = (svg: SVGSVGElement, meta: ExportMetadata): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const source = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const target = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  source.forEach((el, i) => {
+    const computed = window.getComputedStyle(el);
+    const style = INLINED_STYLES.map(prop => `${prop}:${computed.getPropertyValue(prop)}`).join(';');
+    target[i].setAttribute('style', style);
+    target[i].removeAttribute('class');
+  });
+
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+  title.textContent = meta.equations.join('; ');
+  const metadata = document.createElementNS('http://www.w3.org/2000/svg', 'metadata');
+  metadata.appendChild(document.createCDATASection(JSON.stringify(plainMetadata(meta), null, 2)));
+  clone.insertBefore(metadata, clone.firstChild);
+  clone.insertBefore(title, clone.firstChild);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Standalone SVG from markup rendered without a DOM (server-side rendering), with the same
+ * title and metadata as `serializeSvg`. The portrait styles itself through presentation
+ * attributes, so only the namespace needs adding.
+ */
+export const standaloneSvg = (markup: string, meta: ExportMetadata): string => {
+  const open = markup.indexOf('<svg');
+  const close = markup.lastIndexOf('</svg>');
+  if (open < 0 || close < 0) throw new Error('No <svg> element in the markup');
+  const svg = markup.slice(open, close + '</svg>'.length);
+  const head = svg.indexOf('>') + 1;
+  const title = `<title>${escapeXml(meta.equations.join('; '))}</title>`;
+  const metadata = `<metadata><![CDATA[${JSON.stringify(plainMetadata(meta), null, 2)}]]></metadata>`;
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${svg.slice(0, 4)} xmlns="http://www.w3.org/2000/svg"${svg.slice(4, head)}${title}${metadata}${svg.slice(head)}`;
+};
+
+// CRC-32 as used by PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Inserts an uncompressed iTXt (UTF-8 text) chunk right after the IHDR chunk of a PNG.
+ */
+const withPngText = (png: Uint8Array, keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  // keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+  const data = new Uint8Array([...encoder.encode(keyword), 0, 0, 0, 0, 0, ...encoder.encode(text)]);
+  const type = encoder.encode('iTXt');
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(type, 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+
+  // 8-byte signature, then IHDR: 4 length + 4 type + 13 data + 4 CRC
+  const ihdrEnd = 8 + 25;
+  const out = new Uint8Array(png.length + chunk.length);
+  out.set(png.subarray(0, ihdrEnd), 0);
+  out.set(chunk, ihdrEnd);
+  out.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out;
+};
+
+/**
+ * Rasterizes serialized SVG markup to a PNG `scale` times its size, on a white background,
+ * with the metadata stored in a text chunk.
+ */
+export const svgToPng = (
+  svgMarkup: string,
+  width: number,
+  height: number,
+  scale: number,
+  meta: ExportMetadata
+): Promise<Blob> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Canvas 2D context is not available'));
+      return;
+    }
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error('PNG encoding failed'));
+        return;
+      }
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      resolve(new Blob([withPngText(bytes, 'Description', JSON.stringify(plainMetadata(meta)))], { type: 'image/png' }));
+    }, 'image/png');
+  };
+  image.onerror = () => reject(new Error('The SVG could not be rasterized'));
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgMarkup)}`;
+});
+
+/**
+ * One row per trajectory point, with the metadata as leading `#` comment lines.
+ */
+export const trajectoriesToCsv = (trajectories: Trajectory[], meta: ExportMetadata): string => {
+  const rows = metadataLines(meta).map(line => `# ${line}`);
+  rows.push('trajectory,method,comparison,t,x,y');
+  trajectories.forEach((traj, i) => {
+    for (const p of traj.points) {
+      rows.push([i + 1, traj.method ?? '', traj.comparison ? 1 : 0, num(p.t, 6), num(p.x, 8), num(p.y, 8)].join(','));
+    }
+  });
+  return rows.join('\n') + '\n';
+};
+
+export const trajectoriesToJson = (trajectories: Trajectory[], meta: ExportMetadata): string =>
+  JSON.stringify({
+    metadata: plainMetadata(meta),
+    trajectories: trajectories.map(traj => ({
+      initial: traj.initial,
+      method: traj.method ?? null,
+      comparison: !!traj.comparison,
+      color: traj.color,
+      points: traj.points.map(p => ({ t: +p.t.toFixed(6), x: +p.x.toFixed(8), y: +p.y.toFixed(8) }))
+    }))
+  }, null, 2);
+
+export interface TikzScene {
+  field: VectorField;
+  fieldTime: number;
+  viewport: Bounds;
+  analysis: EquilibriumAnalysis | null;
+  // Point the eigen decorations pass through
+  center: Point;
+  equilibria: Equilibrium[];
+  trajectories: Trajectory[];
+  axisLabels: [string, string];
+  // A map x_{n+1} = Ax_n: no direction field, and orbits are separate iterates
+  discrete: boolean;
+  // The direction field is switched off, as for the quiz
+  hideField: boolean;
+}
+
+// Arrows per axis in the exported direction field
+const TIKZ_GRID = 15;
+// Upper bound on coordinates per trajectory piece, to keep pgfplots fast
+const TIKZ_MAX_POINTS = 300;
+
+/**
+ * Splits a path into the runs that lie inside `bounds`, so pgfplots never sees the huge
+ * coordinates of trajectories that escape the window ("Dimension too large").
+ */
+const inside = (p: Point, bounds: Bounds) =>
+  p.x >= bounds.xMin && p.x <= bounds.xMax && p.y >= bounds.yMin && p.y <= bounds.yMax;
+
+const insideRuns = (points: Point[], bounds: Bounds): Point[][] => {
+  const runs: Point[][] = [];
+  let run: Point[] = [];
+  for (const p of points) {
+    if (inside(p, bounds)) {
+      run.push(p);
+    } else if (run.length) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  if (run.length) runs.push(run);
+  return runs.filter(r => r.length > 1);
+};
+
+const thin = (points: Point[]) => {
+  const every = Math.ceil(points.length / TIKZ_MAX_POINTS);
+  return points.filter((_, i) => i % every === 0 || i === points.length - 1);
+};
+
+// Axis labels in math mode: y' stays as it is, subscript digits as in u₁ become u_1
+const texLabel = (label: string) => `$${label.replace(/[₀-₉]/g, d => `_${d.charCodeAt(0) - 0x2080}`)}$`;
+
+const coordinates = (points: Point[]) => points.map(p => `(${num(p.x, 4)},${num(p.y, 4)})`).join(' ');
+
+const rgb = (color: string) => {
+  const c = d3.color(color)?.rgb() ?? d3.rgb(0, 0, 0);
+  return `${Math.round(c.r)},${Math.round(c.g)},${Math.round(c.b)}`;
+};
+
+/**
+ * A pgfplots `axis` with the direction field, eigenlines (or Re/Im axes of a complex
+ * eigenvector), equilibria and trajectories. Needs `\usepackage{pgfplots}`.
+ */
+export const portraitToTikz = (scene: TikzScene, meta: ExportMetadata): string => {
+  const { viewport: v, center } = scene;
+  const out: string[] = metadataLines(meta).map(line => `% ${line}`);
+  out.push('% Requires \\usepackage{pgfplots} and \\pgfplotsset{compat=1.17}');
+
+  const colors = scene.trajectories.map((traj, i) => `\\definecolor{traj${i + 1}}{RGB}{${rgb(traj.color)}}`);
+  out.push(...colors);
+  out.push('\\begin{tikzpicture}');
+  out.push(`\\begin{axis}[width=10cm, height=10cm, axis lines=middle, xlabel=${texLabel(scene.axisLabels[0])}, ylabel=${texLabel(scene.axisLabels[1])},`);
+  out.push(`  xmin=${num(v.xMin, 4)}, xmax=${num(v.xMax, 4)}, ymin=${num(v.yMin, 4)}, ymax=${num(v.yMax, 4)}, clip=true, enlargelimits=false]`);
+
+  // Direction field: unit arrows, 40% of the grid spacing long
+  if (!scene.discrete && !scene.hideField) {
+    const stepX = (v.xMax - v.xMin) / TIKZ_GRID;
+    const stepY = (v.yMax - v.yMin) / TIKZ_GRID;
+    const rows: string[] = [];
+    for (let i = 0; i <= TIKZ_GRID; i++) {
+      for (let j = 0; j <= TIKZ_GRID; j++) {
+        const x = v.xMin + i * stepX;
+        const y = v.yMin + j * stepY;
+        const f = scene.field({ x, y }, scene.fieldTime);
+        const mag = Math.hypot(f.x, f.y);
+        if (!Number.isFinite(mag) || mag === 0) continue;
+        rows.push(`${num(x, 4)} ${num(y, 4)} ${num((0.4 * stepX * f.x) / mag, 4)} ${num((0.4 * stepY * f.y) / mag, 4)}`);
+      }
+    }
+    out.push('% Direction field');
+    out.push('\\addplot[-stealth, blue!40, quiver={u=\\thisrow{u}, v=\\thisrow{v}}] table {');
+    out.push('x y u v', ...rows, '};');
+  }
+
+  const reach = Math.hypot(v.xMax - v.xMin, v.yMax - v.yMin) + Math.hypot(center.x, center.y);
+  const eigenvectors = scene.analysis?.eigenvectors;
+  if (eigenvectors && !scene.analysis!.rotation) {
+    out.push('% Eigenlines');
+    eigenvectors.forEach((vec, i) => {
+      const d = { x: vec.x.re, y: vec.y.re };
+      if (Math.hypot(d.x, d.y) < 1e-9) return;
+      const line = [
+        { x: center.x - reach * d.x, y: center.y - reach * d.y },
+        { x: center.x + reach * d.x, y: center.y + reach * d.y }
+      ];
+      out.push(`\\addplot[dashed, thick, color=${i === 0 ? 'orange' : 'violet'}] coordinates {${coordinates(line)}};`);
+    });
+  } else if (eigenvectors) {
+    out.push('% Re(v) and Im(v) of the complex eigenvector');
+    const vec = eigenvectors[0];
+    const span = Math.max(v.xMax - v.xMin, v.yMax - v.yMin) / 2;
+    const scale = (span * 0.6) / Math.max(Math.hypot(vec.x.re, vec.y.re), 1e-9);
+    ([['teal', vec.x.re, vec.y.re], ['magenta', vec.x.im, vec.y.im]] as const).forEach(([color, vx, vy]) => {
+      const line = [
+        { x: center.x - scale * vx, y: center.y - scale * vy },
+        { x: center.x + scale * vx, y: center.y + scale * vy }
+      ];
+      out.push(`\\addplot[thick, color=${color}] coordinates {${coordinates(line)}};`);
+    });
+  }
+
+  const expanded: Bounds = {
+    xMin: v.xMin - 0.05 * (v.xMax - v.xMin), xMax: v.xMax + 0.05 * (v.xMax - v.xMin),
+    yMin: v.yMin - 0.05 * (v.yMax - v.yMin), yMax: v.yMax + 0.05 * (v.yMax - v.yMin)
+  };
+  if (scene.trajectories.length) out.push(scene.discrete ? '% Orbits' : '% Trajectories');
+  scene.trajectories.forEach((traj, i) => {
+    if (scene.discrete) {
+      // Iterates of a map are separate points: no curve passes between them
+      const iterates = traj.points.filter(p => inside(p, expanded));
+      if (iterates.length) out.push(`\\addplot[only marks, mark=*, mark size=1pt, traj${i + 1}] coordinates {${coordinates(iterates)}};`);
+    } else {
+      const style = traj.comparison ? `traj${i + 1}, dashed` : `traj${i + 1}, very thick`;
+      for (const run of insideRuns(traj.points, expanded)) {
+        out.push(`\\addplot[${style}, smooth] coordinates {${coordinates(thin(run))}};`);
+      }
+    }
+    if (!traj.comparison) out.push(`\\addplot[only marks, mark=*, mark size=1.5pt, traj${i + 1}] coordinates {${coordinates([traj.initial])}};`);
+  });
+
+  if (scene.equilibria.length) {
+    out.push('% Equilibria: filled when stable');
+    for (const eq of scene.equilibria) {
+      const stable = isFilledEquilibrium(eq.analysis);
+      out.push(`\\addplot[only marks, mark=*, mark size=2pt, draw=black, fill=${stable ? 'black' : 'white'}] coordinates {${coordinates([eq.point])}};`);
+    }
+  }
+
+  out.push('\\end{axis}');
+  out.push('\\end{tikzpicture}');
+  return out.join('\n') + '\n';
+};
+
+/**
+ * Offers `content` as a file download.
+ */
+export const downloadFile = (content: Blob | string, filename: string, type: string = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: `${type};charset=utf-8` }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,20 @@
+
+import { describe, expect, it } from 'vitest';
+import { parseExpression, tryParseExpression } from './expressionParser';
+
+describe('parseExpression', () => {
+  it('evaluates functions, constants and implicit products', () => {
+    const { evaluate } = parseExpression('-sin(x) - 0.25*y + 2pi');
+    expect(evaluate({ x: 0, y: 4 })).toBeCloseTo(2 * Math.PI - 1);
+    expect(parseExpression('x(1 - y)').evaluate({ x: 2, y: 3 })).toBe(-4);
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    for (const source of ['constructor', '__proto__', 'x*valueOf']) {
+      expect(tryParseExpression(source).error?.key).toBe('expression.unknown-variable');
+    }
+    for (const source of ['toString(1)', 'hasOwnProperty(x)']) {
+      expect(tryParseExpression(source).error?.key).toBe('expression.unknown-function');
+    }
+  });
+});
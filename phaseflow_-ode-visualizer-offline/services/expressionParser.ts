@@ -0,0 +1,340 @@
+
+/**
+ * A small, safe expression parser for right-hand sides such as
+ * `y`, `-sin(x) - 0.2*y` or `x*(1 - y)`. Nothing is ever passed to `eval`;
+ * the source is tokenized, parsed into an AST and compiled into closures.
+ *
+ * Grammar (lowest to highest precedence):
+ *   expr    := term (('+' | '-') term)*
+ *   term    := unary (('*' | '/') unary | implicit unary)*
+ *   unary   := ('+' | '-') unary | power
+ *   power   := primary (('^' | '**') unary)?
+ *   primary := number | identifier | identifier '(' args ')' | '(' expr ')'
+ */
+
+import { english, Message, message } from './i18n';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; op: '-'; arg: ExpressionNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+export type Scope = Record<string, number>;
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  evaluate: (scope: Scope) => number;
+}
+
+export class ExpressionError extends Error {
+  position: number;
+  // The message as catalogue data, for display in the interface language
+  detail: Message;
+
+  constructor(detail: Message, position: number) {
+    super(english(detail));
+    this.name = 'ExpressionError';
+    this.position = position;
+    this.detail = detail;
+  }
+}
+
+const FUNCTIONS: Record<string, { arity: number | [number, number]; fn: (...args: number[]) => number }> = {
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  asin: { arity: 1, fn: Math.asin },
+  acos: { arity: 1, fn: Math.acos },
+  atan: { arity: 1, fn: Math.atan },
+  atan2: { arity: 2, fn: Math.atan2 },
+  sinh: { arity: 1, fn: Math.sinh },
+  cosh: { arity: 1, fn: Math.cosh },
+  tanh: { arity: 1, fn: Math.tanh },
+  exp: { arity: 1, fn: Math.exp },
+  ln: { arity: 1, fn: Math.log },
+  log: { arity: 1, fn: Math.log },
+  log10: { arity: 1, fn: Math.log10 },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  abs: { arity: 1, fn: Math.abs },
+  sign: { arity: 1, fn: Math.sign },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  pow: { arity: 2, fn: Math.pow },
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  π: Math.PI,
+  e: Math.E,
+};
+
+export const SUPPORTED_FUNCTIONS = Object.keys(FUNCTIONS);
+export const SUPPORTED_CONSTANTS = Object.keys(CONSTANTS);
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+const isIdentStart = (ch: string) => /[A-Za-z_\u0370-\u03ff]/.test(ch);
+const isIdentPart = (ch: string) => /[A-Za-z0-9_\u0370-\u03ff]/.test(ch);
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(src.slice(i));
+      if (!match) throw new ExpressionError(message('expression.malformed-number', { position: i + 1 }), i);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      const start = i;
+      while (i < src.length && isIdentPart(src[i])) i++;
+      tokens.push({ kind: 'ident', value: src.slice(start, i), pos: start });
+      continue;
+    }
+
+    if (src.startsWith('**', i)) {
+      tokens.push({ kind: 'op', value: '^', pos: i });
+      i += 2;
+      continue;
+    }
+
+    // Accept the typographic minus and multiplication signs people paste from notes
+    const normalized = ch === '−' ? '-' : ch === '·' || ch === '×' ? '*' : ch;
+    if ('+-*/^(),'.includes(normalized)) {
+      tokens.push({ kind: 'op', value: normalized, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(message('expression.unexpected-character', { ch, position: i + 1 }), i);
+  }
+
+  tokens.push({ kind: 'end', pos: src.length });
+  return tokens;
+};
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private variables: Set<string>;
+
+  constructor(tokens: Token[], variables: Set<string>) {
+    this.tokens = tokens;
+    this.variables = variables;
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().kind === 'end') throw new ExpressionError(message('expression.empty'), 0);
+    const node = this.expr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw this.unexpected(next);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const tok = this.peek();
+    return tok.kind === 'op' && tok.value === value;
+  }
+
+  private expect(value: string) {
+    const tok = this.next();
+    if (tok.kind !== 'op' || tok.value !== value) {
+      throw new ExpressionError(message('expression.expected', { value, position: tok.pos + 1 }), tok.pos);
+    }
+  }
+
+  private unexpected(tok: Token): ExpressionError {
+    const detail = tok.kind === 'end'
+      ? message('expression.unexpected-end', { position: tok.pos + 1 })
+      : message('expression.unexpected', { token: String(tok.value), position: tok.pos + 1 });
+    return new ExpressionError(detail, tok.pos);
+  }
+
+  private expr(): ExpressionNode {
+    let left = this.term();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = (this.next() as { value: '+' | '-' }).value;
+      left = { type: 'binary', op, left, right: this.term() };
+    }
+    return left;
+  }
+
+  private term(): ExpressionNode {
+    let left = this.unary();
+    for (;;) {
+      if (this.isOp('*') || this.isOp('/')) {
+        const op = (this.next() as { value: '*' | '/' }).value;
+        left = { type: 'binary', op, left, right: this.unary() };
+      } else if (this.startsImplicitProduct()) {
+        // `2x`, `3(x + y)`, `x y`
+        left = { type: 'binary', op: '*', left, right: this.power() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private startsImplicitProduct(): boolean {
+    const tok = this.peek();
+    return tok.kind === 'number' || tok.kind === 'ident' || (tok.kind === 'op' && tok.value === '(');
+  }
+
+  private unary(): ExpressionNode {
+    if (this.isOp('-')) {
+      this.next();
+      return { type: 'unary', op: '-', arg: this.unary() };
+    }
+    if (this.isOp('+')) {
+      this.next();
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): ExpressionNode {
+    const base = this.primary();
+    if (this.isOp('^')) {
+      this.next();
+      return { type: 'binary', op: '^', left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  private primary(): ExpressionNode {
+    const tok = this.next();
+
+    if (tok.kind === 'number') return { type: 'number', value: tok.value };
+
+    if (tok.kind === 'ident') {
+      // `x(1 - y)` is a product, not a call
+      const isValue = this.variables.has(tok.value) || Object.hasOwn(CONSTANTS, tok.value);
+      if (this.isOp('(') && !isValue) {
+        // Own keys only, so `constructor` or `toString` are not taken from Object.prototype
+        const spec = Object.hasOwn(FUNCTIONS, tok.value) ? FUNCTIONS[tok.value] : undefined;
+        if (!spec) throw new ExpressionError(message('expression.unknown-function', { name: tok.value }), tok.pos);
+        this.next();
+        const args: ExpressionNode[] = [];
+        if (!this.isOp(')')) {
+          args.push(this.expr());
+          while (this.isOp(',')) {
+            this.next();
+            args.push(this.expr());
+          }
+        }
+        this.expect(')');
+        const [min, max] = Array.isArray(spec.arity) ? spec.arity : [spec.arity, spec.arity];
+        if (args.length < min || args.length > max) {
+          const key = min !== max ? 'expression.arity-at-least' : min === 1 ? 'expression.arity-one' : 'expression.arity';
+          throw new ExpressionError(message(key, { name: tok.value, count: min }), tok.pos);
+        }
+        return { type: 'call', name: tok.value, args };
+      }
+      if (this.variables.has(tok.value)) return { type: 'variable', name: tok.value };
+      if (Object.hasOwn(CONSTANTS, tok.value)) return { type: 'number', value: CONSTANTS[tok.value] };
+      if (Object.hasOwn(FUNCTIONS, tok.value)) throw new ExpressionError(message('expression.needs-parentheses', { name: tok.value }), tok.pos);
+      throw new ExpressionError(message('expression.unknown-variable', { name: tok.value }), tok.pos);
+    }
+
+    if (tok.kind === 'op' && tok.value === '(') {
+      const inner = this.expr();
+      this.expect(')');
+      return inner;
+    }
+
+    throw this.unexpected(tok);
+  }
+}
+
+const BINARY_OPS: Record<'+' | '-' | '*' | '/' | '^', (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '^': Math.pow,
+};
+
+const compileNode = (node: ExpressionNode): ((scope: Scope) => number) => {
+  switch (node.type) {
+    case 'number': {
+      const value = node.value;
+      return () => value;
+    }
+    case 'variable': {
+      const name = node.name;
+      return (scope) => scope[name];
+    }
+    case 'unary': {
+      const arg = compileNode(node.arg);
+      return (scope) => -arg(scope);
+    }
+    case 'binary': {
+      const l = compileNode(node.left);
+      const r = compileNode(node.right);
+      const op = BINARY_OPS[node.op];
+      return (scope) => op(l(scope), r(scope));
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name].fn;
+      const args = node.args.map(compileNode);
+      if (args.length === 1) {
+        const [a0] = args;
+        return (scope) => fn(a0(scope));
+      }
+      return (scope) => fn(...args.map(a => a(scope)));
+    }
+  }
+};
+
+/**
+ * Parses and compiles an expression in the given variables.
+ * Throws an `ExpressionError` carrying the offending position on failure.
+ */
+export const parseExpression = (source: string, variables: string[] = ['x', 'y']): CompiledExpression => {
+  const ast = new Parser(tokenize(source), new Set(variables)).parse();
+  return { source, ast, evaluate: compileNode(ast) };
+};
+
+/**
+ * Like `parseExpression`, but returns the error message instead of throwing.
+ */
+export const tryParseExpression = (
+  source: string,
+  variables: string[] = ['x', 'y']
+): { expression: CompiledExpression | null; error: Message | null } => {
+  try {
+    return { expression: parseExpression(source, variables), error: null };
+  } catch (err) {
+    if (err instanceof ExpressionError) return { expression: null, error: err.detail };
+    throw err;
+  }
+};
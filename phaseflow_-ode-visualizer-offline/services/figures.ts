@@ -0,0 +1,206 @@
+
+import { Bounds, IntegratorMethod, Matrix2x2, Point, TimeSpan, Trajectory } from '../types';
+import { INTEGRATORS } from './integrators';
+import { runTask } from './engineTasks';
+
+/**
+ * One worksheet figure: a linear flow x' = Ax (or map x_{n+1} = Ax_n), the initial
+ * conditions to trace, and what to draw.
+ */
+export interface FigureSpec {
+  // File name of the figure, without extension
+  name: string;
+  matrix: Matrix2x2;
+  discrete: boolean;
+  initial: Point[];
+  viewport: Bounds;
+  // Time units (iterates, for a map) traced either way from each initial point
+  span: TimeSpan;
+  method: IntegratorMethod;
+  dt: number;
+  color: string;
+  directionField: boolean;
+  eigenlines: boolean;
+  equilibrium: boolean;
+  axisLabels: [string, string];
+}
+
+export class FigureSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FigureSpecError';
+  }
+}
+
+type Options = Omit<FigureSpec, 'name' | 'matrix' | 'initial' | 'span'> & { span: TimeSpan | null };
+
+// A null span means the app's default for the mode: 9 time units, or 100 iterates
+const DEFAULT_OPTIONS: Options = {
+  discrete: false,
+  viewport: { xMin: -5, xMax: 5, yMin: -5, yMax: 5 },
+  span: null,
+  method: 'rk4',
+  dt: 0.03,
+  color: '#2563eb',
+  directionField: true,
+  eigenlines: true,
+  equilibrium: true,
+  axisLabels: ['x', 'y']
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPair = (v: unknown): v is [number, number] => Array.isArray(v) && v.length === 2 && v.every(isNumber);
+
+const parseMatrix = (v: unknown, where: string): Matrix2x2 => {
+  // [[a, b], [c, d]] or { a, b, c, d }
+  if (Array.isArray(v) && v.length === 2 && isPair(v[0]) && isPair(v[1])) {
+    return { a: v[0][0], b: v[0][1], c: v[1][0], d: v[1][1] };
+  }
+  if (isObject(v) && isNumber(v.a) && isNumber(v.b) && isNumber(v.c) && isNumber(v.d)) {
+    return { a: v.a, b: v.b, c: v.c, d: v.d };
+  }
+  throw new FigureSpecError(`${where}: matrix must be [[a, b], [c, d]] or { a, b, c, d }`);
+};
+
+const parseViewport = (v: unknown, where: string): Bounds => {
+  // [xMin, xMax, yMin, yMax] or { xMin, xMax, yMin, yMax }
+  const [xMin, xMax, yMin, yMax] = Array.isArray(v) ? v : isObject(v) ? [v.xMin, v.xMax, v.yMin, v.yMax] : [];
+  if (![xMin, xMax, yMin, yMax].every(isNumber) || !(xMin < xMax) || !(yMin < yMax)) {
+    throw new FigureSpecError(`${where}: viewport must be [xMin, xMax, yMin, yMax] with xMin < xMax and yMin < yMax`);
+  }
+  return { xMin, xMax, yMin, yMax } as Bounds;
+};
+
+const parseSpan = (v: unknown, where: string): TimeSpan => {
+  // A single number covers both directions
+  if (isNumber(v) && v >= 0) return { forward: v, backward: v };
+  if (isObject(v) && isNumber(v.forward) && isNumber(v.backward) && v.forward >= 0 && v.backward >= 0) {
+    return { forward: v.forward, backward: v.backward };
+  }
+  throw new FigureSpecError(`${where}: span must be a number or { forward, backward }, not negative`);
+};
+
+const parseBoolean = (v: unknown, where: string, key: string): boolean => {
+  if (typeof v !== 'boolean') throw new FigureSpecError(`${where}: ${key} must be true or false`);
+  return v;
+};
+
+// The options set in `raw`, each checked; the rest come from `base`
+const parseOptions = (raw: Record<string, unknown>, base: Options, where: string): Options => {
+  const o = { ...base };
+  if (raw.discrete !== undefined) o.discrete = parseBoolean(raw.discrete, where, 'discrete');
+  if (raw.viewport !== undefined) o.viewport = parseViewport(raw.viewport, where);
+  if (raw.span !== undefined) o.span = parseSpan(raw.span, where);
+  if (raw.method !== undefined) {
+    if (typeof raw.method !== 'string' || !(raw.method in INTEGRATORS)) {
+      throw new FigureSpecError(`${where}: method must be one of ${Object.keys(INTEGRATORS).join(', ')}`);
+    }
+    o.method = raw.method as IntegratorMethod;
+  }
+  if (raw.dt !== undefined) {
+    if (!isNumber(raw.dt) || raw.dt <= 0) throw new FigureSpecError(`${where}: dt must be a positive number`);
+    o.dt = raw.dt;
+  }
+  if (raw.color !== undefined) {
+    if (typeof raw.color !== 'string') throw new FigureSpecError(`${where}: color must be a CSS colour`);
+    o.color = raw.color;
+  }
+  for (const key of ['directionField', 'eigenlines', 'equilibrium'] as const) {
+    if (raw[key] !== undefined) o[key] = parseBoolean(raw[key], where, key);
+  }
+  if (raw.axisLabels !== undefined) {
+    const labels = raw.axisLabels;
+    if (!Array.isArray(labels) || labels.length !== 2 || !labels.every(l => typeof l === 'string')) {
+      throw new FigureSpecError(`${where}: axisLabels must be two strings`);
+    }
+    o.axisLabels = [labels[0], labels[1]];
+  }
+  return o;
+};
+
+/**
+ * Checks a parsed spec file: either a list of figures, or `{ defaults, figures }` where
+ * `defaults` holds options shared by every figure. Unlike sessions nothing is guessed;
+ * the first problem is reported with the figure it is in.
+ */
+export const parseFigureSpecs = (raw: unknown): FigureSpec[] => {
+  const list = Array.isArray(raw) ? raw : isObject(raw) ? raw.figures : undefined;
+  if (!Array.isArray(list) || list.length === 0) throw new FigureSpecError('Expected a non-empty list of figures');
+  const defaults = isObject(raw) && raw.defaults !== undefined
+    ? isObject(raw.defaults) ? parseOptions(raw.defaults, DEFAULT_OPTIONS, 'defaults') : null
+    : DEFAULT_OPTIONS;
+  if (!defaults) throw new FigureSpecError('defaults must be an object');
+
+  const names = new Set<string>();
+  return list.map((f, i) => {
+    const where = isObject(f) && typeof f.name === 'string' ? `Figure "${f.name}"` : `Figure ${i + 1}`;
+    if (!isObject(f)) throw new FigureSpecError(`${where}: expected an object`);
+    const name = f.name === undefined ? `figure-${i + 1}` : f.name;
+    if (typeof name !== 'string' || !/^[\w.-]+$/.test(name)) {
+      throw new FigureSpecError(`${where}: name may only contain letters, digits, '.', '-' and '_'`);
+    }
+    if (names.has(name)) throw new FigureSpecError(`${where}: name used twice`);
+    names.add(name);
+
+    const initial = f.initial ?? [];
+    if (!Array.isArray(initial) || !initial.every(isPair)) {
+      throw new FigureSpecError(`${where}: initial must be a list of [x, y] points`);
+    }
+    const { span, ...options } = parseOptions(f, defaults, where);
+    const traced = span ?? (options.discrete ? { forward: 100, backward: 100 } : { forward: 9, backward: 9 });
+    return {
+      name,
+      matrix: parseMatrix(f.matrix, where),
+      initial: initial.map(([x, y]) => ({ x, y })),
+      // Iterates are whole numbers
+      span: options.discrete ? { forward: Math.round(traced.forward), backward: Math.round(traced.backward) } : traced,
+      ...options
+    };
+  });
+};
+
+/**
+ * The figure's trajectories, traced exactly as the app traces them. Integration stops a
+ * full view-width outside the view, as in the app.
+ */
+export const traceFigure = (spec: FigureSpec): Trajectory[] => {
+  const v = spec.viewport;
+  const w = v.xMax - v.xMin;
+  const h = v.yMax - v.yMin;
+  return spec.initial.map((initial, i) => ({
+    id: `${spec.name}-${i + 1}`,
+    initial,
+    color: spec.color,
+    method: spec.method,
+    points: runTask({
+      kind: 'trace',
+      spec: spec.discrete ? { kind: 'map', matrix: spec.matrix } : { kind: 'linear', matrix: spec.matrix, b: { x: 0, y: 0 }, g: null },
+      initial,
+      span: spec.span,
+      method: spec.method,
+      dt: spec.dt,
+      tolerance: 1e-6,
+      escape: { xMin: v.xMin - w, xMax: v.xMax + w, yMin: v.yMin - h, yMax: v.yMax + h }
+    })
+  }));
+};
+
+const num = (v: number) => String(+v.toFixed(3));
+
+const term = (coeff: number, variable: string, first: boolean) => {
+  if (coeff === 0) return '';
+  const sign = coeff < 0 ? (first ? '−' : ' − ') : first ? '' : ' + ';
+  return `${sign}${Math.abs(coeff) === 1 ? '' : num(Math.abs(coeff))}${variable}`;
+};
+
+/**
+ * The two equations of the system, as the app writes them.
+ */
+export const figureEquations = (spec: FigureSpec): string[] => {
+  const [u, v] = spec.axisLabels;
+  const [lu, lv, ru, rv] = spec.discrete ? [`${u}ₙ₊₁`, `${v}ₙ₊₁`, `${u}ₙ`, `${v}ₙ`] : [`${u}'`, `${v}'`, u, v];
+  const { a, b, c, d } = spec.matrix;
+  const rhs = (p: number, q: number) => `${term(p, ru, true)}${term(q, rv, p === 0)}` || '0';
+  return [`${lu} = ${rhs(a, b)}`, `${lv} = ${rhs(c, d)}`];
+};
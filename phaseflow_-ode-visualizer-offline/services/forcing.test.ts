@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { affineEquilibrium, compileOffset } from './forcing';
+
+describe('compileOffset', () => {
+  it('evaluates expressions and counts empty inputs as 0', () => {
+    const { b, errors } = compileOffset('2*pi', '1/3');
+    expect(b.x).toBeCloseTo(2 * Math.PI);
+    expect(b.y).toBeCloseTo(1 / 3);
+    expect(errors).toEqual({ x: null, y: null });
+    expect(compileOffset('', '0').b).toEqual({ x: 0, y: 0 });
+  });
+
+  it('reports inputs that fail to parse and counts them as 0', () => {
+    const { b, errors } = compileOffset('abc', '1 +');
+    expect(b).toEqual({ x: 0, y: 0 });
+    expect(errors.x?.key).toBe('expression.unknown-variable');
+    expect(errors.y?.key).toBe('expression.unexpected-end');
+  });
+});
+
+describe('affineEquilibrium', () => {
+  it('finds the point, line or absence of equilibria of y\' = Ay + b', () => {
+    expect(affineEquilibrium({ a: 2, b: 0, c: 0, d: -1 }, { x: 4, y: 3 })).toEqual({ kind: 'point', point: { x: -2, y: 3 } });
+    expect(affineEquilibrium({ a: 1, b: 1, c: 1, d: 1 }, { x: 1, y: 1 }).kind).toBe('line');
+    expect(affineEquilibrium({ a: 1, b: 1, c: 1, d: 1 }, { x: 1, y: 0 }).kind).toBe('none');
+    expect(affineEquilibrium({ a: 0, b: 0, c: 0, d: 0 }, { x: 0, y: 0 }).kind).toBe('plane');
+  });
+});
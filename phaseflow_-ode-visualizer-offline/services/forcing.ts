@@ -0,0 +1,96 @@
+
+import { AffineEquilibrium, Matrix2x2, Vector } from '../types';
+import { tryParseExpression } from './expressionParser';
+import { Message } from './i18n';
+
+export interface CompiledForcing {
+  // null when both components are identically zero or either fails to parse
+  g: ((t: number) => Vector) | null;
+  errors: { x: Message | null; y: Message | null };
+}
+
+const isZero = (source: string) => source.trim() === '' || /^[+-]?0*(\.0*)?$/.test(source.trim());
+
+/**
+ * Parses the components of g(t). Empty inputs count as 0.
+ */
+export const compileForcing = (xSource: string, ySource: string): CompiledForcing => {
+  if (isZero(xSource) && isZero(ySource)) return { g: null, errors: { x: null, y: null } };
+
+  const gx = isZero(xSource) ? null : tryParseExpression(xSource, ['t']);
+  const gy = isZero(ySource) ? null : tryParseExpression(ySource, ['t']);
+  const errors = { x: gx?.error ?? null, y: gy?.error ?? null };
+  if (errors.x || errors.y) return { g: null, errors };
+
+  const ex = gx?.expression ?? null;
+  const ey = gy?.expression ?? null;
+  const scope = { t: 0 };
+  return {
+    g: (t) => {
+      scope.t = t;
+      return { x: ex ? ex.evaluate(scope) : 0, y: ey ? ey.evaluate(scope) : 0 };
+    },
+    errors
+  };
+};
+
+export interface CompiledOffset {
+  // Components that fail to parse count as 0, like an empty input
+  b: Vector;
+  errors: { x: Message | null; y: Message | null };
+}
+
+/**
+ * Parses the components of the constant b as expressions without variables, so that
+ * 2*pi or 1/3 work. Empty inputs count as 0.
+ */
+export const compileOffset = (xSource: string, ySource: string): CompiledOffset => {
+  const parse = (source: string) => (isZero(source) ? null : tryParseExpression(source, []));
+  const [bx, by] = [parse(xSource), parse(ySource)];
+  const value = (compiled: ReturnType<typeof parse>) => {
+    const v = compiled?.expression?.evaluate({}) ?? 0;
+    return Number.isFinite(v) ? v : 0;
+  };
+  return {
+    b: { x: value(bx), y: value(by) },
+    errors: { x: bx?.error ?? null, y: by?.error ?? null }
+  };
+};
+
+/**
+ * Solves Ax + b = 0. For invertible A the equilibrium is −A⁻¹b; for singular A there is a
+ * line of equilibria if b lies in the column space of A, and none otherwise.
+ */
+export const affineEquilibrium = (m: Matrix2x2, b: Vector, tol: number = 1e-9): AffineEquilibrium => {
+  const det = m.a * m.d - m.b * m.c;
+  const scale = Math.max(1, Math.abs(m.a), Math.abs(m.b), Math.abs(m.c), Math.abs(m.d));
+
+  if (Math.abs(det) > tol * scale * scale) {
+    return {
+      kind: 'point',
+      point: {
+        x: -(m.d * b.x - m.b * b.y) / det,
+        y: -(-m.c * b.x + m.a * b.y) / det
+      }
+    };
+  }
+
+  const rowNorms = [Math.hypot(m.a, m.b), Math.hypot(m.c, m.d)];
+  const bZero = Math.hypot(b.x, b.y) < tol;
+  if (rowNorms[0] < tol && rowNorms[1] < tol) return bZero ? { kind: 'plane' } : { kind: 'none' };
+
+  // Rank one: both columns are parallel to some u, and b must be too
+  const u = Math.hypot(m.a, m.c) >= Math.hypot(m.b, m.d) ? { x: m.a, y: m.c } : { x: m.b, y: m.d };
+  if (Math.abs(u.x * b.y - u.y * b.x) > tol * scale * Math.max(1, Math.hypot(b.x, b.y))) return { kind: 'none' };
+
+  // The stronger row r gives r·x = −b_k; its normal direction spans the line
+  const useFirst = rowNorms[0] >= rowNorms[1];
+  const r = useFirst ? { x: m.a, y: m.b } : { x: m.c, y: m.d };
+  const rhs = -(useFirst ? b.x : b.y);
+  const rr = r.x * r.x + r.y * r.y;
+  return {
+    kind: 'line',
+    point: { x: (rhs * r.x) / rr, y: (rhs * r.y) / rr },
+    direction: { x: -r.y / Math.sqrt(rr), y: r.x / Math.sqrt(rr) }
+  };
+};
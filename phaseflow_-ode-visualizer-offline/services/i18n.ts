@@ -0,0 +1,104 @@
+
+import en, { MessageKey } from './locales/en';
+import nb from './locales/nb';
+
+export type { MessageKey };
+
+export type Locale = 'nb' | 'en';
+
+/**
+ * Text as data: a catalogue key and the values filled into its {placeholders}. Services
+ * return these instead of display text, so every view words a result the same way.
+ * A placeholder may itself be a message, translated along with the rest.
+ */
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export type MessageParams = Record<string, string | number | Message>;
+
+export type Translate = (message: MessageKey | Message, params?: MessageParams) => string;
+
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+  // A number in the locale's notation: fixed to `digits` decimals, or up to 6 without trailing zeros
+  n: (value: number, digits?: number) => string;
+}
+
+export const LOCALES: Record<Locale, { label: string; tag: string; catalogue: Record<MessageKey, string> }> = {
+  nb: { label: 'Norsk bokmål', tag: 'nb-NO', catalogue: nb },
+  en: { label: 'English', tag: 'en-GB', catalogue: en }
+};
+
+export const message = (key: MessageKey, params?: MessageParams): Message => (params ? { key, params } : { key });
+
+// Building a formatter is far slower than using one, and portraits format hundreds of ticks
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatter = (locale: Locale, min: number, max: number) => {
+  const id = `${locale}:${min}:${max}`;
+  let f = formatters.get(id);
+  if (!f) {
+    f = new Intl.NumberFormat(LOCALES[locale].tag, { minimumFractionDigits: min, maximumFractionDigits: max, useGrouping: false });
+    formatters.set(id, f);
+  }
+  return f;
+};
+
+/**
+ * Display text only, never read back: negatives get a true minus sign, as everywhere else
+ * in the interface, and values that round to zero lose theirs.
+ */
+export const formatNumber = (locale: Locale, value: number, digits?: number): string => {
+  if (!Number.isFinite(value)) return String(value);
+  const f = digits === undefined ? formatter(locale, 0, 6) : formatter(locale, digits, digits);
+  const text = f.format(value).replace('-', '−');
+  return /^−[0.,]+$/.test(text) ? text.slice(1) : text;
+};
+
+export const createI18n = (locale: Locale): I18n => {
+  const catalogue = LOCALES[locale].catalogue;
+  const n = (value: number, digits?: number) => formatNumber(locale, value, digits);
+  const t: Translate = (m, params) => {
+    const { key, params: values } = typeof m === 'string' ? { key: m, params } : m;
+    // Numbers in placeholders follow the locale too
+    return catalogue[key].replace(/\{(\w+)\}/g, (whole, name: string) => {
+      const v = values?.[name];
+      if (v === undefined) return whole;
+      return typeof v === 'number' ? n(v) : typeof v === 'string' ? v : t(v);
+    });
+  };
+  return { locale, t, n };
+};
+
+/**
+ * English text for messages that also end up in exceptions and logs.
+ */
+export const english = createI18n('en').t;
+
+const STORAGE_KEY = 'phaseflow.locale';
+
+/**
+ * The remembered choice, else the browser's language: Norwegian (any variety) gets
+ * bokmål, everything else English.
+ */
+export const initialLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved === 'nb' || saved === 'en') return saved;
+  } catch {
+    // Storage may be disabled; fall through to the browser language
+  }
+  if (typeof navigator === 'undefined') return 'en';
+  return navigator.languages?.some(l => /^(nb|nn|no)\b/i.test(l)) ? 'nb' : 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Not remembered, but the switch still applies to this visit
+  }
+};
@@ -0,0 +1,104 @@
+
+import { IntegratorMethod, Point, VectorField } from '../types';
+
+export interface StepResult {
+  point: Point;
+  // Local error estimate, only reported by embedded (adaptive) methods
+  error?: number;
+}
+
+/**
+ * A one-step method. Fixed-step methods are driven with a constant h by `solveODE`;
+ * adaptive ones report an error estimate so the driver can resize h.
+ */
+export interface Integrator {
+  label: string;
+  order: number;
+  adaptive: boolean;
+  step: (f: VectorField, p: Point, t: number, h: number) => StepResult;
+}
+
+const axpy = (p: Point, h: number, k: Point): Point => ({ x: p.x + h * k.x, y: p.y + h * k.y });
+
+const euler: Integrator = {
+  label: 'Euler',
+  order: 1,
+  adaptive: false,
+  step: (f, p, t, h) => ({ point: axpy(p, h, f(p, t)) })
+};
+
+const heun: Integrator = {
+  label: 'Heun',
+  order: 2,
+  adaptive: false,
+  step: (f, p, t, h) => {
+    const k1 = f(p, t);
+    const k2 = f(axpy(p, h, k1), t + h);
+    return {
+      point: {
+        x: p.x + (h / 2) * (k1.x + k2.x),
+        y: p.y + (h / 2) * (k1.y + k2.y)
+      }
+    };
+  }
+};
+
+const rk4: Integrator = {
+  label: 'RK4',
+  order: 4,
+  adaptive: false,
+  step: (f, p, t, h) => {
+    const k1 = f(p, t);
+    const k2 = f(axpy(p, h / 2, k1), t + h / 2);
+    const k3 = f(axpy(p, h / 2, k2), t + h / 2);
+    const k4 = f(axpy(p, h, k3), t + h);
+    return {
+      point: {
+        x: p.x + (h / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+        y: p.y + (h / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y)
+      }
+    };
+  }
+};
+
+// Dormand–Prince 5(4) tableau
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+
+const rk45: Integrator = {
+  label: 'RK45 (Dormand–Prince)',
+  order: 5,
+  adaptive: true,
+  step: (f, p, t, h) => {
+    const k: Point[] = [];
+    for (let s = 0; s < 7; s++) {
+      let x = p.x;
+      let y = p.y;
+      DP_A[s].forEach((a, j) => {
+        x += h * a * k[j].x;
+        y += h * a * k[j].y;
+      });
+      k.push(f({ x, y }, t + DP_C[s] * h));
+    }
+    let x5 = p.x, y5 = p.y, x4 = p.x, y4 = p.y;
+    for (let s = 0; s < 7; s++) {
+      x5 += h * DP_B5[s] * k[s].x;
+      y5 += h * DP_B5[s] * k[s].y;
+      x4 += h * DP_B4[s] * k[s].x;
+      y4 += h * DP_B4[s] * k[s].y;
+    }
+    return { point: { x: x5, y: y5 }, error: Math.hypot(x5 - x4, y5 - y4) };
+  }
+};
+
+export const INTEGRATORS: Record<IntegratorMethod, Integrator> = { euler, heun, rk4, rk45 };
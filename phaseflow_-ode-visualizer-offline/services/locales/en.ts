@@ -0,0 +1,414 @@
+
+/**
+ * The English catalogue, which also defines the keys: every other locale must translate
+ * all of them. Placeholders in braces are filled in by `t`.
+ */
+const en = {
+  // Number formats; commas are decimal marks in Norwegian, so lists use semicolons there
+  'format.separator': ', ',
+  'format.complex': '{re} {sign} {im}i',
+  'format.vector': '({x}, {y})',
+
+  // Classification of the equilibrium of a flow (analyzeMatrix)
+  'class.zero': 'Zero Matrix (Every Point Fixed)',
+  'class.shear': 'Shear (Nilpotent)',
+  'class.line-unstable': 'Line of Unstable Equilibria',
+  'class.line-stable': 'Line of Stable Equilibria',
+  'class.saddle': 'Saddle Point',
+  'class.star': 'Star Node',
+  'class.improper-node': 'Degenerate Node',
+  'class.node': 'Node',
+  'class.center': 'Center',
+  'class.spiral': 'Spiral Point',
+
+  // Classification of the fixed point of a map (analyzeMap)
+  'class.map.attracting-spiral': 'Attracting Spiral',
+  'class.map.repelling-spiral': 'Repelling Spiral',
+  'class.map.rational-rotation': 'Rational Rotation ({p}/{q} turn)',
+  'class.map.irrational-rotation': 'Irrational Rotation',
+  'class.map.attracting-node': 'Attracting Node',
+  'class.map.repelling-node': 'Repelling Node',
+  'class.map.saddle': 'Saddle',
+  'class.map.non-hyperbolic': 'Non-hyperbolic',
+
+  // Stability
+  'stability.neutral': 'Neutrally Stable',
+  'stability.linear-growth': 'Unstable (Linear Growth)',
+  'stability.repelling-line': 'Unstable (Repelling Line)',
+  'stability.attracting-line': 'Stable (Attracting Line)',
+  'stability.unstable': 'Unstable',
+  'stability.source': 'Unstable (Source)',
+  'stability.sink': 'Stable (Sink)',
+  'stability.spiral-source': 'Unstable (Spiral Source)',
+  'stability.spiral-sink': 'Stable (Spiral Sink)',
+  'stability.attractor': 'Stable (Attractor)',
+  'stability.repeller': 'Unstable (Repeller)',
+  'stability.map.saddle': 'Unstable (Saddle)',
+  'stability.marginal': 'Marginally Stable',
+  'stability.map.neutral': 'Neutral',
+
+  // Expression parser errors
+  'expression.malformed-number': 'Malformed number at position {position}',
+  'expression.unexpected-character': 'Unexpected character \'{ch}\' at position {position}',
+  'expression.empty': 'Expression is empty',
+  'expression.unexpected': 'Unexpected \'{token}\' at position {position}',
+  'expression.unexpected-end': 'Unexpected end of input at position {position}',
+  'expression.expected': 'Expected \'{value}\' at position {position}',
+  'expression.unknown-function': 'Unknown function \'{name}\'',
+  'expression.arity-one': '\'{name}\' expects 1 argument',
+  'expression.arity': '\'{name}\' expects {count} arguments',
+  'expression.arity-at-least': '\'{name}\' expects at least {count} arguments',
+  'expression.needs-parentheses': '\'{name}\' needs parentheses, e.g. {name}(x)',
+  'expression.unknown-variable': 'Unknown variable \'{name}\'',
+  'second-order.leading-zero': 'The coefficient of y\'\' must be nonzero',
+
+  // Session errors
+  'session.error.not-a-session': 'Not a PhaseFlow session',
+  'session.error.newer': 'Saved by a newer version of PhaseFlow (session format {version})',
+  'session.error.unsupported': 'Unsupported session format {version}',
+  'session.error.damaged-link': 'The link is damaged and could not be read',
+  'session.error.invalid-json': 'The file is not valid JSON',
+  'session.error.storage': 'The browser refused to store the session (storage full or disabled)',
+
+  // Worked derivation
+  'derivation.characteristic': 'Characteristic polynomial',
+  'derivation.with': 'with',
+  'derivation.and': 'and',
+  'derivation.quadratic': 'Quadratic formula',
+  'derivation.distinct': 'τ² − 4Δ > 0: two distinct real eigenvalues.',
+  'derivation.conjugate': 'τ² − 4Δ < 0: a complex conjugate pair, λ₂ = λ̄₁.',
+  'derivation.repeated': 'τ² − 4Δ = 0: one repeated real eigenvalue λ = τ/2.',
+  'derivation.eigenvector': 'Eigenvector',
+  'derivation.eigenvector-for': 'Eigenvector for {lambda}',
+  'derivation.row-1': 'Row 1',
+  'derivation.so-row-2': 'so row 2',
+  'derivation.row-1-vanishes': 'Row 1 vanishes; row 2',
+  'derivation.every-vector': 'every vector is an eigenvector',
+  'derivation.complex-note': 'The panel rescales v₁ by a complex factor so that Re v ⟂ Im v, the axes of the ellipses.',
+  'derivation.unit-note': 'The panel shows each v scaled to unit length.',
+  'derivation.classification': 'Classification',
+  'derivation.map-note': 'A map contracts along eigenvalues with |λ| < 1 and expands along those with |λ| > 1; |λ| = 1 is the borderline.',
+  'derivation.trace-positive': 'τ > 0: unstable.',
+  'derivation.trace-negative': 'τ < 0: stable.',
+  'derivation.reason.saddle': 'Δ < 0: the eigenvalues are real with opposite signs (λ₁λ₂ = Δ).',
+  'derivation.reason.node': 'Δ > 0 and τ² − 4Δ > 0: real eigenvalues of the same sign, that of τ = λ₁ + λ₂. {trace}',
+  'derivation.reason.spiral': 'Δ > 0 and τ² − 4Δ < 0: complex eigenvalues with real part τ/2. {trace}',
+  'derivation.reason.center': 'Δ > 0, τ² − 4Δ < 0 and τ = 0: purely imaginary eigenvalues.',
+  'derivation.reason.star': 'τ² − 4Δ = 0 and A = (τ/2)I: every vector is an eigenvector, so trajectories are rays. {trace}',
+  'derivation.reason.improper-node': 'τ² − 4Δ = 0 but A ≠ (τ/2)I: a single eigenvector, to which trajectories turn tangent. {trace}',
+  'derivation.reason.line-leave': 'Δ = 0 and τ ≠ 0: λ = 0 and λ = τ. The kernel is a line of equilibria that solutions leave along the other eigenvector.',
+  'derivation.reason.line-approach': 'Δ = 0 and τ ≠ 0: λ = 0 and λ = τ. The kernel is a line of equilibria that solutions approach along the other eigenvector.',
+  'derivation.reason.shear': 'Δ = 0 and τ = 0 but A ≠ 0: both eigenvalues are 0 and A² = 0, so x(t) = x₀ + tAx₀ drifts parallel to the kernel.',
+  'derivation.reason.zero': 'A = 0: every point is an equilibrium.',
+
+  // Seeding strategies
+  'seeding.grid': 'Grid',
+  'seeding.points-per-side': 'Points per side',
+  'seeding.ring': 'Ring',
+  'seeding.points': 'Points',
+  'seeding.radius': 'Radius',
+  'seeding.eigenlines': 'Eigenlines',
+  'seeding.offset': 'Offset',
+  'seeding.streamlines': 'Streamlines',
+  'seeding.max-lines': 'Max lines',
+  'seeding.separation': 'Separation',
+
+  // Practice quiz: classes and grading
+  'quiz.class.saddle': 'Saddle',
+  'quiz.class.sink': 'Stable node (sink)',
+  'quiz.class.source': 'Unstable node (source)',
+  'quiz.class.spiral-sink': 'Spiral sink',
+  'quiz.class.spiral-source': 'Spiral source',
+  'quiz.class.center': 'Center',
+  'quiz.class.repeated': 'Repeated eigenvalue (star or degenerate node)',
+  'quiz.class.degenerate': 'Degenerate (det A = 0)',
+  'quiz.feedback.class': '{label}.',
+  'quiz.feedback.answer': 'The answer is: {answer}.',
+  'quiz.feedback.no-class': 'No class chosen. The answer is: {answer}.',
+  'quiz.feedback.eigenvalues': 'λ = {first}, {second}.',
+  'quiz.feedback.not-asked': 'Not asked: the eigenvalues are complex.',
+  'quiz.feedback.eigenvectors': 'For example {first} and {second}.',
+  'quiz.feedback.no-sketch': 'Nothing sketched: click at least two points along a trajectory.',
+  'quiz.feedback.sketch': '{agreeing} of {segments} segments follow the flow.',
+
+  // Practice panel
+  'quiz.title': 'Practice',
+  'quiz.leave': 'Leave Practice',
+  'quiz.leave-mode': 'Leave practice mode',
+  'quiz.seed': 'Seed',
+  'quiz.new-seed': 'New random seed',
+  'quiz.seed-hint': 'Everyone using the same seed and settings gets the same matrices.',
+  'quiz.classes': 'Classes',
+  'quiz.entries': 'Entries',
+  'quiz.integers': 'Integers',
+  'quiz.halves': 'Halves',
+  'quiz.questions': 'Questions',
+  'quiz.start': 'Start quiz',
+  'quiz.recent': 'Recent scores',
+  'quiz.clear': 'Clear',
+  'quiz.none-generated': 'No matrices could be generated for these classes.',
+  'quiz.back': 'Back to settings',
+  'quiz.question': 'Question {n} of {count}',
+  'quiz.score': 'Score {score}/{total}',
+  'quiz.classification': 'Classification',
+  'quiz.choose': 'Choose…',
+  'quiz.eigenvalues': 'Eigenvalues',
+  'quiz.eigenvectors': 'Eigenvectors',
+  'quiz.eigenvectors-real': 'Eigenvectors (real eigenvalues only)',
+  'quiz.eigenvalue-placeholder': 'λ₁, e.g. -1 + 2i',
+  'quiz.eigenvector-placeholder': 'v₁, e.g. 1, -2',
+  'quiz.sketch': 'Sketch',
+  'quiz.sketch-hint': 'Click points along a trajectory on the portrait, in the direction of motion.',
+  'quiz.sketch-count': '{strokes}, {points}.',
+  'quiz.stroke': '{count} stroke',
+  'quiz.strokes': '{count} strokes',
+  'quiz.point': '{count} point',
+  'quiz.points': '{count} points',
+  'quiz.new-stroke': 'New stroke',
+  'quiz.check': 'Check answer',
+  'quiz.correct': '{score} of {total} correct',
+  'quiz.class': 'Class',
+  'quiz.finished': 'Quiz finished: {score}/{total}',
+  'quiz.retry': 'Retry seed',
+  'quiz.new': 'New quiz',
+  'quiz.next': 'Next question',
+
+  // Derivation panel
+  'derivation.title': 'Derivation',
+  'derivation.numeric': 'Numeric',
+  'derivation.exact': 'Exact',
+  'derivation.needs-rational': 'Exact form needs rational entries.',
+
+  // Parameter slider
+  'parameter.title': 'Parameter',
+  'parameter.pause': 'Pause',
+  'parameter.animate': 'Animate α',
+  'parameter.changes': 'Classification changes at α ≈ {values} (marked on the track).',
+  'parameter.no-changes': 'The classification does not change over this range.',
+
+  // Seeding controls
+  'seeding.title': 'Seeding',
+  'seeding.seed': 'Seed Trajectories',
+
+  // Trajectory panel
+  'trajectories.title': 'Trajectories ({count})',
+  'trajectories.empty': 'Click the portrait to trace one. Initial points can then be dragged.',
+  'trajectories.colour': 'Colour',
+  'trajectories.show': 'Show',
+  'trajectories.hide': 'Hide',
+  'trajectories.edit': 'Initial point and time span',
+  'trajectories.delete': 'Delete',
+  'trajectories.initial-x': 'Initial x',
+  'trajectories.initial-y': 'Initial y',
+  'trajectories.time-forward': 'Time forward',
+  'trajectories.time-backward': 'Time backward',
+  'trajectories.iterates-forward': 'Iterates forward',
+  'trajectories.iterates-backward': 'Iterates backward',
+  'trajectories.forward-span': 'Forward span',
+  'trajectories.backward-span': 'Backward span',
+
+  // Session panel
+  'session.title': 'Sessions',
+  'session.copy-link': 'Copy link',
+  'session.export': 'Export',
+  'session.import': 'Import',
+  'session.name': 'Session name',
+  'session.save': 'Save',
+  'session.load': 'Load',
+  'session.delete': 'Delete',
+  'session.copied': 'Link copied to the clipboard.',
+  'session.copy-manually': 'Copy the link from the address bar.',
+  'session.saved': 'Saved “{name}”.',
+  'session.loaded': 'Loaded {file}.',
+  'session.hint': 'The address bar always holds a link to the current portrait.',
+
+  // Export menu; the files themselves stay in English
+  'export.svg': 'Vector image, styles inlined',
+  'export.tikz': 'pgfplots figure for LaTeX',
+  'export.csv': 'Trajectory points (t, x, y)',
+  'export.json': 'Trajectories with metadata',
+  'export.png-scale': 'PNG scale',
+  'export.png-failed': 'The PNG could not be created.',
+  'export.needs-trajectory': 'Trace a trajectory to export its points.',
+
+  // Particle flow controls
+  'flow.play': 'Play',
+  'flow.pause': 'Pause',
+  'flow.step': 'Step one frame',
+  'flow.reseed': 'Reseed',
+  'flow.speed': 'Speed',
+  'flow.particles': 'Particles',
+  'flow.whole-view': 'Whole view',
+  'flow.blob': 'Blob',
+  'flow.drawing': 'Drag on the portrait to outline a region of initial conditions.',
+  'flow.in-blob': 'Particles start inside the outlined region. Click Blob to draw a new one.',
+  'flow.uniform': 'Particles are respawned across the view as they age.',
+
+  // Forcing and second-order input
+  'field-time': 'Direction field at t',
+  'forcing.title': 'Forcing',
+  'forcing.hint': 'g(t) may use t, e.g. cos(2t) or exp(-t). Trajectories start at t = 0.',
+  'second-order.hint': 'Drawn as the companion system in (y, y\'). Coefficients may use α; f(t) may use t, e.g. cos(2t).',
+
+  // Integrator controls; method names are not translated
+  'integrator.title': 'Integrator',
+  'integrator.method': '{label}, order {order}',
+  'integrator.initial-step': 'Initial step',
+  'integrator.step-size': 'Step size',
+  'integrator.tolerance': 'Tolerance',
+  'integrator.compare': 'Overlay comparison',
+  'integrator.none': 'None',
+  'integrator.dashed': '{label} (dashed)',
+
+  // Canonical form panel
+  'canonical.title': 'Canonical Form',
+  'canonical.distinct': 'Diagonal: the axes are the eigenlines',
+  'canonical.complex': 'Rotation-scaling [[α, −β], [β, α]]',
+  'canonical.defective': 'Jordan block: v and a generalized eigenvector w',
+  'canonical.scalar': 'Already canonical: A = λI',
+  'canonical.map-coordinates': 'In the coordinates u = P⁻¹x the map reads',
+  'canonical.flow-coordinates': 'In the coordinates u = P⁻¹(x − x*) the system reads',
+  'canonical.side-by-side': 'Show the canonical portrait side by side',
+  'canonical.unavailable': 'Canonical coordinates are taken about an equilibrium, so they need one and no time-dependent forcing.',
+
+  // Eigenvalue plane
+  'eigenplane.title': 'Eigenvalue Plane',
+  'eigenplane.hint': 'Orbits shrink along eigenvalues inside the unit circle and grow along those outside it; a pair on the circle turns every iterate by arg λ.',
+
+  // Exact solution panel
+  'closed-form.title': 'Exact Solution',
+  'closed-form.the-closed-form': 'The closed form',
+  'closed-form.unavailable': 'needs an equilibrium x* and no time-dependent forcing.',
+  'closed-form.distinct': 'Distinct real eigenvalues',
+  'closed-form.complex': 'Complex conjugate pair',
+  'closed-form.defective': 'Repeated eigenvalue, one eigenvector',
+  'closed-form.scalar': 'Scalar matrix A = λI',
+  'closed-form.where': 'where',
+  'closed-form.with': 'with',
+  'closed-form.any-c': 'for any c ∈ ℝ²',
+  'closed-form.every-vector': 'every vector is an eigenvector',
+  'closed-form.draw': 'Draw exact solutions (dotted)',
+  'closed-form.needs-trajectory': 'Trace a trajectory to see its particular solution.',
+  'closed-form.from': 'from ({x}, {y})',
+  'closed-form.deviation': 'Maximum distance between the numerical path and the exact solution at the same times',
+  'closed-form.error': '{method} error {value}',
+
+  // Time series
+  'time-series.title': 'Time Series',
+  'time-series.empty': 'Trace a trajectory to plot {x}(t) and {y}(t).',
+  'time-series.turn': 'Turn per step arg λ = {value}°',
+  'time-series.scale': 'Scale per step |λ| = {value}',
+  'time-series.ratios': 'Ratios per step λ₁ = {first}, λ₂ = {second}',
+  'time-series.period': 'Period 2π/β = {value}',
+  'time-series.envelope': 'Envelope e^(αt), α = {value}',
+  'time-series.rates': 'Rates λ₁ = {first}, λ₂ = {second}',
+  'time-series.time-constants': 'Time constants 1/|λ| = {values}',
+
+  // Trace–determinant plane
+  'trace-det.title': 'Trace–Determinant Plane',
+  'trace-det.saddle': 'Saddle',
+  'trace-det.spiral-sink': 'Spiral sink',
+  'trace-det.spiral-source': 'Spiral source',
+  'trace-det.sink': 'Sink',
+  'trace-det.source': 'Source',
+  'trace-det.centers': 'Centers',
+  'trace-det.degenerate': 'Degenerate',
+  'trace-det.hint': 'Drag the dot to pick a matrix with that trace and determinant.',
+  'trace-det.path': 'The dashed curve is the path of the matrix as α sweeps its range.',
+  'trace-det.outside': 'The current matrix lies outside this window; its dot is pinned to the edge.',
+
+  // Phase portrait
+  'portrait.zoom-in': 'Zoom in',
+  'portrait.zoom-out': 'Zoom out',
+  'portrait.fit': 'Fit to trajectories',
+  'portrait.reset-view': 'Reset view',
+  'portrait.ranges': 'Set x/y ranges',
+  'portrait.show-arrows': 'Join iterates with arrows',
+  'portrait.hide-arrows': 'Hide arrows between iterates',
+  'portrait.layers': 'Nullclines and regions',
+  'portrait.flow': 'Particle flow',
+  'portrait.export': 'Export',
+  'portrait.nullcline': '{equation} nullcline',
+  'portrait.sign-regions': 'Sign regions',
+  'portrait.eigenline': 'Eigenline {index}',
+  'rotation.clockwise': 'clockwise',
+  'rotation.counterclockwise': 'counterclockwise',
+
+  // Header and presets
+  'app.tagline': 'Planar System Visualization Tool',
+  'app.language': 'Language',
+  'app.practice': 'Practice',
+  'preset.saddle': 'Saddle',
+  'preset.spiral-sink': 'Spiral Sink',
+  'preset.stable-node': 'Stable Node',
+  'preset.center': 'Center',
+  'preset.resonance': 'Resonance',
+  'preset.bifurcation': 'Bifurcation (α)',
+  'preset.underdamped': 'Underdamped',
+  'preset.critically-damped': 'Critically Damped',
+  'preset.overdamped': 'Overdamped',
+  'preset.driven': 'Driven',
+  'preset.damped-pendulum': 'Damped Pendulum',
+  'preset.lotka-volterra': 'Lotka–Volterra',
+  'preset.van-der-pol': 'Van der Pol',
+
+  // System input
+  'input.title': 'Manual Input',
+  'input.linear': 'Linear (Matrix)',
+  'input.nonlinear': 'Nonlinear (f, g)',
+  'input.flow': 'Flow',
+  'input.map': 'Map',
+  'input.matrix': 'Matrix A',
+  'input.alpha-hint': 'Entries may depend on a parameter α (or alpha), e.g. a = α or b = 1 − α².',
+  'input.equations': 'System Equations',
+  'input.map-hint': 'Click the portrait to plot the orbit of a point. Forcing is not applied to maps.',
+  'input.syntax-hint': 'Use x, y, + − * / ^, sin, cos, tan, exp, ln, sqrt, abs, … and the constants pi, e.',
+  'input.reset': 'Reset Plot',
+  'trajectories.default-name': 'Trajectory {index}',
+
+  // Eigen-analysis panel
+  'analysis.title': 'Eigen-Analysis',
+  'analysis.equilibria-in-view': 'Equilibria in view ({count})',
+  'analysis.no-equilibria': 'No equilibria found in the visible window.',
+  'analysis.non-hyperbolic': 'Non-hyperbolic: the linearization does not determine the local behaviour.',
+  'analysis.state': 'State',
+  'analysis.damping': 'Damping',
+  'damping.undamped': 'Undamped',
+  'damping.underdamped': 'Underdamped',
+  'damping.critically-damped': 'Critically damped',
+  'damping.overdamped': 'Overdamped',
+  'damping.negatively-damped': 'Negatively damped',
+  'analysis.not-oscillator': 'Not an oscillator: c/a ≤ 0 gives no restoring force.',
+  'analysis.free-response': 'Of the free response; f(t) adds a forced one.',
+  'analysis.fixed-points': 'Fixed Points',
+  'analysis.origin-only': 'Only the origin: 1 is not an eigenvalue of A.',
+  'analysis.fixed-line': 'A line through the origin along {direction}, the eigenvector for λ = 1.',
+  'analysis.map-every-point': 'Every point (A = I).',
+  'analysis.equilibrium': 'Equilibrium',
+  'analysis.non-autonomous': 'None in general: g(t) makes the system non-autonomous. A describes the homogeneous part; solutions are x_h(t) + x_p(t).',
+  'analysis.line': 'Line',
+  'analysis.flow-every-point': 'Every point (A = 0, b = 0).',
+  'analysis.no-equilibrium': 'None: A is singular and b is not in its column space.',
+  'analysis.values-vectors': 'Values & Vectors',
+  'analysis.ellipse-axes': 'Re(v) and Im(v) span the ellipse axes;',
+  'analysis.spiral-axes': 'Re(v) and Im(v) span the spiral axes;',
+  'analysis.flow-turns': 'the flow turns',
+  'analysis.iterate-turns': 'each iterate turns',
+
+  // Portrait captions and help cards
+  'portrait.original': 'Original coordinates',
+  'portrait.canonical': 'Canonical coordinates',
+  'info.tracing-title': 'Interactive Tracing',
+  'info.tracing-click': 'Click anywhere',
+  'info.tracing': 'on the phase portrait to set an initial condition and trace its trajectory.',
+  'info.eigenvalues-title': 'Eigenvalues',
+  'info.eigenvalues': 'Real parts determine growth or decay. Imaginary parts cause rotation.',
+  'info.eigenvectors-title': 'Eigenvectors',
+  'info.eigenvectors-define': 'These define',
+  'info.invariant-lines': 'invariant lines',
+  'info.eigenvectors': ': directions where the flow is purely radial.'
+};
+
+export default en;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,414 @@
+
+import { MessageKey } from './en';
+
+/**
+ * Norwegian bokmål, typed against the English keys so that a missing translation is a
+ * type error.
+ */
+const nb: Record<MessageKey, string> = {
+  // Number formats; commas are decimal marks in Norwegian, so lists use semicolons there
+  'format.separator': '; ',
+  'format.complex': '{re} {sign} {im}i',
+  'format.vector': '({x}; {y})',
+
+  // Classification of the equilibrium of a flow (analyzeMatrix)
+  'class.zero': 'Nullmatrise (alle punkter er faste)',
+  'class.shear': 'Skjær (nilpotent)',
+  'class.line-unstable': 'Linje av ustabile likevektspunkter',
+  'class.line-stable': 'Linje av stabile likevektspunkter',
+  'class.saddle': 'Sadelpunkt',
+  'class.star': 'Stjernenode',
+  'class.improper-node': 'Degenerert node',
+  'class.node': 'Node',
+  'class.center': 'Senter',
+  'class.spiral': 'Spiralpunkt',
+
+  // Classification of the fixed point of a map (analyzeMap)
+  'class.map.attracting-spiral': 'Tiltrekkende spiral',
+  'class.map.repelling-spiral': 'Frastøtende spiral',
+  'class.map.rational-rotation': 'Rasjonal rotasjon ({p}/{q} omdreining)',
+  'class.map.irrational-rotation': 'Irrasjonal rotasjon',
+  'class.map.attracting-node': 'Tiltrekkende node',
+  'class.map.repelling-node': 'Frastøtende node',
+  'class.map.saddle': 'Sadel',
+  'class.map.non-hyperbolic': 'Ikke-hyperbolsk',
+
+  // Stability
+  'stability.neutral': 'Nøytralt stabil',
+  'stability.linear-growth': 'Ustabil (lineær vekst)',
+  'stability.repelling-line': 'Ustabil (frastøtende linje)',
+  'stability.attracting-line': 'Stabil (tiltrekkende linje)',
+  'stability.unstable': 'Ustabil',
+  'stability.source': 'Ustabil (kilde)',
+  'stability.sink': 'Stabil (sluk)',
+  'stability.spiral-source': 'Ustabil (spiralkilde)',
+  'stability.spiral-sink': 'Stabil (spiralsluk)',
+  'stability.attractor': 'Stabil (tiltrekker)',
+  'stability.repeller': 'Ustabil (frastøter)',
+  'stability.map.saddle': 'Ustabil (sadel)',
+  'stability.marginal': 'Marginalt stabil',
+  'stability.map.neutral': 'Nøytral',
+
+  // Expression parser errors
+  'expression.malformed-number': 'Ugyldig tall i posisjon {position}',
+  'expression.unexpected-character': 'Uventet tegn \'{ch}\' i posisjon {position}',
+  'expression.empty': 'Uttrykket er tomt',
+  'expression.unexpected': 'Uventet \'{token}\' i posisjon {position}',
+  'expression.unexpected-end': 'Uttrykket slutter for tidlig (posisjon {position})',
+  'expression.expected': 'Forventet \'{value}\' i posisjon {position}',
+  'expression.unknown-function': 'Ukjent funksjon \'{name}\'',
+  'expression.arity-one': '\'{name}\' tar 1 argument',
+  'expression.arity': '\'{name}\' tar {count} argumenter',
+  'expression.arity-at-least': '\'{name}\' tar minst {count} argumenter',
+  'expression.needs-parentheses': '\'{name}\' må ha parenteser, f.eks. {name}(x)',
+  'expression.unknown-variable': 'Ukjent variabel \'{name}\'',
+  'second-order.leading-zero': 'Koeffisienten foran y\'\' kan ikke være null',
+
+  // Session errors
+  'session.error.not-a-session': 'Ikke en PhaseFlow-økt',
+  'session.error.newer': 'Lagret av en nyere versjon av PhaseFlow (øktformat {version})',
+  'session.error.unsupported': 'Øktformat {version} støttes ikke',
+  'session.error.damaged-link': 'Lenken er skadet og kunne ikke leses',
+  'session.error.invalid-json': 'Filen er ikke gyldig JSON',
+  'session.error.storage': 'Nettleseren nektet å lagre økten (lageret er fullt eller slått av)',
+
+  // Worked derivation
+  'derivation.characteristic': 'Karakteristisk polynom',
+  'derivation.with': 'der',
+  'derivation.and': 'og',
+  'derivation.quadratic': 'Andregradsformelen',
+  'derivation.distinct': 'τ² − 4Δ > 0: to ulike reelle egenverdier.',
+  'derivation.conjugate': 'τ² − 4Δ < 0: et komplekskonjugert par, λ₂ = λ̄₁.',
+  'derivation.repeated': 'τ² − 4Δ = 0: én dobbel reell egenverdi λ = τ/2.',
+  'derivation.eigenvector': 'Egenvektor',
+  'derivation.eigenvector-for': 'Egenvektor for {lambda}',
+  'derivation.row-1': 'Rad 1',
+  'derivation.so-row-2': 'så rad 2',
+  'derivation.row-1-vanishes': 'Rad 1 er null; rad 2',
+  'derivation.every-vector': 'alle vektorer er egenvektorer',
+  'derivation.complex-note': 'Panelet skalerer v₁ med en kompleks faktor slik at Re v ⟂ Im v, aksene til ellipsene.',
+  'derivation.unit-note': 'Panelet viser hver v skalert til lengde 1.',
+  'derivation.classification': 'Klassifisering',
+  'derivation.map-note': 'En avbildning trekker sammen langs egenverdier med |λ| < 1 og strekker ut langs dem med |λ| > 1; |λ| = 1 er grensetilfellet.',
+  'derivation.trace-positive': 'τ > 0: ustabil.',
+  'derivation.trace-negative': 'τ < 0: stabil.',
+  'derivation.reason.saddle': 'Δ < 0: egenverdiene er reelle med motsatt fortegn (λ₁λ₂ = Δ).',
+  'derivation.reason.node': 'Δ > 0 og τ² − 4Δ > 0: reelle egenverdier med samme fortegn, fortegnet til τ = λ₁ + λ₂. {trace}',
+  'derivation.reason.spiral': 'Δ > 0 og τ² − 4Δ < 0: komplekse egenverdier med realdel τ/2. {trace}',
+  'derivation.reason.center': 'Δ > 0, τ² − 4Δ < 0 og τ = 0: rent imaginære egenverdier.',
+  'derivation.reason.star': 'τ² − 4Δ = 0 og A = (τ/2)I: alle vektorer er egenvektorer, så banene er stråler. {trace}',
+  'derivation.reason.improper-node': 'τ² − 4Δ = 0, men A ≠ (τ/2)I: bare én egenvektor, som banene blir tangentielle til. {trace}',
+  'derivation.reason.line-leave': 'Δ = 0 og τ ≠ 0: λ = 0 og λ = τ. Kjernen er en linje av likevektspunkter som løsningene forlater langs den andre egenvektoren.',
+  'derivation.reason.line-approach': 'Δ = 0 og τ ≠ 0: λ = 0 og λ = τ. Kjernen er en linje av likevektspunkter som løsningene nærmer seg langs den andre egenvektoren.',
+  'derivation.reason.shear': 'Δ = 0 og τ = 0, men A ≠ 0: begge egenverdiene er 0 og A² = 0, så x(t) = x₀ + tAx₀ driver parallelt med kjernen.',
+  'derivation.reason.zero': 'A = 0: alle punkter er likevektspunkter.',
+
+  // Seeding strategies
+  'seeding.grid': 'Rutenett',
+  'seeding.points-per-side': 'Punkter per side',
+  'seeding.ring': 'Ring',
+  'seeding.points': 'Punkter',
+  'seeding.radius': 'Radius',
+  'seeding.eigenlines': 'Egenlinjer',
+  'seeding.offset': 'Avstand',
+  'seeding.streamlines': 'Strømlinjer',
+  'seeding.max-lines': 'Maks. linjer',
+  'seeding.separation': 'Innbyrdes avstand',
+
+  // Practice quiz: classes and grading
+  'quiz.class.saddle': 'Sadelpunkt',
+  'quiz.class.sink': 'Stabil node (sluk)',
+  'quiz.class.source': 'Ustabil node (kilde)',
+  'quiz.class.spiral-sink': 'Spiralsluk',
+  'quiz.class.spiral-source': 'Spiralkilde',
+  'quiz.class.center': 'Senter',
+  'quiz.class.repeated': 'Dobbel egenverdi (stjernenode eller degenerert node)',
+  'quiz.class.degenerate': 'Degenerert (det A = 0)',
+  'quiz.feedback.class': '{label}.',
+  'quiz.feedback.answer': 'Svaret er: {answer}.',
+  'quiz.feedback.no-class': 'Ingen klasse valgt. Svaret er: {answer}.',
+  'quiz.feedback.eigenvalues': 'λ = {first}; {second}.',
+  'quiz.feedback.not-asked': 'Ikke spurt om: egenverdiene er komplekse.',
+  'quiz.feedback.eigenvectors': 'For eksempel {first} og {second}.',
+  'quiz.feedback.no-sketch': 'Ingenting skissert: klikk minst to punkter langs en bane.',
+  'quiz.feedback.sketch': '{agreeing} av {segments} segmenter følger strømningen.',
+
+  // Practice panel
+  'quiz.title': 'Øving',
+  'quiz.leave': 'Avslutt øving',
+  'quiz.leave-mode': 'Gå ut av øvingsmodus',
+  'quiz.seed': 'Frø',
+  'quiz.new-seed': 'Nytt tilfeldig frø',
+  'quiz.seed-hint': 'Alle som bruker samme frø og innstillinger, får de samme matrisene.',
+  'quiz.classes': 'Klasser',
+  'quiz.entries': 'Elementer',
+  'quiz.integers': 'Heltall',
+  'quiz.halves': 'Halve',
+  'quiz.questions': 'Spørsmål',
+  'quiz.start': 'Start quiz',
+  'quiz.recent': 'Siste resultater',
+  'quiz.clear': 'Tøm',
+  'quiz.none-generated': 'Fant ingen matriser i disse klassene.',
+  'quiz.back': 'Tilbake til innstillingene',
+  'quiz.question': 'Spørsmål {n} av {count}',
+  'quiz.score': 'Poeng {score}/{total}',
+  'quiz.classification': 'Klassifisering',
+  'quiz.choose': 'Velg …',
+  'quiz.eigenvalues': 'Egenverdier',
+  'quiz.eigenvectors': 'Egenvektorer',
+  'quiz.eigenvectors-real': 'Egenvektorer (bare reelle egenverdier)',
+  'quiz.eigenvalue-placeholder': 'λ₁, f.eks. -0,5 + 2i',
+  'quiz.eigenvector-placeholder': 'v₁, f.eks. 0,5; -2',
+  'quiz.sketch': 'Skisse',
+  'quiz.sketch-hint': 'Klikk punkter langs en bane i portrettet, i bevegelsesretningen.',
+  'quiz.sketch-count': '{strokes}, {points}.',
+  'quiz.stroke': '{count} strøk',
+  'quiz.strokes': '{count} strøk',
+  'quiz.point': '{count} punkt',
+  'quiz.points': '{count} punkter',
+  'quiz.new-stroke': 'Nytt strøk',
+  'quiz.check': 'Sjekk svaret',
+  'quiz.correct': '{score} av {total} riktige',
+  'quiz.class': 'Klasse',
+  'quiz.finished': 'Quizen er ferdig: {score}/{total}',
+  'quiz.retry': 'Samme frø igjen',
+  'quiz.new': 'Ny quiz',
+  'quiz.next': 'Neste spørsmål',
+
+  // Derivation panel
+  'derivation.title': 'Utregning',
+  'derivation.numeric': 'Desimaltall',
+  'derivation.exact': 'Eksakt',
+  'derivation.needs-rational': 'Eksakt form krever rasjonale elementer.',
+
+  // Parameter slider
+  'parameter.title': 'Parameter',
+  'parameter.pause': 'Pause',
+  'parameter.animate': 'Animer α',
+  'parameter.changes': 'Klassifiseringen endres ved α ≈ {values} (markert på skalaen).',
+  'parameter.no-changes': 'Klassifiseringen endres ikke i dette intervallet.',
+
+  // Seeding controls
+  'seeding.title': 'Såing',
+  'seeding.seed': 'Så baner',
+
+  // Trajectory panel
+  'trajectories.title': 'Baner ({count})',
+  'trajectories.empty': 'Klikk i portrettet for å tegne en. Startpunktene kan deretter dras.',
+  'trajectories.colour': 'Farge',
+  'trajectories.show': 'Vis',
+  'trajectories.hide': 'Skjul',
+  'trajectories.edit': 'Startpunkt og tidsintervall',
+  'trajectories.delete': 'Slett',
+  'trajectories.initial-x': 'Start-x',
+  'trajectories.initial-y': 'Start-y',
+  'trajectories.time-forward': 'Tid forover',
+  'trajectories.time-backward': 'Tid bakover',
+  'trajectories.iterates-forward': 'Iterasjoner forover',
+  'trajectories.iterates-backward': 'Iterasjoner bakover',
+  'trajectories.forward-span': 'Intervall forover',
+  'trajectories.backward-span': 'Intervall bakover',
+
+  // Session panel
+  'session.title': 'Økter',
+  'session.copy-link': 'Kopier lenke',
+  'session.export': 'Eksporter',
+  'session.import': 'Importer',
+  'session.name': 'Navn på økten',
+  'session.save': 'Lagre',
+  'session.load': 'Åpne',
+  'session.delete': 'Slett',
+  'session.copied': 'Lenken er kopiert til utklippstavlen.',
+  'session.copy-manually': 'Kopier lenken fra adressefeltet.',
+  'session.saved': 'Lagret «{name}».',
+  'session.loaded': 'Åpnet {file}.',
+  'session.hint': 'Adressefeltet inneholder alltid en lenke til det gjeldende portrettet.',
+
+  // Export menu; the files themselves stay in English
+  'export.svg': 'Vektorbilde med innebygde stiler',
+  'export.tikz': 'pgfplots-figur for LaTeX',
+  'export.csv': 'Banepunkter (t, x, y)',
+  'export.json': 'Baner med metadata',
+  'export.png-scale': 'PNG-skala',
+  'export.png-failed': 'PNG-filen kunne ikke lages.',
+  'export.needs-trajectory': 'Tegn en bane for å eksportere punktene.',
+
+  // Particle flow controls
+  'flow.play': 'Spill av',
+  'flow.pause': 'Pause',
+  'flow.step': 'Ett bilde fram',
+  'flow.reseed': 'Så på nytt',
+  'flow.speed': 'Fart',
+  'flow.particles': 'Partikler',
+  'flow.whole-view': 'Hele visningen',
+  'flow.blob': 'Område',
+  'flow.drawing': 'Dra i portrettet for å avgrense et område av startbetingelser.',
+  'flow.in-blob': 'Partiklene starter inne i det avgrensede området. Klikk Område for å tegne et nytt.',
+  'flow.uniform': 'Partiklene fornyes over hele visningen etter hvert som de eldes.',
+
+  // Forcing and second-order input
+  'field-time': 'Retningsfelt ved t',
+  'forcing.title': 'Påtvunget ledd',
+  'forcing.hint': 'g(t) kan bruke t, f.eks. cos(2t) eller exp(-t). Banene starter ved t = 0.',
+  'second-order.hint': 'Tegnet som det tilhørende systemet i (y, y\'). Koeffisientene kan bruke α; f(t) kan bruke t, f.eks. cos(2t).',
+
+  // Integrator controls; method names are not translated
+  'integrator.title': 'Integrator',
+  'integrator.method': '{label}, orden {order}',
+  'integrator.initial-step': 'Startsteg',
+  'integrator.step-size': 'Steglengde',
+  'integrator.tolerance': 'Toleranse',
+  'integrator.compare': 'Sammenligning i samme plott',
+  'integrator.none': 'Ingen',
+  'integrator.dashed': '{label} (stiplet)',
+
+  // Canonical form panel
+  'canonical.title': 'Kanonisk form',
+  'canonical.distinct': 'Diagonal: aksene er egenlinjene',
+  'canonical.complex': 'Rotasjon og skalering [[α, −β], [β, α]]',
+  'canonical.defective': 'Jordanblokk: v og en generalisert egenvektor w',
+  'canonical.scalar': 'Allerede kanonisk: A = λI',
+  'canonical.map-coordinates': 'I koordinatene u = P⁻¹x blir avbildningen',
+  'canonical.flow-coordinates': 'I koordinatene u = P⁻¹(x − x*) blir systemet',
+  'canonical.side-by-side': 'Vis det kanoniske portrettet ved siden av',
+  'canonical.unavailable': 'Kanoniske koordinater tas om et likevektspunkt, så de krever et slikt og ingen tidsavhengig påtvunget ledd.',
+
+  // Eigenvalue plane
+  'eigenplane.title': 'Egenverdiplanet',
+  'eigenplane.hint': 'Banene krymper langs egenverdier innenfor enhetssirkelen og vokser langs dem utenfor; et par på sirkelen dreier hver iterasjon med arg λ.',
+
+  // Exact solution panel
+  'closed-form.title': 'Eksakt løsning',
+  'closed-form.the-closed-form': 'Den lukkede formen',
+  'closed-form.unavailable': 'krever et likevektspunkt x* og ingen tidsavhengig påtvunget ledd.',
+  'closed-form.distinct': 'Ulike reelle egenverdier',
+  'closed-form.complex': 'Komplekskonjugert par',
+  'closed-form.defective': 'Dobbel egenverdi, én egenvektor',
+  'closed-form.scalar': 'Skalarmatrise A = λI',
+  'closed-form.where': 'der',
+  'closed-form.with': 'med',
+  'closed-form.any-c': 'for alle c ∈ ℝ²',
+  'closed-form.every-vector': 'alle vektorer er egenvektorer',
+  'closed-form.draw': 'Tegn eksakte løsninger (prikket)',
+  'closed-form.needs-trajectory': 'Tegn en bane for å se den partikulære løsningen.',
+  'closed-form.from': 'fra ({x}; {y})',
+  'closed-form.deviation': 'Største avstand mellom den numeriske banen og den eksakte løsningen ved samme tidspunkter',
+  'closed-form.error': '{method} feil {value}',
+
+  // Time series
+  'time-series.title': 'Tidsserier',
+  'time-series.empty': 'Tegn en bane for å plotte {x}(t) og {y}(t).',
+  'time-series.turn': 'Dreining per steg arg λ = {value}°',
+  'time-series.scale': 'Skalering per steg |λ| = {value}',
+  'time-series.ratios': 'Forhold per steg λ₁ = {first}; λ₂ = {second}',
+  'time-series.period': 'Periode 2π/β = {value}',
+  'time-series.envelope': 'Omhyllingskurve e^(αt), α = {value}',
+  'time-series.rates': 'Rater λ₁ = {first}; λ₂ = {second}',
+  'time-series.time-constants': 'Tidskonstanter 1/|λ| = {values}',
+
+  // Trace–determinant plane
+  'trace-det.title': 'Spor–determinant-planet',
+  'trace-det.saddle': 'Sadel',
+  'trace-det.spiral-sink': 'Spiralsluk',
+  'trace-det.spiral-source': 'Spiralkilde',
+  'trace-det.sink': 'Sluk',
+  'trace-det.source': 'Kilde',
+  'trace-det.centers': 'Sentre',
+  'trace-det.degenerate': 'Degenerert',
+  'trace-det.hint': 'Dra punktet for å velge en matrise med det sporet og den determinanten.',
+  'trace-det.path': 'Den stiplede kurven er matrisens vei når α går gjennom intervallet.',
+  'trace-det.outside': 'Den gjeldende matrisen ligger utenfor dette vinduet; punktet er festet til kanten.',
+
+  // Phase portrait
+  'portrait.zoom-in': 'Zoom inn',
+  'portrait.zoom-out': 'Zoom ut',
+  'portrait.fit': 'Tilpass til banene',
+  'portrait.reset-view': 'Tilbakestill visningen',
+  'portrait.ranges': 'Angi x/y-intervaller',
+  'portrait.show-arrows': 'Forbind iterasjonene med piler',
+  'portrait.hide-arrows': 'Skjul pilene mellom iterasjonene',
+  'portrait.layers': 'Nullkliner og områder',
+  'portrait.flow': 'Partikkelstrøm',
+  'portrait.export': 'Eksporter',
+  'portrait.nullcline': '{equation}-nullklin',
+  'portrait.sign-regions': 'Fortegnsområder',
+  'portrait.eigenline': 'Egenlinje {index}',
+  'rotation.clockwise': 'med klokken',
+  'rotation.counterclockwise': 'mot klokken',
+
+  // Header and presets
+  'app.tagline': 'Visualisering av plane systemer',
+  'app.language': 'Språk',
+  'app.practice': 'Øving',
+  'preset.saddle': 'Sadel',
+  'preset.spiral-sink': 'Spiralsluk',
+  'preset.stable-node': 'Stabil node',
+  'preset.center': 'Senter',
+  'preset.resonance': 'Resonans',
+  'preset.bifurcation': 'Bifurkasjon (α)',
+  'preset.underdamped': 'Underkritisk dempet',
+  'preset.critically-damped': 'Kritisk dempet',
+  'preset.overdamped': 'Overkritisk dempet',
+  'preset.driven': 'Drevet',
+  'preset.damped-pendulum': 'Dempet pendel',
+  'preset.lotka-volterra': 'Lotka–Volterra',
+  'preset.van-der-pol': 'Van der Pol',
+
+  // System input
+  'input.title': 'Manuell inndata',
+  'input.linear': 'Lineært (matrise)',
+  'input.nonlinear': 'Ikke-lineært (f, g)',
+  'input.flow': 'Strøm',
+  'input.map': 'Avbildning',
+  'input.matrix': 'Matrise A',
+  'input.alpha-hint': 'Elementene kan avhenge av en parameter α (eller alpha), f.eks. a = α eller b = 1 − α².',
+  'input.equations': 'Likningssystem',
+  'input.map-hint': 'Klikk i portrettet for å plotte banen til et punkt. Påtvungne ledd brukes ikke for avbildninger.',
+  'input.syntax-hint': 'Bruk x, y, + − * / ^, sin, cos, tan, exp, ln, sqrt, abs, … og konstantene pi, e.',
+  'input.reset': 'Nullstill plottet',
+  'trajectories.default-name': 'Bane {index}',
+
+  // Eigen-analysis panel
+  'analysis.title': 'Egenanalyse',
+  'analysis.equilibria-in-view': 'Likevektspunkter i visningen ({count})',
+  'analysis.no-equilibria': 'Fant ingen likevektspunkter i det synlige vinduet.',
+  'analysis.non-hyperbolic': 'Ikke-hyperbolsk: lineariseringen bestemmer ikke den lokale oppførselen.',
+  'analysis.state': 'Tilstand',
+  'analysis.damping': 'Demping',
+  'damping.undamped': 'Udempet',
+  'damping.underdamped': 'Underkritisk dempet',
+  'damping.critically-damped': 'Kritisk dempet',
+  'damping.overdamped': 'Overkritisk dempet',
+  'damping.negatively-damped': 'Negativt dempet',
+  'analysis.not-oscillator': 'Ikke en oscillator: c/a ≤ 0 gir ingen tilbakedrivende kraft.',
+  'analysis.free-response': 'For den frie responsen; f(t) legger til en påtvunget.',
+  'analysis.fixed-points': 'Fikspunkter',
+  'analysis.origin-only': 'Bare origo: 1 er ikke en egenverdi for A.',
+  'analysis.fixed-line': 'En linje gjennom origo langs {direction}, egenvektoren for λ = 1.',
+  'analysis.map-every-point': 'Alle punkter (A = I).',
+  'analysis.equilibrium': 'Likevektspunkt',
+  'analysis.non-autonomous': 'Ingen generelt: g(t) gjør systemet ikke-autonomt. A beskriver den homogene delen; løsningene er x_h(t) + x_p(t).',
+  'analysis.line': 'Linje',
+  'analysis.flow-every-point': 'Alle punkter (A = 0, b = 0).',
+  'analysis.no-equilibrium': 'Ingen: A er singulær og b ligger ikke i kolonnerommet.',
+  'analysis.values-vectors': 'Verdier og vektorer',
+  'analysis.ellipse-axes': 'Re(v) og Im(v) utspenner ellipseaksene;',
+  'analysis.spiral-axes': 'Re(v) og Im(v) utspenner spiralaksene;',
+  'analysis.flow-turns': 'strømmen dreier',
+  'analysis.iterate-turns': 'hver iterasjon dreier',
+
+  // Portrait captions and help cards
+  'portrait.original': 'Opprinnelige koordinater',
+  'portrait.canonical': 'Kanoniske koordinater',
+  'info.tracing-title': 'Interaktiv sporing',
+  'info.tracing-click': 'Klikk hvor som helst',
+  'info.tracing': 'i faseportrettet for å velge en startbetingelse og tegne banen.',
+  'info.eigenvalues-title': 'Egenverdier',
+  'info.eigenvalues': 'Realdelene bestemmer vekst eller avtakelse. Imaginærdelene gir rotasjon.',
+  'info.eigenvectors-title': 'Egenvektorer',
+  'info.eigenvectors-define': 'Disse definerer',
+  'info.invariant-lines': 'invariante linjer',
+  'info.eigenvectors': ': retninger der strømmen er rent radiell.'
+};
+
+export default nb;
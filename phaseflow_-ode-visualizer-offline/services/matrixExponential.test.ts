@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Matrix2x2 } from '../types';
+import { closedForm, exactSolution, matrixExponential, particularSolution, SolutionCase } from './matrixExponential';
+
+// e^{At} by its Taylor series, for comparison on small t
+const seriesExponential = (m: Matrix2x2, t: number): Matrix2x2 => {
+  let term: Matrix2x2 = { a: 1, b: 0, c: 0, d: 1 };
+  const sum = { ...term };
+  for (let k = 1; k < 40; k++) {
+    term = {
+      a: (t / k) * (term.a * m.a + term.b * m.c), b: (t / k) * (term.a * m.b + term.b * m.d),
+      c: (t / k) * (term.c * m.a + term.d * m.c), d: (t / k) * (term.c * m.b + term.d * m.d)
+    };
+    sum.a += term.a; sum.b += term.b; sum.c += term.c; sum.d += term.d;
+  }
+  return sum;
+};
+
+const CASES: [SolutionCase, Matrix2x2][] = [
+  ['distinct', { a: 1, b: 2, c: 3, d: -1 }],
+  ['complex', { a: -0.5, b: 2, c: -1, d: -0.5 }],
+  ['defective', { a: 2, b: 1, c: 0, d: 2 }],
+  ['defective', { a: 0, b: 1, c: 0, d: 0 }],
+  ['scalar', { a: -1, b: 0, c: 0, d: -1 }]
+];
+
+describe('matrixExponential', () => {
+  it.each(CASES)('is exact in the %s case', (kind, m) => {
+    expect(closedForm(m).kind).toBe(kind);
+    for (const t of [-0.7, 0, 0.3, 1.5]) {
+      const exact = matrixExponential(m, t);
+      const series = seriesExponential(m, t);
+      for (const k of ['a', 'b', 'c', 'd'] as const) expect(exact[k]).toBeCloseTo(series[k], 8);
+    }
+  });
+
+  it('treats a star with rounding noise as scalar, like the classification', () => {
+    expect(closedForm({ a: 2, b: 1e-13, c: 0, d: 2 }).kind).toBe('scalar');
+  });
+});
+
+describe('exactSolution and particularSolution', () => {
+  it.each(CASES)('agree in the %s case', (kind, m) => {
+    const cf = closedForm(m);
+    const initial = { x: 0.8, y: -0.3 };
+    const { x, y } = particularSolution(cf, initial);
+    for (const t of [0, 0.4, 1.2]) {
+      const p = exactSolution(m, initial, t, cf);
+      const component = ({ p: a, q: b }: { p: number; q: number }) => {
+        switch (kind) {
+          case 'distinct': return a * Math.exp(cf.eigenvalues![0] * t) + b * Math.exp(cf.eigenvalues![1] * t);
+          case 'complex': return Math.exp(cf.s * t) * (a * Math.cos(cf.omega * t) + b * Math.sin(cf.omega * t));
+          default: return Math.exp(cf.s * t) * (a + b * t);
+        }
+      };
+      expect(component(x)).toBeCloseTo(p.x, 10);
+      expect(component(y)).toBeCloseTo(p.y, 10);
+    }
+  });
+
+  it('solves y\' = Ay + b about the equilibrium', () => {
+    const m = { a: -1, b: 0, c: 0, d: -2 };
+    // Ax* + b = 0 for b = (1, 4) gives x* = (1, 2)
+    const shift = { x: 1, y: 2 };
+    const p = exactSolution(m, { x: 0, y: 0 }, 1, closedForm(m), shift);
+    expect(p.x).toBeCloseTo(1 - Math.exp(-1), 12);
+    expect(p.y).toBeCloseTo(2 - 2 * Math.exp(-2), 12);
+  });
+});
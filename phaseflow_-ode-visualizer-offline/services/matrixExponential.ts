@@ -0,0 +1,184 @@
+
+import { Matrix2x2, Point, TimedPoint } from '../types';
+import { analyzeMatrix } from './odeSolver';
+
+/**
+ * Closed-form solutions of y' = Ay for 2x2 A.
+ *
+ * Writing A = sI + N with s = tr(A)/2, the traceless part satisfies N² = qI where
+ * q = tr(A)²/4 − det(A) = disc/4 (Cayley–Hamilton). That gives e^{At} exactly:
+ *   q > 0:  e^{st} (cosh(ωt) I + sinh(ωt)/ω N),  ω = √q
+ *   q < 0:  e^{st} (cos(ωt) I + sin(ωt)/ω N),    ω = √−q
+ *   q = 0:  e^{st} (I + tN)                      (N nilpotent, or zero for scalar A)
+ *
+ * For y' = Ay + b with an equilibrium x* (Ax* + b = 0) the solution is x* + e^{At}(x₀ − x*),
+ * so the functions below take an optional `shift` = x*.
+ */
+
+export type SolutionCase = 'distinct' | 'complex' | 'defective' | 'scalar';
+
+export interface ClosedForm {
+  kind: SolutionCase;
+  // Real part of the eigenvalues (the shift s above)
+  s: number;
+  // √|q|: half the gap between real eigenvalues, or the rotation frequency β
+  omega: number;
+  N: Matrix2x2;
+  eigenvalues: [number, number] | null;
+  // distinct: eigenvectors v₁, v₂; complex: Re(v), Im(v) of the eigenvector for s + iω;
+  // defective: eigenvector v and generalized eigenvector w with (A − λI)w = v
+  vectors: [Point, Point] | null;
+}
+
+/**
+ * Coefficients of one component of a particular solution; see `particularSolution`.
+ */
+export interface ComponentSolution {
+  p: number;
+  q: number;
+}
+
+export const closedForm = (m: Matrix2x2): ClosedForm => {
+  const s = (m.a + m.d) / 2;
+  const N: Matrix2x2 = { a: m.a - s, b: m.b, c: m.c, d: m.d - s };
+  const q = s * s - (m.a * m.d - m.b * m.c);
+  // The case follows the classification, with its tolerance, so both agree on e.g. a star node
+  const analysis = analyzeMatrix(m);
+  const ev = analysis.eigenvectors!;
+
+  if (analysis.eigenvalues[0].im !== 0) {
+    return {
+      kind: 'complex',
+      s,
+      omega: Math.sqrt(-q),
+      N,
+      eigenvalues: null,
+      vectors: [{ x: ev[0].x.re, y: ev[0].y.re }, { x: ev[0].x.im, y: ev[0].y.im }]
+    };
+  }
+
+  if (analysis.kind === 'star' || analysis.kind === 'zero') {
+    return { kind: 'scalar', s, omega: 0, N, eigenvalues: [s, s], vectors: null };
+  }
+
+  if (analysis.kind !== 'improper-node' && analysis.kind !== 'shear') {
+    const omega = Math.sqrt(q);
+    return {
+      kind: 'distinct',
+      s,
+      omega,
+      N,
+      eigenvalues: [s + omega, s - omega],
+      vectors: [{ x: ev[0].x.re, y: ev[0].y.re }, { x: ev[1].x.re, y: ev[1].y.re }]
+    };
+  }
+
+  // N² = 0, so every nonzero column N e_j is an eigenvector and e_j is a generalized one
+  const useFirst = Math.abs(N.a) + Math.abs(N.c) >= Math.abs(N.b) + Math.abs(N.d);
+  const v = useFirst ? { x: N.a, y: N.c } : { x: N.b, y: N.d };
+  const w = useFirst ? { x: 1, y: 0 } : { x: 0, y: 1 };
+  return { kind: 'defective', s, omega: 0, N, eigenvalues: [s, s], vectors: [v, w] };
+};
+
+/**
+ * e^{At}, exact for every 2x2 case.
+ */
+export const matrixExponential = (m: Matrix2x2, t: number, cf: ClosedForm = closedForm(m)): Matrix2x2 => {
+  const scale = Math.exp(cf.s * t);
+  let alpha: number;
+  let beta: number;
+  if (cf.kind === 'distinct') {
+    alpha = Math.cosh(cf.omega * t);
+    beta = Math.sinh(cf.omega * t) / cf.omega;
+  } else if (cf.kind === 'complex') {
+    alpha = Math.cos(cf.omega * t);
+    beta = Math.sin(cf.omega * t) / cf.omega;
+  } else {
+    alpha = 1;
+    beta = t;
+  }
+  return {
+    a: scale * (alpha + beta * cf.N.a),
+    b: scale * beta * cf.N.b,
+    c: scale * beta * cf.N.c,
+    d: scale * (alpha + beta * cf.N.d)
+  };
+};
+
+const ORIGIN: Point = { x: 0, y: 0 };
+
+export const exactSolution = (
+  m: Matrix2x2,
+  initial: Point,
+  t: number,
+  cf: ClosedForm = closedForm(m),
+  shift: Point = ORIGIN
+): Point => {
+  const E = matrixExponential(m, t, cf);
+  const u = { x: initial.x - shift.x, y: initial.y - shift.y };
+  return { x: shift.x + E.a * u.x + E.b * u.y, y: shift.y + E.c * u.x + E.d * u.y };
+};
+
+/**
+ * Coefficients of the particular solution through `initial`, per component:
+ *   distinct:  x(t) = p e^{λ₁t} + q e^{λ₂t}
+ *   complex:   x(t) = e^{st} (p cos ωt + q sin ωt)
+ *   defective: x(t) = e^{λt} (p + q t)
+ *   scalar:    x(t) = p e^{λt}  (q = 0)
+ */
+export const particularSolution = (cf: ClosedForm, initial: Point): { x: ComponentSolution; y: ComponentSolution } => {
+  const Nx = { x: cf.N.a * initial.x + cf.N.b * initial.y, y: cf.N.c * initial.x + cf.N.d * initial.y };
+
+  if (cf.kind === 'distinct') {
+    // Solve c₁v₁ + c₂v₂ = initial
+    const [v1, v2] = cf.vectors!;
+    const det = v1.x * v2.y - v2.x * v1.y;
+    const c1 = (initial.x * v2.y - v2.x * initial.y) / det;
+    const c2 = (v1.x * initial.y - initial.x * v1.y) / det;
+    return {
+      x: { p: c1 * v1.x, q: c2 * v2.x },
+      y: { p: c1 * v1.y, q: c2 * v2.y }
+    };
+  }
+  if (cf.kind === 'complex') {
+    return {
+      x: { p: initial.x, q: Nx.x / cf.omega },
+      y: { p: initial.y, q: Nx.y / cf.omega }
+    };
+  }
+  return {
+    x: { p: initial.x, q: Nx.x },
+    y: { p: initial.y, q: Nx.y }
+  };
+};
+
+/**
+ * Largest distance between a numerically integrated path and the exact solution at the same times.
+ */
+export const maxDeviation = (m: Matrix2x2, initial: Point, points: TimedPoint[], shift: Point = ORIGIN): number => {
+  const cf = closedForm(m);
+  return points.reduce((worst, p) => {
+    const exact = exactSolution(m, initial, p.t, cf, shift);
+    return Math.max(worst, Math.hypot(p.x - exact.x, p.y - exact.y));
+  }, 0);
+};
+
+/**
+ * Samples the exact solution over the same time span as a numerical path.
+ */
+export const sampleExactSolution = (
+  m: Matrix2x2,
+  initial: Point,
+  tStart: number,
+  tEnd: number,
+  samples: number = 400,
+  shift: Point = ORIGIN
+): TimedPoint[] => {
+  const cf = closedForm(m);
+  const result: TimedPoint[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const t = tStart + ((tEnd - tStart) * i) / samples;
+    result.push({ ...exactSolution(m, initial, t, cf, shift), t });
+  }
+  return result;
+};
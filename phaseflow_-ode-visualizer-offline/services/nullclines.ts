@@ -0,0 +1,128 @@
+
+import { Bounds, Point, VectorField } from '../types';
+
+/**
+ * The field sampled on an (nx + 1) × (ny + 1) lattice of nodes spanning `bounds`.
+ * `fx` and `fy` are row-major, node (i, j) at index j * (nx + 1) + i.
+ */
+export interface FieldGrid {
+  bounds: Bounds;
+  nx: number;
+  ny: number;
+  fx: Float64Array;
+  fy: Float64Array;
+}
+
+export const sampleFieldGrid = (field: VectorField, bounds: Bounds, nx: number, ny: number, t: number = 0): FieldGrid => {
+  const fx = new Float64Array((nx + 1) * (ny + 1));
+  const fy = new Float64Array((nx + 1) * (ny + 1));
+  for (let j = 0; j <= ny; j++) {
+    const y = bounds.yMin + ((bounds.yMax - bounds.yMin) * j) / ny;
+    for (let i = 0; i <= nx; i++) {
+      const x = bounds.xMin + ((bounds.xMax - bounds.xMin) * i) / nx;
+      const v = field({ x, y }, t);
+      fx[j * (nx + 1) + i] = v.x;
+      fy[j * (nx + 1) + i] = v.y;
+    }
+  }
+  return { bounds, nx, ny, fx, fy };
+};
+
+/**
+ * Segments of the zero level set of one component, by marching squares with linear
+ * interpolation along the cell edges. For a linear field this reproduces the nullcline
+ * ax + by = 0 exactly; a component that vanishes identically has no isolated curve
+ * and yields nothing.
+ */
+export const zeroContour = (grid: FieldGrid, component: 'x' | 'y'): [Point, Point][] => {
+  const { bounds, nx, ny } = grid;
+  const values = component === 'x' ? grid.fx : grid.fy;
+  const dx = (bounds.xMax - bounds.xMin) / nx;
+  const dy = (bounds.yMax - bounds.yMin) / ny;
+  const value = (i: number, j: number) => values[j * (nx + 1) + i];
+  const segments: [Point, Point][] = [];
+
+  // Point where the value crosses zero on the edge between two nodes
+  const cross = (x0: number, y0: number, v0: number, x1: number, y1: number, v1: number): Point => {
+    const s = v0 === v1 ? 0.5 : v0 / (v0 - v1);
+    return { x: x0 + s * (x1 - x0), y: y0 + s * (y1 - y0) };
+  };
+
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const x0 = bounds.xMin + i * dx;
+      const y0 = bounds.yMin + j * dy;
+      const x1 = x0 + dx;
+      const y1 = y0 + dy;
+      // Corners counter-clockwise from the bottom left
+      const v = [value(i, j), value(i + 1, j), value(i + 1, j + 1), value(i, j + 1)];
+      if (v.some(c => !Number.isFinite(c))) continue;
+      if (v.every(c => c === 0)) continue;
+
+      const corners: [number, number][] = [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+      const crossings: Point[] = [];
+      for (let k = 0; k < 4; k++) {
+        const a = v[k];
+        const b = v[(k + 1) % 4];
+        // Count a node that is exactly zero once, as the start of its edge
+        if ((a < 0 && b >= 0) || (a >= 0 && b < 0)) {
+          const [ax, ay] = corners[k];
+          const [bx, by] = corners[(k + 1) % 4];
+          crossings.push(cross(ax, ay, a, bx, by, b));
+        }
+      }
+      if (crossings.length === 2) {
+        segments.push([crossings[0], crossings[1]]);
+      } else if (crossings.length === 4) {
+        // Saddle cell: pair the crossings according to the sign at the cell centre
+        const centre = (v[0] + v[1] + v[2] + v[3]) / 4;
+        if ((centre >= 0) === (v[0] >= 0)) {
+          segments.push([crossings[0], crossings[1]], [crossings[2], crossings[3]]);
+        } else {
+          segments.push([crossings[3], crossings[0]], [crossings[1], crossings[2]]);
+        }
+      }
+    }
+  }
+  return segments;
+};
+
+export type SignPattern = '++' | '+-' | '-+' | '--';
+
+export const SIGN_PATTERNS: SignPattern[] = ['++', '+-', '-+', '--'];
+
+const patternOf = (fx: number, fy: number): SignPattern | null => {
+  if (!Number.isFinite(fx) || !Number.isFinite(fy) || fx === 0 || fy === 0) return null;
+  return `${fx > 0 ? '+' : '-'}${fy > 0 ? '+' : '-'}` as SignPattern;
+};
+
+/**
+ * The grid cells grouped by the sign pattern of (x', y') at their centre, as horizontal
+ * runs of cells (one rectangle per run) in data coordinates.
+ */
+export const signRegions = (grid: FieldGrid): Record<SignPattern, Bounds[]> => {
+  const { bounds, nx, ny, fx, fy } = grid;
+  const dx = (bounds.xMax - bounds.xMin) / nx;
+  const dy = (bounds.yMax - bounds.yMin) / ny;
+  const regions: Record<SignPattern, Bounds[]> = { '++': [], '+-': [], '-+': [], '--': [] };
+  const at = (values: Float64Array, i: number, j: number) =>
+    (values[j * (nx + 1) + i] + values[j * (nx + 1) + i + 1] + values[(j + 1) * (nx + 1) + i] + values[(j + 1) * (nx + 1) + i + 1]) / 4;
+
+  for (let j = 0; j < ny; j++) {
+    let runStart = 0;
+    let runPattern: SignPattern | null = null;
+    for (let i = 0; i <= nx; i++) {
+      const pattern = i < nx ? patternOf(at(fx, i, j), at(fy, i, j)) : null;
+      if (pattern === runPattern && i < nx) continue;
+      if (runPattern) {
+        regions[runPattern].push({
+          xMin: bounds.xMin + runStart * dx, xMax: bounds.xMin + i * dx,
+          yMin: bounds.yMin + j * dy, yMax: bounds.yMin + (j + 1) * dy
+        });
+      }
+      runStart = i;
+      runPattern = pattern;
+    }
+  }
+  return regions;
+};
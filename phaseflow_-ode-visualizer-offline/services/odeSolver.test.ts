@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { IntegratorMethod, VectorField } from '../types';
+import { analyzeMatrix, solveODE, startODE } from './odeSolver';
+
+// x' = y, y' = −x: the circle through (1, 0), traversed clockwise
+const rotation: VectorField = p => ({ x: p.y, y: -p.x });
+const METHODS: IntegratorMethod[] = ['euler', 'heun', 'rk4', 'rk45'];
+
+describe('solveODE', () => {
+  it('converges with the order of each method', () => {
+    // Error at t = 1 from the exact (cos 1, −sin 1), with 20 steps
+    const errors = Object.fromEntries(METHODS.map(method => {
+      const points = solveODE(rotation, { x: 1, y: 0 }, 20, 0.05, true, method, 1e-8);
+      const end = points[points.length - 1];
+      expect(end.t).toBeCloseTo(1);
+      return [method, Math.hypot(end.x - Math.cos(1), end.y + Math.sin(1))];
+    }));
+    expect(errors.euler).toBeGreaterThan(1e-2);
+    expect(errors.heun).toBeLessThan(1e-3);
+    expect(errors.rk4).toBeLessThan(1e-6);
+    expect(errors.rk45).toBeLessThan(1e-6);
+  });
+
+  it('stamps backward points with negative times', () => {
+    const points = solveODE(rotation, { x: 1, y: 0 }, 10, 0.1, false);
+    expect(points[points.length - 1].t).toBeCloseTo(-1);
+    expect(points[points.length - 1].y).toBeCloseTo(Math.sin(1), 5);
+  });
+
+  it('stops where the path leaves the escape bounds or the field its domain', () => {
+    const growth: VectorField = p => ({ x: p.x, y: 0 });
+    for (const method of METHODS) {
+      const points = solveODE(growth, { x: 1, y: 0 }, 1000, 0.01, true, method);
+      expect(Math.max(...points.map(p => p.x))).toBeLessThanOrEqual(20);
+    }
+    // log(x) is undefined once x' = −1 carries x past 0
+    const logField: VectorField = p => ({ x: -1, y: Math.log(p.x) });
+    for (const method of METHODS) {
+      const points = solveODE(logField, { x: 0.5, y: 0 }, 100, 0.01, true, method);
+      expect(points.every(p => Number.isFinite(p.x) && Number.isFinite(p.y))).toBe(true);
+      expect(points[points.length - 1].t).toBeLessThan(0.51);
+    }
+  });
+});
+
+describe('startODE', () => {
+  it('gives the same points in chunks as in one go', () => {
+    for (const method of METHODS) {
+      const whole = solveODE(rotation, { x: 1, y: 0.5 }, 400, 0.05, true, method, 1e-6);
+      const solver = startODE(rotation, { x: 1, y: 0.5 }, 400, 0.05, true, method, 1e-6);
+      let chunks = 1;
+      while (!solver.advance(7)) chunks++;
+      expect(chunks).toBeGreaterThan(1);
+      expect(solver.points).toEqual(whole);
+      // A finished solver stays finished
+      expect(solver.advance(7)).toBe(true);
+      expect(solver.points).toHaveLength(whole.length);
+    }
+  });
+
+  it('is finished at once for an empty span', () => {
+    const solver = startODE(rotation, { x: 1, y: 0 }, 0);
+    expect(solver.advance(1)).toBe(true);
+    expect(solver.points).toEqual([{ x: 1, y: 0, t: 0 }]);
+  });
+});
+
+describe('analyzeMatrix', () => {
+  it('classifies each region of the trace–determinant plane', () => {
+    const kinds = [
+      [{ a: 1, b: 0, c: 0, d: -1 }, 'saddle'],
+      [{ a: -1, b: 0, c: 0, d: -2 }, 'node'],
+      [{ a: -1, b: 2, c: -2, d: -1 }, 'spiral'],
+      [{ a: 0, b: 1, c: -1, d: 0 }, 'center'],
+      [{ a: 2, b: 0, c: 0, d: 2 }, 'star'],
+      [{ a: 2, b: 1, c: 0, d: 2 }, 'improper-node'],
+      [{ a: 1, b: 1, c: 1, d: 1 }, 'line'],
+      [{ a: 0, b: 1, c: 0, d: 0 }, 'shear'],
+      [{ a: 0, b: 0, c: 0, d: 0 }, 'zero']
+    ] as const;
+    for (const [m, kind] of kinds) expect(analyzeMatrix(m).kind).toBe(kind);
+    expect(analyzeMatrix({ a: 2, b: 0, c: 0, d: 3 }).stabilityKind).toBe('unstable');
+    expect(analyzeMatrix({ a: -1, b: 1, c: 0, d: 0 }).stabilityKind).toBe('stable');
+  });
+
+  it('treats rounding noise within the tolerance as zero', () => {
+    expect(analyzeMatrix({ a: 1e-16, b: 1, c: -1, d: 0 }).kind).toBe('center');
+    expect(analyzeMatrix({ a: 2, b: 1e-12, c: 0, d: 2 }).kind).toBe('star');
+    expect(analyzeMatrix({ a: 1, b: 1, c: 1, d: 1 + 1e-12 }).kind).toBe('line');
+    expect(analyzeMatrix({ a: 1e-5, b: 1, c: -1, d: 0 }).kind).toBe('spiral');
+    expect(analyzeMatrix({ a: 1e-5, b: 1, c: -1, d: 0 }, 1e-4).kind).toBe('center');
+  });
+
+  it('scales the tolerance with the entries', () => {
+    // det = 0.01 is below 1e-9 · (1e4)², so zero at this size of entries
+    expect(analyzeMatrix({ a: 1e4, b: 1e4, c: 1e4, d: 1e4 + 1e-6 }).kind).toBe('line');
+    expect(analyzeMatrix({ a: 1e6, b: 1e-4, c: 0, d: 1e6 }).kind).toBe('star');
+    expect(analyzeMatrix({ a: 1, b: 1e-4, c: 0, d: 1 }).kind).toBe('improper-node');
+  });
+
+  it('gives a noisy star an exactly repeated real eigenvalue', () => {
+    const analysis = analyzeMatrix({ a: 3, b: 0, c: 1e-13, d: 3 });
+    expect(analysis.kind).toBe('star');
+    expect(analysis.eigenvalues).toEqual([{ re: 3, im: 0 }, { re: 3, im: 0 }]);
+  });
+});
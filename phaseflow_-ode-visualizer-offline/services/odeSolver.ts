@@ -1,68 +1,136 @@
 
-import { Point, Matrix2x2, ComplexNumber, ComplexVector, EquilibriumAnalysis } from '../types';
+import { Point, TimedPoint, Matrix2x2, ComplexNumber, ComplexVector, EquilibriumAnalysis, EquilibriumKind, StabilityKind, VectorField, IntegratorMethod, Rotation, Bounds } from '../types';
+import { INTEGRATORS } from './integrators';
+import { Message, message } from './i18n';
 
 /**
- * Solves y' = Ay using Runge-Kutta 4th Order.
- * Returns an array of points for the trajectory.
+ * Solves y' = f(y, t) from t = 0 with the chosen integrator (RK4 by default), a chunk at a time.
+ * Fixed-step methods take `steps` steps of size `dt`; adaptive methods cover the same
+ * time span `steps * dt`, starting from `dt` and resizing the step to keep the local
+ * error below `tolerance`. Integration stops once the path leaves `escape`.
+ * Each `advance(budget)` takes at most `budget` steps, appends the accepted points
+ * (time-stamped, negative when backward) to `points`, and returns true once the path is complete.
  */
-export const solveODE = (
-  matrix: Matrix2x2,
+export const startODE = (
+  f: VectorField,
   initial: Point,
   steps: number = 200,
   dt: number = 0.05,
-  forward: boolean = true
-): Point[] => {
-  const points: Point[] = [initial];
+  forward: boolean = true,
+  method: IntegratorMethod = 'rk4',
+  tolerance: number = 1e-6,
+  escape: Bounds = { xMin: -20, xMax: 20, yMin: -20, yMax: 20 }
+): { points: TimedPoint[]; advance: (budget: number) => boolean } => {
+  const integrator = INTEGRATORS[method];
+  const points: TimedPoint[] = [{ ...initial, t: 0 }];
   let current = { ...initial };
   const direction = forward ? 1 : -1;
-  const h = dt * direction;
-
-  const f = (p: Point): Point => ({
-    x: matrix.a * p.x + matrix.b * p.y,
-    y: matrix.c * p.x + matrix.d * p.y
-  });
-
-  for (let i = 0; i < steps; i++) {
-    const k1 = f(current);
-    const k2 = f({
-      x: current.x + (h / 2) * k1.x,
-      y: current.y + (h / 2) * k1.y
-    });
-    const k3 = f({
-      x: current.x + (h / 2) * k2.x,
-      y: current.y + (h / 2) * k2.y
-    });
-    const k4 = f({
-      x: current.x + h * k3.x,
-      y: current.y + h * k3.y
-    });
-
-    current = {
-      x: current.x + (h / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
-      y: current.y + (h / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y)
-    };
+  let done = !(steps > 0);
+
+  const outOfBounds = (p: Point) =>
+    // Nonlinear fields can leave their domain (e.g. log of a negative number)
+    !Number.isFinite(p.x) || !Number.isFinite(p.y) ||
+    p.x < escape.xMin || p.x > escape.xMax || p.y < escape.yMin || p.y > escape.yMax;
 
-    if (Math.abs(current.x) > 20 || Math.abs(current.y) > 20) break;
-    points.push({ ...current });
+  if (!integrator.adaptive) {
+    const h = dt * direction;
+    let i = 0;
+    const advance = (budget: number) => {
+      for (let n = 0; n < budget && !done; n++) {
+        current = integrator.step(f, current, i * h, h).point;
+        i++;
+        if (outOfBounds(current)) done = true;
+        else points.push({ ...current, t: i * h });
+        if (i >= steps) done = true;
+      }
+      return done;
+    };
+    return { points, advance };
   }
 
-  return points;
+  const span = steps * dt;
+  // Keep plotted segments short enough for the smoothed path to follow the curve
+  const hMax = Math.max(dt, span / 100);
+  const hMin = span * 1e-9;
+  let t = 0;
+  let h = dt;
+  let attempts = 0;
+
+  const advance = (budget: number) => {
+    for (let n = 0; n < budget && !done; n++) {
+      attempts++;
+      h = Math.min(h, span - t);
+      const { point, error = 0 } = integrator.step(f, current, t * direction, h * direction);
+      // A stage left the field's domain; like an escaping point, this ends the path
+      if (!Number.isFinite(error)) {
+        done = true;
+        break;
+      }
+      const scale = tolerance * Math.max(1, Math.hypot(current.x, current.y));
+
+      if (error <= scale || h <= hMin) {
+        t += h;
+        current = point;
+        if (outOfBounds(current)) {
+          done = true;
+          break;
+        }
+        points.push({ ...current, t: t * direction });
+      }
+
+      // Standard step-size controller for a 5(4) pair, with safety factor and growth limits
+      const factor = error === 0 ? 5 : 0.9 * Math.pow(scale / error, 1 / 5);
+      h = Math.min(hMax, Math.max(hMin, h * Math.min(5, Math.max(0.2, factor))));
+      if (t >= span || attempts >= 20 * steps) done = true;
+    }
+    return done;
+  };
+  return { points, advance };
+};
+
+/**
+ * `startODE` run to completion: the points of the whole trajectory.
+ */
+export const solveODE = (...args: Parameters<typeof startODE>): TimedPoint[] => {
+  const solver = startODE(...args);
+  solver.advance(Infinity);
+  return solver.points;
+};
+
+/**
+ * Linearly interpolates a time-ordered trajectory at time t.
+ * Returns null when t lies outside the integrated span.
+ */
+export const pointAtTime = (points: TimedPoint[], t: number): TimedPoint | null => {
+  if (points.length === 0 || t < points[0].t || t > points[points.length - 1].t) return null;
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].t <= t) lo = mid;
+    else hi = mid;
+  }
+  const p = points[lo];
+  const q = points[hi];
+  const s = q.t === p.t ? 0 : (t - p.t) / (q.t - p.t);
+  return { x: p.x + s * (q.x - p.x), y: p.y + s * (q.y - p.y), t };
 };
 
-const getEigenvector = (m: Matrix2x2, ev: number): ComplexVector => {
+// `eps` is the size below which an entry of A − λI counts as zero
+const getEigenvector = (m: Matrix2x2, ev: number, eps: number): ComplexVector => {
   // Solve (A - λI)v = 0
   // [a-λ  b ] [x] = [0]
   // [c    d-λ] [y] = [0]
   const row1 = { a: m.a - ev, b: m.b };
   
-  if (Math.abs(row1.b) > 1e-9) {
+  if (Math.abs(row1.b) > eps) {
     // x = -b, y = a-λ
     const mag = Math.sqrt(row1.b * row1.b + row1.a * row1.a);
     return {
       x: { re: -row1.b / mag, im: 0 },
       y: { re: row1.a / mag, im: 0 }
     };
-  } else if (Math.abs(row1.a) > 1e-9) {
+  } else if (Math.abs(row1.a) > eps) {
     // x must be 0, y can be 1
     return {
       x: { re: 0, im: 0 },
@@ -71,7 +139,7 @@ const getEigenvector = (m: Matrix2x2, ev: number): ComplexVector => {
   } else {
     // Row 1 is all zeros. Use row 2.
     const row2 = { c: m.c, d: m.d - ev };
-    if (Math.abs(row2.c) > 1e-9) {
+    if (Math.abs(row2.c) > eps) {
       // x = -(d-λ)/c, y = 1
       const xVal = -row2.d / row2.c;
       const mag = Math.sqrt(xVal * xVal + 1);
@@ -89,54 +157,120 @@ const getEigenvector = (m: Matrix2x2, ev: number): ComplexVector => {
   }
 };
 
-export const analyzeMatrix = (m: Matrix2x2): EquilibriumAnalysis => {
+const getComplexEigenvector = (m: Matrix2x2, ev: ComplexNumber, eps: number): ComplexVector => {
+  // Solve (A - λI)v = 0 for complex λ: v = (b, λ - a), or (λ - d, c) when b = 0
+  const useRow1 = Math.abs(m.b) > eps;
+  const p = useRow1 ? { x: m.b, y: ev.re - m.a } : { x: ev.re - m.d, y: m.c };
+  const q = useRow1 ? { x: 0, y: ev.im } : { x: ev.im, y: 0 };
+
+  // v is only fixed up to a complex factor e^{iθ}. Pick θ so that Re(v) ⟂ Im(v): they are then
+  // the major and minor axes of the ellipses traced by a center, instead of arbitrary conjugate diameters.
+  const pp = p.x * p.x + p.y * p.y;
+  const qq = q.x * q.x + q.y * q.y;
+  const pq = p.x * q.x + p.y * q.y;
+  const theta = Math.atan2(-2 * pq, pp - qq) / 2;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const re = { x: p.x * cos - q.x * sin, y: p.y * cos - q.y * sin };
+  const im = { x: p.x * sin + q.x * cos, y: p.y * sin + q.y * cos };
+
+  const mag = Math.sqrt(pp + qq);
+  return {
+    x: { re: re.x / mag, im: im.x / mag },
+    y: { re: re.y / mag, im: im.y / mag }
+  };
+};
+
+/**
+ * Eigen-analysis and classification of y' = Ay. Trace, determinant and discriminant count
+ * as zero within `tol` (relative to the size of the entries), so rounding noise such as
+ * 1e-16 from an evaluated expression doesn't flip a center into a spiral or a star into
+ * a node.
+ */
+export const analyzeMatrix = (m: Matrix2x2, tol: number = 1e-9): EquilibriumAnalysis => {
   const tr = m.a + m.d;
   const det = m.a * m.d - m.b * m.c;
   const disc = tr * tr - 4 * det;
 
+  const scale = Math.max(1, Math.abs(m.a), Math.abs(m.b), Math.abs(m.c), Math.abs(m.d));
+  const zeroTrace = Math.abs(tr) <= tol * scale;
+  const zeroDet = Math.abs(det) <= tol * scale * scale;
+  const zeroDisc = Math.abs(disc) <= tol * scale * scale;
+
   let eigenvalues: [ComplexNumber, ComplexNumber];
   let eigenvectors: [ComplexVector, ComplexVector] | null = null;
+  let rotation: Rotation | null = null;
 
-  if (disc >= 0) {
-    const r1 = (tr + Math.sqrt(disc)) / 2;
-    const r2 = (tr - Math.sqrt(disc)) / 2;
+  if (disc >= 0 || zeroDisc) {
+    const root = zeroDisc ? 0 : Math.sqrt(disc);
+    const r1 = (tr + root) / 2;
+    const r2 = (tr - root) / 2;
     eigenvalues = [{ re: r1, im: 0 }, { re: r2, im: 0 }];
-    eigenvectors = [getEigenvector(m, r1), getEigenvector(m, r2)];
+    eigenvectors = [getEigenvector(m, r1, tol * scale), getEigenvector(m, r2, tol * scale)];
   } else {
     const re = tr / 2;
     const im = Math.sqrt(-disc) / 2;
     eigenvalues = [{ re, im }, { re, im: -im }];
-    // Complex eigenvectors are harder to visualize directly in R2, 
-    // we'll keep them as null or could compute them, but for R2 phase portraits 
-    // the real/imaginary parts of complex eigenvectors define the elliptical/spiral behavior.
-    eigenvectors = null; 
+    // For R2 phase portraits the real/imaginary parts of the complex eigenvectors
+    // define the elliptical/spiral behavior; the second one is the conjugate of the first.
+    const v = getComplexEigenvector(m, eigenvalues[0], tol * scale);
+    eigenvectors = [v, { x: { re: v.x.re, im: -v.x.im }, y: { re: v.y.re, im: -v.y.im } }];
+    // At (1, 0) the flow points along (a, c), so the sign of c gives the sense of rotation
+    rotation = m.c > 0 ? 'counterclockwise' : 'clockwise';
   }
 
-  let classification = "Unknown";
-  let stability = "Neutral";
-
-  if (det < 0) {
-    classification = "Saddle Point";
-    stability = "Unstable";
-  } else if (det > 0) {
-    if (disc > 0) {
-      classification = "Node";
-      stability = tr > 0 ? "Unstable (Source)" : "Stable (Sink)";
-    } else if (disc < 0) {
-      if (Math.abs(tr) < 1e-9) {
-        classification = "Center";
-        stability = "Neutrally Stable";
-      } else {
-        classification = "Spiral Point";
-        stability = tr > 0 ? "Unstable (Spiral Source)" : "Stable (Spiral Sink)";
-      }
+  // A − (τ/2)I vanishes exactly when a repeated eigenvalue has two eigenvectors
+  const scalar = Math.max(Math.abs(m.a - m.d), Math.abs(m.b), Math.abs(m.c)) <= tol * scale;
+  const growth: StabilityKind = tr > 0 ? 'unstable' : 'asymptotically-stable';
+
+  let kind: EquilibriumKind;
+  let stabilityKind: StabilityKind;
+  let classification: Message;
+  let stability: Message;
+
+  if (zeroDet) {
+    if (scalar && zeroTrace) {
+      kind = 'zero';
+      stabilityKind = 'stable';
+      classification = message('class.zero');
+      stability = message('stability.neutral');
+    } else if (zeroTrace) {
+      kind = 'shear';
+      stabilityKind = 'unstable';
+      classification = message('class.shear');
+      stability = message('stability.linear-growth');
     } else {
-      classification = "Proper/Improper Node";
-      stability = tr > 0 ? "Unstable" : "Stable";
+      // The nonzero eigenvalue τ decides whether solutions approach the line or leave it
+      kind = 'line';
+      stabilityKind = tr > 0 ? 'unstable' : 'stable';
+      classification = message(tr > 0 ? 'class.line-unstable' : 'class.line-stable');
+      stability = message(tr > 0 ? 'stability.repelling-line' : 'stability.attracting-line');
     }
+  } else if (det < 0) {
+    kind = 'saddle';
+    stabilityKind = 'unstable';
+    classification = message('class.saddle');
+    stability = message('stability.unstable');
+  } else if (zeroDisc) {
+    kind = scalar ? 'star' : 'improper-node';
+    stabilityKind = growth;
+    classification = message(scalar ? 'class.star' : 'class.improper-node');
+    stability = message(tr > 0 ? 'stability.source' : 'stability.sink');
+  } else if (disc > 0) {
+    kind = 'node';
+    stabilityKind = growth;
+    classification = message('class.node');
+    stability = message(tr > 0 ? 'stability.source' : 'stability.sink');
+  } else if (zeroTrace) {
+    kind = 'center';
+    stabilityKind = 'stable';
+    classification = message('class.center');
+    stability = message('stability.neutral');
   } else {
-    classification = "Degenerate (Non-isolated)";
-    stability = "Marginally Stable";
+    kind = 'spiral';
+    stabilityKind = growth;
+    classification = message('class.spiral');
+    stability = message(tr > 0 ? 'stability.spiral-source' : 'stability.spiral-sink');
   }
 
   return {
@@ -145,6 +279,9 @@ export const analyzeMatrix = (m: Matrix2x2): EquilibriumAnalysis => {
     discriminant: disc,
     eigenvalues,
     eigenvectors,
+    rotation,
+    kind,
+    stabilityKind,
     classification,
     stability
   };
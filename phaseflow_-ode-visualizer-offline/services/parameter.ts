@@ -0,0 +1,123 @@
+
+import { EquilibriumAnalysis, Matrix2x2 } from '../types';
+import { ExpressionNode, tryParseExpression } from './expressionParser';
+import { analyzeMatrix } from './odeSolver';
+import { Message, Translate } from './i18n';
+
+export type MatrixEntry = keyof Matrix2x2;
+
+const ENTRIES: MatrixEntry[] = ['a', 'b', 'c', 'd'];
+
+// The parameter can be typed either as α or spelled out
+const PARAMETER_NAMES = ['α', 'alpha'];
+
+export interface ParameterizedMatrix {
+  // Entries that fail to parse evaluate to 0, like an empty input
+  evaluate: (alpha: number) => Matrix2x2;
+  errors: Record<MatrixEntry, Message | null>;
+  // Whether any entry actually mentions α
+  parameterized: boolean;
+}
+
+const usesVariable = (node: ExpressionNode): boolean => {
+  switch (node.type) {
+    case 'number': return false;
+    case 'variable': return PARAMETER_NAMES.includes(node.name);
+    case 'unary': return usesVariable(node.arg);
+    case 'binary': return usesVariable(node.left) || usesVariable(node.right);
+    case 'call': return node.args.some(usesVariable);
+  }
+};
+
+/**
+ * Compiles the four matrix entries as expressions in the parameter α.
+ */
+export const compileMatrix = (inputs: Record<MatrixEntry, string>): ParameterizedMatrix => {
+  const compiled = ENTRIES.map(k => (inputs[k].trim() === '' ? null : tryParseExpression(inputs[k], PARAMETER_NAMES)));
+  const scope = { α: 0, alpha: 0 };
+  const value = (i: number) => {
+    const expression = compiled[i]?.expression;
+    if (!expression) return 0;
+    const v = expression.evaluate(scope);
+    return Number.isFinite(v) ? v : 0;
+  };
+
+  return {
+    evaluate: (alpha) => {
+      scope.α = alpha;
+      scope.alpha = alpha;
+      return { a: value(0), b: value(1), c: value(2), d: value(3) };
+    },
+    errors: {
+      a: compiled[0]?.error ?? null,
+      b: compiled[1]?.error ?? null,
+      c: compiled[2]?.error ?? null,
+      d: compiled[3]?.error ?? null
+    },
+    parameterized: compiled.some(c => c?.expression && usesVariable(c.expression.ast))
+  };
+};
+
+/**
+ * Classification together with stability, so that e.g. a spiral sink turning into a
+ * spiral source counts as a change.
+ */
+export type AnalysisState = Pick<EquilibriumAnalysis, 'classification' | 'stability'>;
+
+export const stateLabel = ({ classification, stability }: AnalysisState, t: Translate) =>
+  `${t(classification)} · ${t(stability)}`;
+
+// States compare by their messages, parameters included (a 1/4 turn is not a 1/3 turn)
+const stateKey = ({ classification, stability }: AnalysisState) => JSON.stringify([classification, stability]);
+
+export interface ClassificationChange {
+  alpha: number;
+  from: AnalysisState;
+  to: AnalysisState;
+  // The state exactly at the boundary when it differs from both sides (a center, a degenerate node, …)
+  at: AnalysisState | null;
+}
+
+/**
+ * Values of α in [min, max] where the state from `analyze` (the flow's by default) changes.
+ * The range is sampled and each change is refined by bisection.
+ */
+export const classificationChanges = (
+  matrix: ParameterizedMatrix,
+  min: number,
+  max: number,
+  analyze: (m: Matrix2x2) => EquilibriumAnalysis = analyzeMatrix,
+  samples: number = 240
+): ClassificationChange[] => {
+  if (!matrix.parameterized || !(max > min)) return [];
+  const classify = (alpha: number): AnalysisState => {
+    const { classification, stability } = analyze(matrix.evaluate(alpha));
+    return { classification, stability };
+  };
+
+  const changes: ClassificationChange[] = [];
+  let prevAlpha = min;
+  let prevState = classify(min);
+  for (let i = 1; i <= samples; i++) {
+    const alpha = min + ((max - min) * i) / samples;
+    const state = classify(alpha);
+    if (stateKey(state) !== stateKey(prevState)) {
+      let lo = prevAlpha;
+      let hi = alpha;
+      for (let k = 0; k < 40; k++) {
+        const mid = (lo + hi) / 2;
+        if (stateKey(classify(mid)) === stateKey(prevState)) lo = mid;
+        else hi = mid;
+      }
+      // Boundaries usually sit at round values; rounding also lets an isolated state such
+      // as a center (trace exactly 0) be hit by the slider
+      const rounded = Math.round(hi * 1e6) / 1e6;
+      const atRounded = classify(rounded);
+      const isolated = stateKey(atRounded) !== stateKey(prevState) && stateKey(atRounded) !== stateKey(state);
+      changes.push({ alpha: isolated ? rounded : hi, from: prevState, to: state, at: isolated ? atRounded : null });
+    }
+    prevAlpha = alpha;
+    prevState = state;
+  }
+  return changes;
+};
@@ -0,0 +1,98 @@
+
+import { Bounds, Point, VectorField } from '../types';
+import { INTEGRATORS } from './integrators';
+
+export interface Particle {
+  x: number;
+  y: number;
+  // Seconds of animation since the particle was (re)spawned, and how long it lives
+  age: number;
+  life: number;
+}
+
+export type SeedingMode = 'uniform' | 'blob';
+
+// Lifetimes of uniformly seeded particles, in animation seconds; staggered so they don't respawn in waves
+const MIN_LIFE = 2;
+const MAX_LIFE = 6;
+
+// Largest solver step per particle update; longer frames are split into substeps
+const MAX_STEP = 0.05;
+
+const randomLife = () => MIN_LIFE + Math.random() * (MAX_LIFE - MIN_LIFE);
+
+export const randomPointIn = (bounds: Bounds): Point => ({
+  x: bounds.xMin + Math.random() * (bounds.xMax - bounds.xMin),
+  y: bounds.yMin + Math.random() * (bounds.yMax - bounds.yMin)
+});
+
+/**
+ * Even–odd ray casting test.
+ */
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+const polygonBounds = (polygon: Point[]): Bounds => ({
+  xMin: Math.min(...polygon.map(p => p.x)),
+  xMax: Math.max(...polygon.map(p => p.x)),
+  yMin: Math.min(...polygon.map(p => p.y)),
+  yMax: Math.max(...polygon.map(p => p.y))
+});
+
+/**
+ * `count` particles spread uniformly over the view, or inside a drawn blob by rejection sampling.
+ * Blob particles never respawn, so the blob can be followed as it is transported.
+ */
+export const seedParticles = (count: number, view: Bounds, blob: Point[] | null): Particle[] => {
+  if (!blob || blob.length < 3) {
+    return Array.from({ length: count }, () => ({ ...randomPointIn(view), age: Math.random() * MIN_LIFE, life: randomLife() }));
+  }
+  const box = polygonBounds(blob);
+  const particles: Particle[] = [];
+  // Give up on degenerate (near zero-area) blobs instead of looping forever
+  for (let tries = 0; particles.length < count && tries < count * 200; tries++) {
+    const p = randomPointIn(box);
+    if (pointInPolygon(p, blob)) particles.push({ ...p, age: 0, life: Infinity });
+  }
+  return particles;
+};
+
+/**
+ * Moves every particle forward by `dt` of system time with RK4. Particles that outlive
+ * their lifetime, leave `respawnIn` or blow up are placed afresh inside it.
+ */
+export const advanceParticles = (
+  particles: Particle[],
+  field: VectorField,
+  t: number,
+  dt: number,
+  frameSeconds: number,
+  respawnIn: Bounds,
+  escape: Bounds
+) => {
+  const substeps = Math.max(1, Math.ceil(Math.abs(dt) / MAX_STEP));
+  const h = dt / substeps;
+  const { step } = INTEGRATORS.rk4;
+
+  for (const particle of particles) {
+    particle.age += frameSeconds;
+    let p: Point = particle;
+    for (let i = 0; i < substeps; i++) p = step(field, p, t + i * h, h).point;
+
+    const escaped = !Number.isFinite(p.x) || !Number.isFinite(p.y)
+      || p.x < escape.xMin || p.x > escape.xMax || p.y < escape.yMin || p.y > escape.yMax;
+    if (particle.age > particle.life || (escaped && Number.isFinite(particle.life))) {
+      Object.assign(particle, randomPointIn(respawnIn), { age: 0, life: randomLife() });
+    } else if (!escaped) {
+      particle.x = p.x;
+      particle.y = p.y;
+    }
+  }
+};
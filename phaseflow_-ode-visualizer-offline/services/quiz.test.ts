@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Point } from '../types';
+import { createI18n, message } from './i18n';
+import { analyzeMatrix } from './odeSolver';
+import { createRng, generateQuiz, gradeAnswer, parseComplex, parseVector, QUIZ_CLASSES, QuizAnswer } from './quiz';
+
+describe('parseVector', () => {
+  it('reads comma-separated and semicolon-separated vectors', () => {
+    expect(parseVector('1, -2')).toEqual({ x: 1, y: -2 });
+    expect(parseVector('[0.5, sqrt(2)]')).toEqual({ x: 0.5, y: Math.SQRT2 });
+    expect(parseVector('(0,5; −2)')).toEqual({ x: 0.5, y: -2 });
+    expect(parseVector('1, 2, 3')).toBeNull();
+  });
+
+  it('reads back the vectors given as feedback in every language', () => {
+    for (const locale of ['en', 'nb'] as const) {
+      const shown = createI18n(locale).t(message('format.vector', { x: 0.707, y: -0.5 }));
+      expect(parseVector(shown)).toEqual({ x: 0.707, y: -0.5 });
+    }
+  });
+});
+
+describe('parseComplex', () => {
+  it('reads decimal points and decimal commas', () => {
+    expect(parseComplex('-0.5 + 2i')).toEqual({ re: -0.5, im: 2 });
+    expect(parseComplex('-0,5 + 1,5i')).toEqual({ re: -0.5, im: 1.5 });
+    expect(parseComplex('i^2')).toBeNull();
+  });
+});
+
+describe('createRng', () => {
+  it('repeats its sequence for the same seed', () => {
+    const draw = (seed: string) => {
+      const rng = createRng(seed);
+      return Array.from({ length: 5 }, rng);
+    };
+    expect(draw('lecture-3')).toEqual(draw('lecture-3'));
+    expect(draw('lecture-3')).not.toEqual(draw('lecture-4'));
+    expect(draw('').every(x => x >= 0 && x < 1)).toBe(true);
+  });
+});
+
+describe('generateQuiz', () => {
+  it('gives the same quiz for the same seed', () => {
+    const settings = { seed: 'abc', classes: QUIZ_CLASSES.map(c => c.id), entries: 'integer' as const, count: 6 };
+    expect(generateQuiz(settings)).toEqual(generateQuiz(settings));
+  });
+
+  it('reaches every class, with whole or half entries', () => {
+    for (const entries of ['integer', 'rational'] as const) {
+      for (const c of QUIZ_CLASSES) {
+        const questions = generateQuiz({ seed: `${c.id}-${entries}`, classes: [c.id], entries, count: 2 });
+        expect(questions).toHaveLength(2);
+        for (const { matrix, target } of questions) {
+          expect(target).toBe(c.id);
+          expect(c.matches(analyzeMatrix(matrix))).toBe(true);
+          const values = [matrix.a, matrix.b, matrix.c, matrix.d];
+          expect(values.every(v => Number.isInteger(entries === 'integer' ? v : 2 * v))).toBe(true);
+          expect(values.some(v => v !== 0)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('gives nothing without classes', () => {
+    expect(generateQuiz({ seed: 'x', classes: [], entries: 'integer', count: 3 })).toEqual([]);
+  });
+});
+
+describe('gradeAnswer', () => {
+  // A saddle with eigenvalues 2 and −1 along the axes
+  const SADDLE = { a: 2, b: 0, c: 0, d: -1 };
+  // Outward along x, inward along y
+  const ALONG_FIELD: Point[][] = [[{ x: 1, y: 0 }, { x: 1.5, y: 0 }], [{ x: -1, y: 0 }, { x: -2, y: 0 }], [{ x: 0, y: 2 }, { x: 0, y: 1 }]];
+  const AGAINST_FIELD: Point[][] = [[{ x: 1.5, y: 0 }, { x: 1, y: 0 }]];
+
+  const answer = (overrides: Partial<QuizAnswer> = {}): QuizAnswer => ({
+    classification: 'saddle',
+    eigenvalues: ['2', '-1'],
+    eigenvectors: ['1, 0', '0, 1'],
+    sketch: ALONG_FIELD,
+    ...overrides
+  });
+
+  it('gives full marks to a correct answer', () => {
+    expect(gradeAnswer(SADDLE, answer())).toMatchObject({ score: 4, total: 4 });
+    expect(gradeAnswer(SADDLE, answer({ classification: 'sink' })).classification.correct).toBe(false);
+  });
+
+  it('accepts eigenvalues within 2%, in either order', () => {
+    expect(gradeAnswer(SADDLE, answer({ eigenvalues: ['-1.01', '1.97'] })).eigenvalues.correct).toBe(true);
+    expect(gradeAnswer(SADDLE, answer({ eigenvalues: ['2', '-1.05'] })).eigenvalues.correct).toBe(false);
+    expect(gradeAnswer(SADDLE, answer({ eigenvalues: ['2', ''] })).eigenvalues.correct).toBe(false);
+  });
+
+  it('accepts any scaling of the eigenvectors, nearly on the line', () => {
+    expect(gradeAnswer(SADDLE, answer({ eigenvectors: ['0, -3', '2, 0.02'] })).eigenvectors.correct).toBe(true);
+    expect(gradeAnswer(SADDLE, answer({ eigenvectors: ['0, 1', '1, 0.1'] })).eigenvectors.correct).toBe(false);
+    // Both vectors for the same eigenvalue
+    expect(gradeAnswer(SADDLE, answer({ eigenvectors: ['1, 0', '3, 0'] })).eigenvectors.correct).toBe(false);
+  });
+
+  it('does not ask for the eigenvectors of a complex pair', () => {
+    const result = gradeAnswer({ a: 0, b: 1, c: -1, d: 0 }, answer({ classification: 'center', eigenvalues: ['i', '-i'] }));
+    expect(result.eigenvectors.correct).toBeNull();
+    expect(result.total).toBe(3);
+    expect(result.eigenvalues.correct).toBe(true);
+  });
+
+  it('passes a sketch when three quarters of its segments follow the field', () => {
+    expect(gradeAnswer(SADDLE, answer({ sketch: [...ALONG_FIELD, ...AGAINST_FIELD] })).sketch.correct).toBe(true);
+    expect(gradeAnswer(SADDLE, answer({ sketch: [...ALONG_FIELD.slice(1), ...AGAINST_FIELD] })).sketch.correct).toBe(false);
+    // A stroke that stays on the equilibrium says nothing
+    expect(gradeAnswer(SADDLE, answer({ sketch: [[{ x: 0, y: 0 }, { x: 0, y: 0 }]] })).sketch.correct).toBe(false);
+  });
+});
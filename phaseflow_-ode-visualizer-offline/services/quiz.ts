@@ -0,0 +1,328 @@
+
+import { ComplexNumber, EquilibriumAnalysis, Matrix2x2, Point, Vector } from '../types';
+import { tryParseExpression } from './expressionParser';
+import { analyzeMatrix } from './odeSolver';
+import { Message, message, MessageKey } from './i18n';
+
+export type QuizClass =
+  | 'saddle'
+  | 'sink'
+  | 'source'
+  | 'spiral-sink'
+  | 'spiral-source'
+  | 'center'
+  | 'repeated'
+  | 'degenerate';
+
+/**
+ * The classes a student can answer with, each recognised from `analyzeMatrix`.
+ */
+export const QUIZ_CLASSES: { id: QuizClass; label: MessageKey; matches: (a: EquilibriumAnalysis) => boolean }[] = [
+  { id: 'saddle', label: 'quiz.class.saddle', matches: a => a.kind === 'saddle' },
+  { id: 'sink', label: 'quiz.class.sink', matches: a => a.kind === 'node' && a.stabilityKind !== 'unstable' },
+  { id: 'source', label: 'quiz.class.source', matches: a => a.kind === 'node' && a.stabilityKind === 'unstable' },
+  { id: 'spiral-sink', label: 'quiz.class.spiral-sink', matches: a => a.kind === 'spiral' && a.stabilityKind !== 'unstable' },
+  { id: 'spiral-source', label: 'quiz.class.spiral-source', matches: a => a.kind === 'spiral' && a.stabilityKind === 'unstable' },
+  { id: 'center', label: 'quiz.class.center', matches: a => a.kind === 'center' },
+  { id: 'repeated', label: 'quiz.class.repeated', matches: a => a.kind === 'star' || a.kind === 'improper-node' },
+  { id: 'degenerate', label: 'quiz.class.degenerate', matches: a => a.kind === 'line' || a.kind === 'shear' || a.kind === 'zero' }
+];
+
+export type EntryKind = 'integer' | 'rational';
+
+export interface QuizSettings {
+  seed: string;
+  classes: QuizClass[];
+  entries: EntryKind;
+  count: number;
+}
+
+export interface QuizQuestion {
+  matrix: Matrix2x2;
+  target: QuizClass;
+}
+
+/**
+ * A deterministic generator in [0, 1): the seed string is hashed with FNV-1a and drives
+ * mulberry32, so the same seed gives the same quiz in every browser.
+ */
+export const createRng = (seed: string): (() => number) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Entries are drawn from [−ENTRY_RANGE, ENTRY_RANGE], whole or in halves
+const ENTRY_RANGE = 4;
+// Rare classes (e.g. a repeated eigenvalue) need a few thousand draws; past this many the
+// matrix is built from its class instead
+const MAX_DRAWS = 50000;
+
+const randomMatrix = (rng: () => number, entries: EntryKind): Matrix2x2 => {
+  const steps = entries === 'integer' ? 1 : 2;
+  const entry = () => (Math.floor(rng() * (2 * ENTRY_RANGE * steps + 1)) - ENTRY_RANGE * steps) / steps;
+  return { a: entry(), b: entry(), c: entry(), d: entry() };
+};
+
+const multiply = (p: Matrix2x2, q: Matrix2x2): Matrix2x2 => ({
+  a: p.a * q.a + p.b * q.c, b: p.a * q.b + p.b * q.d,
+  c: p.c * q.a + p.d * q.c, d: p.c * q.b + p.d * q.d
+});
+
+/**
+ * A matrix of the given class, built as P J P⁻¹ from a real canonical form J with chosen
+ * eigenvalues and an integer shear P, so the entries stay whole (or in halves).
+ */
+const constructMatrix = (rng: () => number, target: QuizClass, entries: EntryKind): Matrix2x2 => {
+  const steps = entries === 'integer' ? 1 : 2;
+  // A nonzero value in (0, ENTRY_RANGE], optionally negated
+  const size = () => (1 + Math.floor(rng() * ENTRY_RANGE * steps)) / steps;
+  const signed = () => (rng() < 0.5 ? -size() : size());
+  const diagonal = (p: number, q: number): Matrix2x2 => ({ a: p, b: 0, c: 0, d: q });
+  const rotation = (re: number, im: number): Matrix2x2 => ({ a: re, b: -im, c: im, d: re });
+
+  let canonical: Matrix2x2;
+  switch (target) {
+    case 'saddle': canonical = diagonal(size(), -size()); break;
+    case 'sink': { const p = size(); canonical = diagonal(-p, -p - size()); break; }
+    case 'source': { const p = size(); canonical = diagonal(p, p + size()); break; }
+    case 'spiral-sink': canonical = rotation(-size(), size()); break;
+    case 'spiral-source': canonical = rotation(size(), size()); break;
+    case 'center': canonical = rotation(0, size()); break;
+    case 'repeated': { const l = signed(); canonical = { a: l, b: rng() < 0.5 ? 0 : 1, c: 0, d: l }; break; }
+    case 'degenerate': canonical = rng() < 0.5 ? diagonal(signed(), 0) : { a: 0, b: 1, c: 0, d: 0 }; break;
+  }
+
+  // A single shear by ±1 (or none) keeps the entries close to the eigenvalues
+  const k = Math.floor(rng() * 3) - 1;
+  const upper = rng() < 0.5;
+  const p: Matrix2x2 = upper ? { a: 1, b: k, c: 0, d: 1 } : { a: 1, b: 0, c: k, d: 1 };
+  const inverse: Matrix2x2 = upper ? { a: 1, b: -k, c: 0, d: 1 } : { a: 1, b: 0, c: -k, d: 1 };
+  return multiply(multiply(p, canonical), inverse);
+};
+
+/**
+ * `count` matrices, each of a class picked at random from `classes`, found by drawing
+ * random entries until one falls in the class, or built from the class when none does.
+ */
+export const generateQuiz = ({ seed, classes, entries, count }: QuizSettings): QuizQuestion[] => {
+  const rng = createRng(seed);
+  const pool = QUIZ_CLASSES.filter(c => classes.includes(c.id));
+  if (pool.length === 0) return [];
+  const questions: QuizQuestion[] = [];
+  for (let q = 0; q < count; q++) {
+    const target = pool[Math.floor(rng() * pool.length)];
+    let matrix: Matrix2x2 | null = null;
+    for (let draw = 0; draw < MAX_DRAWS && !matrix; draw++) {
+      const candidate = randomMatrix(rng, entries);
+      // The zero matrix is degenerate but gives nothing to sketch
+      if (candidate.a === 0 && candidate.b === 0 && candidate.c === 0 && candidate.d === 0) continue;
+      if (target.matches(analyzeMatrix(candidate))) matrix = candidate;
+    }
+    questions.push({ matrix: matrix ?? constructMatrix(rng, target.id, entries), target: target.id });
+  }
+  return questions;
+};
+
+// A comma between digits is a decimal comma, as Norwegian writes 0,5
+const decimalPoints = (source: string) => source.replace(/(\d),(\d)/g, '$1.$2');
+
+/**
+ * Reads a complex number typed as a + bi, with i entering linearly: 2, -1 + 2i, 3i,
+ * 1 - sqrt(3) i, (1 + i)/2 and -0,5 + 2i all work. Null when the input isn't of that form.
+ */
+export const parseComplex = (source: string): ComplexNumber | null => {
+  if (source.trim() === '') return null;
+  const { expression } = tryParseExpression(decimalPoints(source), ['i']);
+  if (!expression) return null;
+  const at = (i: number) => expression.evaluate({ i });
+  const re = at(0);
+  const im = at(1) - re;
+  if (!Number.isFinite(re) || !Number.isFinite(im) || Math.abs(at(2) - re - 2 * im) > 1e-9 * Math.max(1, Math.abs(im))) return null;
+  return { re, im };
+};
+
+/**
+ * Reads a vector typed as "x, y", or as "x; y" with decimal commas (the Norwegian
+ * `format.vector`), optionally in parentheses or brackets.
+ */
+export const parseVector = (source: string): Vector | null => {
+  const inner = source.trim().replace(/^[([]|[)\]]$/g, '');
+  const parts = inner.includes(';') ? decimalPoints(inner).split(';') : inner.split(',');
+  if (parts.length !== 2) return null;
+  const [x, y] = parts.map(p => tryParseExpression(p, []).expression?.evaluate({}) ?? NaN);
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+};
+
+export interface QuizAnswer {
+  classification: QuizClass | null;
+  eigenvalues: [string, string];
+  eigenvectors: [string, string];
+  // Each stroke is a sequence of clicked points
+  sketch: Point[][];
+}
+
+export interface PartResult {
+  // null when the part isn't asked for this matrix (eigenvectors of a complex pair)
+  correct: boolean | null;
+  feedback: Message;
+}
+
+export interface QuestionResult {
+  classification: PartResult;
+  eigenvalues: PartResult;
+  eigenvectors: PartResult;
+  sketch: PartResult;
+  score: number;
+  total: number;
+}
+
+const closeTo = (z: ComplexNumber, w: ComplexNumber) =>
+  Math.hypot(z.re - w.re, z.im - w.im) <= 0.02 * Math.max(1, Math.hypot(w.re, w.im));
+
+const formatValue = (z: ComplexNumber): number | Message =>
+  Math.abs(z.im) < 1e-9
+    ? +z.re.toFixed(3)
+    : message('format.complex', { re: +z.re.toFixed(3), sign: z.im < 0 ? '−' : '+', im: +Math.abs(z.im).toFixed(3) });
+
+// Share of the sketched segments that must head along the field
+const SKETCH_PASS = 0.75;
+
+/**
+ * Grades one answer against `analyzeMatrix`. Eigenvalues may come in either order and
+ * are accepted within 2%; an eigenvector is any nonzero v with Av ≈ λv. A sketch passes
+ * when most of its segments point within 60° of the field at their midpoints.
+ */
+export const gradeAnswer = (matrix: Matrix2x2, answer: QuizAnswer): QuestionResult => {
+  const analysis = analyzeMatrix(matrix);
+  const [l1, l2] = analysis.eigenvalues;
+  const target = QUIZ_CLASSES.find(c => c.matches(analysis));
+
+  const chosen = QUIZ_CLASSES.find(c => c.id === answer.classification);
+  const answerIs = target ? message(target.label) : analysis.classification;
+  const classification: PartResult = chosen
+    ? {
+        correct: chosen.matches(analysis),
+        feedback: chosen.matches(analysis) ? message('quiz.feedback.class', { label: message(chosen.label) }) : message('quiz.feedback.answer', { answer: answerIs })
+      }
+    : { correct: false, feedback: message('quiz.feedback.no-class', { answer: answerIs }) };
+
+  const given = answer.eigenvalues.map(parseComplex);
+  const valuesCorrect = given[0] !== null && given[1] !== null &&
+    ((closeTo(given[0], l1) && closeTo(given[1], l2)) || (closeTo(given[0], l2) && closeTo(given[1], l1)));
+  const eigenvalues: PartResult = {
+    correct: valuesCorrect,
+    feedback: message('quiz.feedback.eigenvalues', { first: formatValue(l1), second: formatValue(l2) })
+  };
+
+  let eigenvectors: PartResult;
+  if (l1.im !== 0) {
+    eigenvectors = { correct: null, feedback: message('quiz.feedback.not-asked') };
+  } else {
+    const scale = Math.max(1, Math.abs(matrix.a), Math.abs(matrix.b), Math.abs(matrix.c), Math.abs(matrix.d));
+    // Which eigenvalue a unit vector belongs to, if any
+    const eigenvalueOf = (v: Vector | null): number | null => {
+      const n = v ? Math.hypot(v.x, v.y) : 0;
+      if (!v || n === 0) return null;
+      const u = { x: v.x / n, y: v.y / n };
+      const residual = (l: number) => Math.hypot(matrix.a * u.x + matrix.b * u.y - l * u.x, matrix.c * u.x + matrix.d * u.y - l * u.y);
+      const best = [l1.re, l2.re].sort((p, q) => residual(p) - residual(q))[0];
+      return residual(best) <= 0.02 * scale ? best : null;
+    };
+    const owners = answer.eigenvectors.map(s => eigenvalueOf(parseVector(s)));
+    const distinct = Math.abs(l1.re - l2.re) > 1e-9;
+    const correct = owners[0] !== null && owners[1] !== null && (!distinct || owners[0] !== owners[1]);
+    const [v1, v2] = analysis.eigenvectors!.map(v => message('format.vector', { x: +v.x.re.toFixed(3), y: +v.y.re.toFixed(3) }));
+    eigenvectors = { correct, feedback: message('quiz.feedback.eigenvectors', { first: v1, second: v2 }) };
+  }
+
+  let agreeing = 0;
+  let segments = 0;
+  for (const stroke of answer.sketch) {
+    for (let k = 1; k < stroke.length; k++) {
+      const p = stroke[k - 1];
+      const q = stroke[k];
+      const d = { x: q.x - p.x, y: q.y - p.y };
+      const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+      const v = { x: matrix.a * mid.x + matrix.b * mid.y, y: matrix.c * mid.x + matrix.d * mid.y };
+      const norms = Math.hypot(d.x, d.y) * Math.hypot(v.x, v.y);
+      // Segments on top of an equilibrium say nothing about the direction of the flow
+      if (norms === 0) continue;
+      segments++;
+      if (d.x * v.x + d.y * v.y >= 0.5 * norms) agreeing++;
+    }
+  }
+  const sketch: PartResult = segments === 0
+    ? { correct: false, feedback: message('quiz.feedback.no-sketch') }
+    : {
+        correct: agreeing / segments >= SKETCH_PASS,
+        feedback: message('quiz.feedback.sketch', { agreeing, segments })
+      };
+
+  const parts = [classification, eigenvalues, eigenvectors, sketch].filter(p => p.correct !== null);
+  return {
+    classification,
+    eigenvalues,
+    eigenvectors,
+    sketch,
+    score: parts.filter(p => p.correct).length,
+    total: parts.length
+  };
+};
+
+const HISTORY_KEY = 'phaseflow.quizHistory';
+// Older results are dropped beyond this many
+const HISTORY_LIMIT = 50;
+
+export interface QuizRecord {
+  finishedAt: string;
+  seed: string;
+  classes: QuizClass[];
+  entries: EntryKind;
+  score: number;
+  total: number;
+}
+
+/**
+ * Finished quizzes in localStorage, newest first.
+ */
+export const loadQuizHistory = (): QuizRecord[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((r): r is QuizRecord =>
+      typeof r === 'object' && r !== null && typeof r.seed === 'string' && typeof r.score === 'number' && typeof r.total === 'number'
+    );
+  } catch {
+    return [];
+  }
+};
+
+export const recordQuiz = (record: QuizRecord): QuizRecord[] => {
+  const next = [record, ...loadQuizHistory()].slice(0, HISTORY_LIMIT);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  } catch {
+    // A full or disabled storage only costs the history
+  }
+  return next;
+};
+
+export const clearQuizHistory = (): QuizRecord[] => {
+  try {
+    localStorage.removeItem(HISTORY_KEY);
+  } catch {
+    // Nothing stored, nothing to clear
+  }
+  return [];
+};
@@ -0,0 +1,89 @@
+
+import { EquilibriumAnalysis, ForcingInputs } from '../types';
+import { compileMatrix, MatrixEntry } from './parameter';
+import { Message, message } from './i18n';
+
+/**
+ * Coefficients of a y'' + b y' + c y = f(t), as typed. Like matrix entries they may use α;
+ * f is an expression in t.
+ */
+export interface SecondOrderInputs {
+  a: string;
+  b: string;
+  c: string;
+  f: string;
+}
+
+const wrap = (source: string) => `(${source.trim() === '' ? '0' : source})`;
+
+/**
+ * The companion system of a y'' + b y' + c y = f(t) in the state (y, y'):
+ *   y₁' = y₂,  y₂' = −(c/a) y₁ − (b/a) y₂ + f(t)/a,
+ * as matrix entries and forcing that feed the usual linear pipeline.
+ */
+export const companionSystem = (inputs: SecondOrderInputs): { matrix: Record<MatrixEntry, string>; forcing: ForcingInputs } => ({
+  matrix: {
+    a: '0',
+    b: '1',
+    c: `-${wrap(inputs.c)}/${wrap(inputs.a)}`,
+    d: `-${wrap(inputs.b)}/${wrap(inputs.a)}`
+  },
+  forcing: {
+    bx: '0',
+    by: '0',
+    gx: '0',
+    gy: inputs.f.trim() === '' || inputs.f.trim() === '0' ? '0' : `${wrap(inputs.f)}/${wrap(inputs.a)}`
+  }
+});
+
+/**
+ * Parse errors of the coefficients at the current α. The companion matrix divides by a,
+ * so a vanishing leading coefficient is an error too.
+ */
+export const coefficientErrors = (inputs: SecondOrderInputs, alpha: number): Record<'a' | 'b' | 'c', Message | null> => {
+  const compiled = compileMatrix({ a: inputs.a, b: inputs.b, c: inputs.c, d: '0' });
+  const leading = compiled.errors.a ?? (compiled.evaluate(alpha).a === 0 ? message('second-order.leading-zero') : null);
+  return { a: leading, b: compiled.errors.b, c: compiled.errors.c };
+};
+
+export type DampingRegime = 'undamped' | 'underdamped' | 'critically-damped' | 'overdamped' | 'negatively-damped';
+
+export interface DampingInfo {
+  regime: DampingRegime;
+  // ω₀ = √(c/a)
+  naturalFrequency: number;
+  // ζ = b / (2√(ac))
+  dampingRatio: number;
+  // ω_d = ω₀√(1 − ζ²), the frequency of the decaying oscillation; null unless underdamped
+  dampedFrequency: number | null;
+}
+
+/**
+ * Damping regime of the oscillator behind a companion matrix, read off its eigenvalues:
+ * λ₁λ₂ = ω₀² and λ₁ + λ₂ = −2ζω₀. Null when c/a ≤ 0, i.e. there is no restoring force.
+ */
+export const dampingInfo = (analysis: EquilibriumAnalysis, tol: number = 1e-9): DampingInfo | null => {
+  const [l1, l2] = analysis.eigenvalues;
+  // Product and sum of the eigenvalues, complex or not
+  const product = l1.re * l2.re - l1.im * l2.im;
+  const sum = l1.re + l2.re;
+  if (!(product > tol)) return null;
+
+  const naturalFrequency = Math.sqrt(product);
+  const dampingRatio = -sum / (2 * naturalFrequency);
+  const complex = Math.abs(l1.im) > tol * Math.max(1, naturalFrequency);
+
+  let regime: DampingRegime;
+  if (dampingRatio < -tol) regime = 'negatively-damped';
+  else if (Math.abs(dampingRatio) <= tol) regime = 'undamped';
+  else if (complex) regime = 'underdamped';
+  else if (Math.abs(dampingRatio - 1) <= 1e-6) regime = 'critically-damped';
+  else regime = 'overdamped';
+
+  return {
+    regime,
+    naturalFrequency,
+    dampingRatio,
+    dampedFrequency: complex ? Math.abs(l1.im) : null
+  };
+};
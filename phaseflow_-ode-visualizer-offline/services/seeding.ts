@@ -0,0 +1,208 @@
+
+import { Bounds, EquilibriumAnalysis, Point, TimedPoint, TimeSpan, Vector } from '../types';
+import { MessageKey } from './i18n';
+
+export type SeedStrategy = 'grid' | 'ring' | 'eigenlines' | 'streamlines';
+
+/**
+ * An initial condition to trace; streamlines come with the span they were cut to.
+ */
+export interface Seed {
+  initial: Point;
+  span?: TimeSpan;
+}
+
+export interface SeedSettings {
+  strategy: SeedStrategy;
+  count: number;
+  spacing: number;
+}
+
+/**
+ * What `count` and `spacing` mean for each strategy, and their defaults; null when unused.
+ */
+export const SEED_STRATEGIES: Record<SeedStrategy, {
+  label: MessageKey;
+  count: { label: MessageKey; value: number } | null;
+  spacing: { label: MessageKey; value: number } | null;
+}> = {
+  grid: { label: 'seeding.grid', count: { label: 'seeding.points-per-side', value: 5 }, spacing: null },
+  ring: { label: 'seeding.ring', count: { label: 'seeding.points', value: 12 }, spacing: { label: 'seeding.radius', value: 2 } },
+  eigenlines: { label: 'seeding.eigenlines', count: null, spacing: { label: 'seeding.offset', value: 0.01 } },
+  streamlines: {
+    label: 'seeding.streamlines',
+    count: { label: 'seeding.max-lines', value: 40 },
+    spacing: { label: 'seeding.separation', value: 0.8 }
+  }
+};
+
+export const seedDefaults = (strategy: SeedStrategy): SeedSettings => ({
+  strategy,
+  count: SEED_STRATEGIES[strategy].count?.value ?? 0,
+  spacing: SEED_STRATEGIES[strategy].spacing?.value ?? 0
+});
+
+/**
+ * count × count points at the centres of equal cells covering the view.
+ */
+export const gridSeeds = (view: Bounds, count: number): Point[] => {
+  const seeds: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    for (let j = 0; j < count; j++) {
+      seeds.push({
+        x: view.xMin + ((i + 0.5) / count) * (view.xMax - view.xMin),
+        y: view.yMin + ((j + 0.5) / count) * (view.yMax - view.yMin)
+      });
+    }
+  }
+  return seeds;
+};
+
+export const ringSeeds = (center: Point, radius: number, count: number): Point[] =>
+  Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+
+/**
+ * Points `offset` away from each equilibrium along both halves of every real eigenline.
+ * Traced both ways they follow the invariant lines, so a saddle gets its separatrices.
+ */
+export const eigenlineSeeds = (equilibria: { point: Point; analysis: EquilibriumAnalysis }[], offset: number): Point[] => {
+  const seeds: Point[] = [];
+  for (const { point, analysis } of equilibria) {
+    if (!analysis.eigenvectors || analysis.eigenvalues.some(ev => ev.im !== 0)) continue;
+    const directions: Vector[] = [];
+    for (const v of analysis.eigenvectors) {
+      const n = Math.hypot(v.x.re, v.y.re);
+      if (n === 0) continue;
+      const u = { x: v.x.re / n, y: v.y.re / n };
+      // A repeated eigenvalue may report the same line twice
+      if (directions.some(w => Math.abs(w.x * u.y - w.y * u.x) < 1e-9)) continue;
+      directions.push(u);
+    }
+    for (const u of directions) {
+      seeds.push({ x: point.x + offset * u.x, y: point.y + offset * u.y });
+      seeds.push({ x: point.x - offset * u.x, y: point.y - offset * u.y });
+    }
+  }
+  return seeds;
+};
+
+interface Mark extends Point {
+  // Arc length along its line from the seed, negative on the backward half
+  s: number;
+}
+
+/**
+ * Evenly spaced streamlines after Jobard and Lefer: each curve is traced in full by
+ * `trace`, then cut where it comes within half the separation of a curve already placed
+ * (or of itself, further along) or leaves the view. New seeds are tried one separation
+ * to either side of the accepted curves, until the view is filled or `maxLines` is reached.
+ * Curves in `occupied` are avoided like placed ones.
+ * Each `step` tries one candidate seed and returns true once no more lines will be placed;
+ * `seeds` holds the lines placed so far.
+ */
+export const startStreamlines = (
+  trace: (p: Point) => TimedPoint[],
+  view: Bounds,
+  separation: number,
+  maxLines: number,
+  occupied: Point[][] = []
+): { seeds: Seed[]; step: () => boolean } => {
+  const test = separation / 2;
+  const cell = test;
+  const columns = Math.ceil((view.xMax - view.xMin) / cell) + 1;
+  const grid = new Map<number, Mark[]>();
+  const key = (p: Point) =>
+    Math.floor((p.y - view.yMin) / cell) * columns + Math.floor((p.x - view.xMin) / cell);
+  const inView = (p: Point) => p.x >= view.xMin && p.x <= view.xMax && p.y >= view.yMin && p.y <= view.yMax;
+
+  const add = (m: Mark) => {
+    const k = key(m);
+    const marks = grid.get(k);
+    if (marks) marks.push(m);
+    else grid.set(k, [m]);
+  };
+
+  const near = (p: Point, dist: number) => {
+    const reach = Math.ceil(dist / cell);
+    const cx = Math.floor((p.x - view.xMin) / cell);
+    const cy = Math.floor((p.y - view.yMin) / cell);
+    for (let i = cx - reach; i <= cx + reach; i++) {
+      if (i < 0 || i >= columns) continue;
+      for (let j = cy - reach; j <= cy + reach; j++) {
+        if (grid.get(j * columns + i)?.some(m => Math.hypot(m.x - p.x, m.y - p.y) < dist)) return true;
+      }
+    }
+    return false;
+  };
+
+  occupied.forEach(curve => curve.filter(inView).forEach(p => add({ ...p, s: 0 })));
+
+  const seeds: Seed[] = [];
+  let regridded = false;
+  const candidates: Point[] = [{ x: (view.xMin + view.xMax) / 2, y: (view.yMin + view.yMax) / 2 }];
+
+  const step = (): boolean => {
+    if (seeds.length >= maxLines) return true;
+    // Regions the offsets never reach (e.g. past a separatrix) are tried once from a coarse grid
+    if (candidates.length === 0) {
+      if (regridded) return true;
+      regridded = true;
+      const side = Math.ceil(Math.max(view.xMax - view.xMin, view.yMax - view.yMin) / separation);
+      candidates.push(...gridSeeds(view, side));
+    }
+    const seed = candidates.shift()!;
+    if (!inView(seed) || near(seed, separation)) return false;
+
+    const points = trace(seed);
+    const start = points.findIndex(p => p.t === 0);
+    if (start < 0) return false;
+    const kept: Mark[] = [{ ...points[start], s: 0 }];
+    // Closed and spiralling curves stop before running into their own earlier turns
+    const nearSelf = (p: Point, s: number) =>
+      kept.some(m => Math.abs(m.s - s) > 3 * separation && Math.hypot(m.x - p.x, m.y - p.y) < test);
+
+    // Walks one half of the curve away from the seed until it has to stop
+    const walk = (direction: 1 | -1) => {
+      let s = 0;
+      let last = start;
+      for (let i = start + direction; i >= 0 && i < points.length; i += direction) {
+        const p = points[i];
+        const ds = Math.hypot(p.x - points[i - direction].x, p.y - points[i - direction].y);
+        s += direction * ds;
+        if (!inView(p) || near(p, test) || nearSelf(p, s)) break;
+        kept.push({ ...p, s });
+        last = i;
+      }
+      return points[last];
+    };
+    const end = walk(1);
+    const begin = walk(-1);
+
+    // Fragments shorter than the separation only clutter the picture
+    const length = Math.max(...kept.map(m => m.s)) - Math.min(...kept.map(m => m.s));
+    if (length < separation) return false;
+
+    kept.forEach(add);
+    seeds.push({ initial: seed, span: { forward: end.t, backward: -begin.t } });
+    const curve = kept.sort((m, n) => m.s - n.s);
+
+    // Candidates one separation off the curve, on both sides, at every separation along it
+    let since = Infinity;
+    for (let i = 1; i < curve.length; i++) {
+      const dx = curve[i].x - curve[i - 1].x;
+      const dy = curve[i].y - curve[i - 1].y;
+      const n = Math.hypot(dx, dy);
+      since += n;
+      if (n === 0 || since < separation) continue;
+      since = 0;
+      candidates.push({ x: curve[i].x - (dy / n) * separation, y: curve[i].y + (dx / n) * separation });
+      candidates.push({ x: curve[i].x + (dy / n) * separation, y: curve[i].y - (dx / n) * separation });
+    }
+    return seeds.length >= maxLines;
+  };
+
+  return { seeds, step };
+};
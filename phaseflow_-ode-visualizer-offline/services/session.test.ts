@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSession, Session, SESSION_VERSION, SessionError, sessionFromHash, sessionFromJson, sessionToHash, sessionToJson } from './session';
+
+const DEFAULTS: Session = {
+  version: SESSION_VERSION,
+  systemType: 'linear',
+  timeMode: 'continuous',
+  linearInput: 'matrix',
+  matrix: { a: '0', b: '1', c: '-1', d: '0' },
+  scalar: { a: '1', b: '0', c: '1', f: '0' },
+  forcing: { bx: '0', by: '0', gx: '0', gy: '0' },
+  alpha: 0,
+  alphaRange: { min: -2, max: 2 },
+  fieldTime: 0,
+  nonlinear: { f: 'y', g: '-sin(x)' },
+  trajectories: [],
+  viewport: { xMin: -5, xMax: 5, yMin: -5, yMax: 5 },
+  integrator: { method: 'rk4', dt: 0.05, tolerance: 1e-6, compareWith: null },
+  showExact: false,
+  layers: { xNullcline: false, yNullcline: false, shading: false },
+  canonicalView: false,
+  canonicalViewport: { xMin: -5, xMax: 5, yMin: -5, yMax: 5 }
+};
+
+const errorKey = (run: () => unknown) => {
+  try {
+    run();
+  } catch (e) {
+    return e instanceof SessionError ? e.detail.key : 'not a SessionError';
+  }
+  return null;
+};
+
+describe('normalizeSession', () => {
+  it('upgrades a version 1 session to the current version', () => {
+    const v1 = {
+      version: 1,
+      systemType: 'linear',
+      matrix: { a: '-1', b: '2', c: '-2', d: '-1' },
+      trajectories: [{ initial: { x: 1, y: 2 }, color: 'red', method: 'rk45' }],
+      viewport: { xMin: -3, xMax: 3, yMin: -2, yMax: 2 }
+    };
+    const session = normalizeSession(v1, DEFAULTS);
+    expect(session.version).toBe(4);
+    expect(session.linearInput).toBe('matrix');
+    expect(session.timeMode).toBe('continuous');
+    expect(session.layers).toEqual({ xNullcline: false, yNullcline: false, shading: false });
+    expect(session.canonicalView).toBe(false);
+    expect(session.canonicalViewport).toEqual(DEFAULTS.canonicalViewport);
+    expect(session.matrix).toEqual(v1.matrix);
+    expect(session.trajectories).toEqual([{ initial: { x: 1, y: 2 }, color: 'red', method: 'rk45' }]);
+    expect(session.viewport).toEqual(v1.viewport);
+  });
+
+  it('keeps the layers and canonical view of a version 4 session', () => {
+    const session = normalizeSession({
+      ...DEFAULTS,
+      layers: { xNullcline: true, yNullcline: false, shading: true },
+      canonicalView: true,
+      canonicalViewport: { xMin: -1, xMax: 1, yMin: -1, yMax: 1 }
+    }, DEFAULTS);
+    expect(session.layers).toEqual({ xNullcline: true, yNullcline: false, shading: true });
+    expect(session.canonicalView).toBe(true);
+    expect(session.canonicalViewport).toEqual({ xMin: -1, xMax: 1, yMin: -1, yMax: 1 });
+  });
+
+  it('falls back to the defaults field by field', () => {
+    const session = normalizeSession({
+      version: 4,
+      systemType: 'cubic',
+      alpha: 'much',
+      alphaRange: { min: 3, max: 1 },
+      viewport: { xMin: 1, xMax: -1, yMin: 0, yMax: 1 },
+      integrator: { method: 'magic', dt: -1, tolerance: 1e-4 },
+      trajectories: [{ initial: { x: 'a', y: 0 } }, { initial: { x: 0, y: 1 }, span: { forward: -1, backward: 2 } }],
+      layers: { shading: 'yes' }
+    }, DEFAULTS);
+    expect(session.systemType).toBe('linear');
+    expect(session.alpha).toBe(0);
+    expect(session.alphaRange).toEqual(DEFAULTS.alphaRange);
+    expect(session.viewport).toEqual(DEFAULTS.viewport);
+    expect(session.integrator).toEqual({ method: 'rk4', dt: 0.05, tolerance: 1e-4, compareWith: null });
+    expect(session.trajectories).toEqual([{ initial: { x: 0, y: 1 }, color: 'hsl(210, 65%, 45%)', method: 'rk4' }]);
+    expect(session.layers).toEqual(DEFAULTS.layers);
+  });
+
+  it('rejects what is not a session, or one from a newer version', () => {
+    expect(errorKey(() => normalizeSession(null, DEFAULTS))).toBe('session.error.not-a-session');
+    expect(errorKey(() => normalizeSession([1, 2], DEFAULTS))).toBe('session.error.not-a-session');
+    expect(errorKey(() => normalizeSession({ version: '4' }, DEFAULTS))).toBe('session.error.not-a-session');
+    expect(errorKey(() => normalizeSession({ version: SESSION_VERSION + 1 }, DEFAULTS))).toBe('session.error.newer');
+    expect(errorKey(() => normalizeSession({ version: 0 }, DEFAULTS))).toBe('session.error.unsupported');
+    expect(errorKey(() => sessionFromJson('{"version": ', DEFAULTS))).toBe('session.error.invalid-json');
+    expect(errorKey(() => sessionFromHash('#s=%%%', DEFAULTS))).toBe('session.error.damaged-link');
+  });
+});
+
+describe('session links and files', () => {
+  const session: Session = {
+    ...DEFAULTS,
+    nonlinear: { f: 'α*y', g: '-sin(πx)' },
+    trajectories: [{ initial: { x: 1.234567, y: -0.5 }, color: 'red', method: 'rk4', name: 'A' }],
+    canonicalViewport: { xMin: -1.234567, xMax: 1, yMin: -1, yMax: 1 }
+  };
+
+  it('round-trips through a URL hash with rounded coordinates', () => {
+    const loaded = sessionFromHash(sessionToHash(session), DEFAULTS)!;
+    expect(loaded.nonlinear).toEqual(session.nonlinear);
+    expect(loaded.trajectories[0].initial).toEqual({ x: 1.2346, y: -0.5 });
+    expect(loaded.canonicalViewport.xMin).toBe(-1.2346);
+    expect(sessionFromHash('#other', DEFAULTS)).toBeNull();
+  });
+
+  it('round-trips through JSON unchanged', () => {
+    expect(sessionFromJson(sessionToJson(session), DEFAULTS)).toEqual(session);
+  });
+});
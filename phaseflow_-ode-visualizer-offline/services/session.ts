@@ -0,0 +1,284 @@
+
+import { Bounds, ForcingInputs, IntegratorMethod, IntegratorSettings, Point, PortraitLayers, SystemType, TimeSpan } from '../types';
+import { MatrixEntry } from './parameter';
+import { SecondOrderInputs } from './secondOrder';
+import { english, Message, message } from './i18n';
+
+/**
+ * Bump when the shape of `Session` changes, and add an upgrade from the previous
+ * version to `UPGRADES` so that links and files saved earlier keep loading.
+ */
+export const SESSION_VERSION = 4;
+
+export interface SessionTrajectory {
+  initial: Point;
+  color: string;
+  method: IntegratorMethod;
+  comparison?: boolean;
+  name?: string;
+  hidden?: boolean;
+  span?: TimeSpan;
+}
+
+/**
+ * Everything needed to reproduce a portrait. Trajectories are stored by their initial
+ * conditions and re-integrated on load, which keeps links short.
+ */
+export interface Session {
+  version: number;
+  systemType: SystemType;
+  // Whether a linear system is the flow x' = Ax or the map x_{n+1} = Ax_n
+  timeMode: 'continuous' | 'discrete';
+  // How a linear system is entered: as a matrix, or as a scalar a y'' + b y' + c y = f(t)
+  linearInput: 'matrix' | 'scalar';
+  matrix: Record<MatrixEntry, string>;
+  scalar: SecondOrderInputs;
+  forcing: ForcingInputs;
+  alpha: number;
+  alphaRange: { min: number; max: number };
+  fieldTime: number;
+  nonlinear: { f: string; g: string };
+  trajectories: SessionTrajectory[];
+  viewport: Bounds;
+  integrator: IntegratorSettings;
+  showExact: boolean;
+  // Nullclines and shading drawn over the main portrait
+  layers: PortraitLayers;
+  // Whether the canonical form is shown next to the portrait, and the part of its plane in view
+  canonicalView: boolean;
+  canonicalViewport: Bounds;
+}
+
+export class SessionError extends Error {
+  // The message as catalogue data, for display in the interface language
+  detail: Message;
+
+  constructor(detail: Message) {
+    super(english(detail));
+    this.name = 'SessionError';
+    this.detail = detail;
+  }
+}
+
+type RawSession = Record<string, unknown>;
+
+// UPGRADES[n] turns a version-n session into a version-(n + 1) one
+const UPGRADES: Record<number, (raw: RawSession) => RawSession> = {
+  // Version 2 added second-order scalar input; older sessions were always entered as a matrix
+  1: raw => ({ ...raw, version: 2, linearInput: 'matrix' }),
+  // Version 3 added discrete maps
+  2: raw => ({ ...raw, version: 3, timeMode: 'continuous' }),
+  // Version 4 added the portrait layers and the canonical form view, both off before
+  3: raw => ({
+    ...raw,
+    version: 4,
+    layers: { xNullcline: false, yNullcline: false, shading: false },
+    canonicalView: false
+  })
+};
+
+const isObject = (v: unknown): v is RawSession => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+const METHODS: IntegratorMethod[] = ['euler', 'heun', 'rk4', 'rk45'];
+const isMethod = (v: unknown): v is IntegratorMethod => METHODS.includes(v as IntegratorMethod);
+
+const pickStrings = <K extends string>(raw: unknown, keys: readonly K[], fallback: Record<K, string>): Record<K, string> => {
+  const source = isObject(raw) ? raw : {};
+  const pick = (v: unknown, k: K) => (isString(v) ? v : isNumber(v) ? String(v) : fallback[k]);
+  return Object.fromEntries(keys.map(k => [k, pick(source[k], k)])) as Record<K, string>;
+};
+
+const pickBounds = (raw: unknown, fallback: Bounds): Bounds => {
+  if (!isObject(raw)) return fallback;
+  const { xMin, xMax, yMin, yMax } = raw;
+  return isNumber(xMin) && isNumber(xMax) && isNumber(yMin) && isNumber(yMax) && xMin < xMax && yMin < yMax
+    ? { xMin, xMax, yMin, yMax }
+    : fallback;
+};
+
+/**
+ * Validates a parsed session of any known version and upgrades it to the current one.
+ * Missing or malformed fields fall back to `defaults`; only an unusable whole is an error.
+ */
+export const normalizeSession = (raw: unknown, defaults: Session): Session => {
+  if (!isObject(raw) || !isNumber(raw.version)) throw new SessionError(message('session.error.not-a-session'));
+  if (raw.version > SESSION_VERSION) {
+    throw new SessionError(message('session.error.newer', { version: raw.version }));
+  }
+  let upgraded = raw;
+  for (let v = raw.version; v < SESSION_VERSION; v++) {
+    const upgrade = UPGRADES[v];
+    if (!upgrade) throw new SessionError(message('session.error.unsupported', { version: v }));
+    upgraded = upgrade(upgraded);
+  }
+
+  const r = upgraded;
+  const integrator = isObject(r.integrator) ? r.integrator : {};
+  const range = isObject(r.alphaRange) ? r.alphaRange : {};
+  const trajectories = Array.isArray(r.trajectories) ? r.trajectories : [];
+  const layers = isObject(r.layers) ? r.layers : {};
+
+  return {
+    version: SESSION_VERSION,
+    systemType: r.systemType === 'nonlinear' ? 'nonlinear' : r.systemType === 'linear' ? 'linear' : defaults.systemType,
+    timeMode: r.timeMode === 'discrete' ? 'discrete' : r.timeMode === 'continuous' ? 'continuous' : defaults.timeMode,
+    linearInput: r.linearInput === 'scalar' ? 'scalar' : r.linearInput === 'matrix' ? 'matrix' : defaults.linearInput,
+    matrix: pickStrings(r.matrix, ['a', 'b', 'c', 'd'] as const, defaults.matrix),
+    scalar: pickStrings(r.scalar, ['a', 'b', 'c', 'f'] as const, defaults.scalar),
+    forcing: pickStrings(r.forcing, ['bx', 'by', 'gx', 'gy'] as const, defaults.forcing),
+    alpha: isNumber(r.alpha) ? r.alpha : defaults.alpha,
+    alphaRange: isNumber(range.min) && isNumber(range.max) && range.min < range.max
+      ? { min: range.min, max: range.max }
+      : defaults.alphaRange,
+    fieldTime: isNumber(r.fieldTime) ? r.fieldTime : defaults.fieldTime,
+    nonlinear: pickStrings(r.nonlinear, ['f', 'g'] as const, defaults.nonlinear),
+    trajectories: trajectories.flatMap((t): SessionTrajectory[] => {
+      if (!isObject(t) || !isObject(t.initial) || !isNumber(t.initial.x) || !isNumber(t.initial.y)) return [];
+      return [{
+        initial: { x: t.initial.x, y: t.initial.y },
+        color: isString(t.color) ? t.color : 'hsl(210, 65%, 45%)',
+        method: isMethod(t.method) ? t.method : defaults.integrator.method,
+        ...(t.comparison === true ? { comparison: true } : {}),
+        ...(isString(t.name) ? { name: t.name } : {}),
+        ...(t.hidden === true ? { hidden: true } : {}),
+        ...(isObject(t.span) && isNumber(t.span.forward) && isNumber(t.span.backward) && t.span.forward >= 0 && t.span.backward >= 0
+          ? { span: { forward: t.span.forward, backward: t.span.backward } }
+          : {})
+      }];
+    }),
+    viewport: pickBounds(r.viewport, defaults.viewport),
+    integrator: {
+      method: isMethod(integrator.method) ? integrator.method : defaults.integrator.method,
+      dt: isNumber(integrator.dt) && integrator.dt > 0 ? integrator.dt : defaults.integrator.dt,
+      tolerance: isNumber(integrator.tolerance) && integrator.tolerance > 0 ? integrator.tolerance : defaults.integrator.tolerance,
+      compareWith: isMethod(integrator.compareWith) ? integrator.compareWith : null
+    },
+    showExact: typeof r.showExact === 'boolean' ? r.showExact : defaults.showExact,
+    layers: {
+      xNullcline: typeof layers.xNullcline === 'boolean' ? layers.xNullcline : defaults.layers.xNullcline,
+      yNullcline: typeof layers.yNullcline === 'boolean' ? layers.yNullcline : defaults.layers.yNullcline,
+      shading: typeof layers.shading === 'boolean' ? layers.shading : defaults.layers.shading
+    },
+    canonicalView: typeof r.canonicalView === 'boolean' ? r.canonicalView : defaults.canonicalView,
+    canonicalViewport: pickBounds(r.canonicalViewport, defaults.canonicalViewport)
+  };
+};
+
+// Initial conditions and bounds only need a few decimals in a link
+const round = (v: number) => +v.toFixed(4);
+
+const roundBounds = (b: Bounds): Bounds => ({
+  xMin: round(b.xMin), xMax: round(b.xMax), yMin: round(b.yMin), yMax: round(b.yMax)
+});
+
+const compact = (session: Session): Session => ({
+  ...session,
+  trajectories: session.trajectories.map(t => ({ ...t, initial: { x: round(t.initial.x), y: round(t.initial.y) } })),
+  viewport: roundBounds(session.viewport),
+  canonicalViewport: roundBounds(session.canonicalViewport),
+  alpha: round(session.alpha),
+  fieldTime: round(session.fieldTime)
+});
+
+// Unicode-safe base64url, since expressions may contain α or π
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+const HASH_PREFIX = '#s=';
+
+export const sessionToHash = (session: Session): string => `${HASH_PREFIX}${toBase64Url(JSON.stringify(compact(session)))}`;
+
+/**
+ * The session in a URL hash, or null when the hash holds none.
+ */
+export const sessionFromHash = (hash: string, defaults: Session): Session | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch {
+    throw new SessionError(message('session.error.damaged-link'));
+  }
+  return normalizeSession(raw, defaults);
+};
+
+export const sessionToJson = (session: Session): string => JSON.stringify(session, null, 2);
+
+export const sessionFromJson = (text: string, defaults: Session): Session => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SessionError(message('session.error.invalid-json'));
+  }
+  return normalizeSession(raw, defaults);
+};
+
+const STORAGE_KEY = 'phaseflow.sessions';
+
+export interface SavedSession {
+  name: string;
+  savedAt: string;
+  session: Session;
+}
+
+/**
+ * Named sessions in localStorage, newest first. Entries that no longer validate are dropped.
+ */
+export const loadSavedSessions = (defaults: Session): SavedSession[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((entry): SavedSession[] => {
+      if (!isObject(entry) || !isString(entry.name)) return [];
+      try {
+        return [{
+          name: entry.name,
+          savedAt: isString(entry.savedAt) ? entry.savedAt : '',
+          session: normalizeSession(entry.session, defaults)
+        }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+const storeSessions = (sessions: SavedSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    throw new SessionError(message('session.error.storage'));
+  }
+};
+
+/**
+ * Saves under `name`, replacing any session with the same name. Returns the new list.
+ */
+export const saveSession = (name: string, session: Session, defaults: Session): SavedSession[] => {
+  const next = [
+    { name, savedAt: new Date().toISOString(), session },
+    ...loadSavedSessions(defaults).filter(s => s.name !== name)
+  ];
+  storeSessions(next);
+  return next;
+};
+
+export const deleteSavedSession = (name: string, defaults: Session): SavedSession[] => {
+  const next = loadSavedSessions(defaults).filter(s => s.name !== name);
+  storeSessions(next);
+  return next;
+};
@@ -0,0 +1,65 @@
+
+import { FieldSpec, Forcing, Matrix2x2, VectorField } from '../types';
+import { CompiledExpression, tryParseExpression } from './expressionParser';
+import { compileForcing } from './forcing';
+import { Message } from './i18n';
+
+/**
+ * The linear field y' = Ay, or y' = Ay + b + g(t) when forcing is given.
+ */
+export const linearField = (m: Matrix2x2, forcing?: Forcing): VectorField => {
+  if (!forcing) {
+    return (p) => ({
+      x: m.a * p.x + m.b * p.y,
+      y: m.c * p.x + m.d * p.y
+    });
+  }
+  const { b, g } = forcing;
+  return (p, t = 0) => {
+    const gt = g ? g(t) : { x: 0, y: 0 };
+    return {
+      x: m.a * p.x + m.b * p.y + b.x + gt.x,
+      y: m.c * p.x + m.d * p.y + b.y + gt.y
+    };
+  };
+};
+
+/**
+ * The field x' = f(x, y), y' = g(x, y) from two compiled expressions.
+ */
+export const expressionField = (f: CompiledExpression, g: CompiledExpression): VectorField => {
+  const scope = { x: 0, y: 0 };
+  return (p) => {
+    scope.x = p.x;
+    scope.y = p.y;
+    return { x: f.evaluate(scope), y: g.evaluate(scope) };
+  };
+};
+
+export interface CompiledSystem {
+  field: VectorField | null;
+  errors: { f: Message | null; g: Message | null };
+}
+
+/**
+ * Parses the typed-in right-hand sides. `field` is null if either side fails to parse.
+ */
+export const compileSystem = (fSource: string, gSource: string): CompiledSystem => {
+  const f = tryParseExpression(fSource, ['x', 'y']);
+  const g = tryParseExpression(gSource, ['x', 'y']);
+  return {
+    field: f.expression && g.expression ? expressionField(f.expression, g.expression) : null,
+    errors: { f: f.error, g: g.error }
+  };
+};
+
+/**
+ * Rebuilds the field a `FieldSpec` describes; a map gives y' = Ay. Right-hand sides that
+ * fail to parse give a field that is undefined everywhere, so nothing gets traced.
+ */
+export const fieldFromSpec = (spec: FieldSpec): VectorField => {
+  if (spec.kind === 'nonlinear') return compileSystem(spec.f, spec.g).field ?? (() => ({ x: NaN, y: NaN }));
+  if (spec.kind === 'map' || (!spec.g && spec.b.x === 0 && spec.b.y === 0)) return linearField(spec.matrix);
+  const g = spec.g ? compileForcing(spec.g[0], spec.g[1]).g : null;
+  return linearField(spec.matrix, { b: spec.b, g });
+};
@@ -1,3 +1,5 @@
+import { Message } from './services/i18n';
+
 
 export interface Matrix2x2 {
   a: number;
@@ -11,28 +13,170 @@ export interface Point {
   y: number;
 }
 
+/**
+ * A point on a trajectory, stamped with its (signed) time from the initial condition.
+ */
+export interface TimedPoint extends Point {
+  t: number;
+}
+
 export interface Vector {
   x: number;
   y: number;
 }
 
+/**
+ * Right-hand side of a planar system: maps a state (x, y) at time t to (x', y').
+ * Autonomous fields ignore t; callers that have no time (e.g. equilibrium search) omit it.
+ */
+export type VectorField = (p: Point, t?: number) => Vector;
+
+/**
+ * Inhomogeneous part of y' = Ay + b + g(t).
+ */
+export interface Forcing {
+  b: Vector;
+  // Time-dependent forcing; null when g ≡ 0
+  g: ((t: number) => Vector) | null;
+}
+
+/**
+ * Typed-in forcing terms: the components of b and the expressions in t for g(t).
+ */
+export interface ForcingInputs {
+  bx: string;
+  by: string;
+  gx: string;
+  gy: string;
+}
+
+export type SystemType = 'linear' | 'nonlinear';
+
+/**
+ * A field as plain data, so that it can be rebuilt inside a Web Worker: the matrix with
+ * its forcing (the sources of g(t)), the typed-in right-hand sides of a nonlinear system,
+ * or the matrix of a map, which is iterated instead of integrated.
+ */
+export type FieldSpec =
+  | { kind: 'linear'; matrix: Matrix2x2; b: Vector; g: [string, string] | null }
+  | { kind: 'nonlinear'; f: string; g: string }
+  | { kind: 'map'; matrix: Matrix2x2 };
+
+export type IntegratorMethod = 'euler' | 'heun' | 'rk4' | 'rk45';
+
+export interface IntegratorSettings {
+  method: IntegratorMethod;
+  dt: number;
+  // Local error tolerance, only used by adaptive methods
+  tolerance: number;
+  // Second method to integrate every new initial condition with, for side-by-side comparison
+  compareWith: IntegratorMethod | null;
+}
+
+/**
+ * How long a trajectory is traced from its initial point, in time units (iterates, for a map).
+ */
+export interface TimeSpan {
+  forward: number;
+  backward: number;
+}
+
 export interface Trajectory {
   id: string;
-  points: Point[];
+  points: TimedPoint[];
   initial: Point;
   color: string;
+  method?: IntegratorMethod;
+  // Drawn dashed: the same initial condition integrated by `IntegratorSettings.compareWith`
+  comparison?: boolean;
+  // The trajectory a comparison belongs to; it follows that one's edits
+  parent?: string;
+  name?: string;
+  hidden?: boolean;
+  // The default span of the current mode when absent
+  span?: TimeSpan;
 }
 
+export type Rotation = 'clockwise' | 'counterclockwise';
+
+/**
+ * Type of the equilibrium at the origin. Flows use the first nine; maps also have
+ * rotations (a conjugate pair on the unit circle) and non-hyperbolic fixed points (±1).
+ */
+export type EquilibriumKind =
+  | 'saddle'
+  | 'node'
+  // Repeated eigenvalue with two eigenvectors (A = λI): every ray is a trajectory
+  | 'star'
+  // Repeated eigenvalue with a single eigenvector
+  | 'improper-node'
+  | 'spiral'
+  | 'center'
+  // One zero eigenvalue: a line of equilibria, approached or left along the other eigenvector
+  | 'line'
+  // Nilpotent A ≠ 0: both eigenvalues zero, solutions drift parallel to the kernel
+  | 'shear'
+  // A = 0: every point is an equilibrium
+  | 'zero'
+  | 'rotation'
+  | 'non-hyperbolic';
+
+/**
+ * Stability in Lyapunov's sense: 'stable' covers equilibria that nearby solutions stay
+ * near without approaching (centers, lines of stable equilibria).
+ */
+export type StabilityKind = 'asymptotically-stable' | 'stable' | 'unstable';
+
 export interface EquilibriumAnalysis {
   trace: number;
   determinant: number;
   discriminant: number;
   eigenvalues: [ComplexNumber, ComplexNumber];
   eigenvectors: [ComplexVector, ComplexVector] | null;
-  classification: string;
-  stability: string;
+  // Sense of rotation of spirals and centers; null when the eigenvalues are real
+  rotation: Rotation | null;
+  kind: EquilibriumKind;
+  stabilityKind: StabilityKind;
+  // Catalogue messages naming `kind` and `stabilityKind`
+  classification: Message;
+  stability: Message;
+}
+
+export interface Bounds {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// Optional overlays of the phase portrait derived from the direction field
+export interface PortraitLayers {
+  xNullcline: boolean;
+  yNullcline: boolean;
+  shading: boolean;
 }
 
+/**
+ * An equilibrium of a (possibly nonlinear) field together with its linearization.
+ */
+export interface Equilibrium {
+  point: Point;
+  jacobian: Matrix2x2;
+  analysis: EquilibriumAnalysis;
+  // False when an eigenvalue has zero real part, so the linearization does not decide the local picture
+  hyperbolic: boolean;
+}
+
+/**
+ * Equilibria of the affine system y' = Ay + b: a single point when A is invertible,
+ * otherwise a line (or the whole plane) when b lies in the range of A, or none at all.
+ */
+export type AffineEquilibrium =
+  | { kind: 'point'; point: Point }
+  | { kind: 'line'; point: Point; direction: Vector }
+  | { kind: 'plane' }
+  | { kind: 'none' };
+
 export interface ComplexNumber {
   re: number;
   im: number;